@@ -0,0 +1,346 @@
+/**
+ * Price alerts.
+ * Rules are stored in the plugin database and evaluated by a scheduled task,
+ * which notifies the user through `ctx.sendClaudeMessage` when one fires.
+ */
+
+import type { PluginContext, PluginScheduledTask, PluginToolDefinition } from "./types"
+import type { MarketDataProvider } from "./providers"
+import type { Currency } from "./currency"
+import type { Quote } from "./models"
+import { Elysia, t } from "elysia"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err, ok } from "./format"
+import { oneOf } from "./http"
+import { formatProp, outputFormat, respond } from "./output"
+import { openStore } from "./store"
+
+export type AlertCondition = "price_above" | "price_below" | "percent_move" | "new_52w_high" | "new_52w_low"
+
+export const ALERT_CONDITIONS: AlertCondition[] = ["price_above", "price_below", "percent_move", "new_52w_high", "new_52w_low"]
+
+export interface AlertRule {
+  id: string
+  symbol: string
+  condition: AlertCondition
+  threshold: number | null // price for above/below, percent for percent_move
+  oneShot: boolean
+  cooldownMinutes: number
+  note: string
+  active: boolean
+  createdAt: string
+  lastCheckedAt: string | null
+  lastTriggeredAt: string | null
+  /** Whether the condition held, and was alerted on, at the last check; alerts fire on the transition to true. */
+  met: boolean
+}
+
+export interface AlertInput {
+  symbol: string
+  condition: AlertCondition
+  threshold?: number
+  oneShot?: boolean
+  cooldownMinutes?: number
+  note?: string
+}
+
+export interface Alerts {
+  all(): AlertRule[]
+  create(input: AlertInput): AlertRule
+  delete(id: string): void
+  save(rule: AlertRule): void
+}
+
+const DEFAULT_COOLDOWN_MINUTES = 60
+const DEFAULT_CHECK_MINUTES = 5
+
+export function createAlerts(ctx: PluginContext): Alerts {
+  const store = openStore(ctx, "alerts")
+
+  return {
+    all: () => store.list<AlertRule>().map((e) => e.value),
+
+    create(input) {
+      const symbol = input.symbol.trim().toUpperCase()
+      if (!symbol) throw new InvalidInputError("Symbol is required.")
+      if (!ALERT_CONDITIONS.includes(input.condition)) {
+        throw new InvalidInputError(`Unknown condition "${input.condition}". Use one of: ${ALERT_CONDITIONS.join(", ")}.`)
+      }
+      const needsThreshold = input.condition === "price_above" || input.condition === "price_below" || input.condition === "percent_move"
+      if (needsThreshold && !(typeof input.threshold === "number" && input.threshold > 0)) {
+        throw new InvalidInputError(`Condition "${input.condition}" needs a positive threshold.`)
+      }
+
+      const rule: AlertRule = {
+        id: crypto.randomUUID().slice(0, 8),
+        symbol,
+        condition: input.condition,
+        threshold: needsThreshold ? input.threshold! : null,
+        oneShot: input.oneShot ?? false,
+        cooldownMinutes: Math.max(input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES, 0),
+        note: input.note || "",
+        active: true,
+        createdAt: new Date().toISOString(),
+        lastCheckedAt: null,
+        lastTriggeredAt: null,
+        met: false,
+      }
+      store.set(rule.id, rule)
+      return rule
+    },
+
+    delete(id) {
+      if (!store.get(id)) throw new NotFoundError(`Alert "${id}" not found.`)
+      store.delete(id)
+    },
+
+    save(rule) {
+      store.set(rule.id, rule)
+    },
+  }
+}
+
+export function describeAlert(rule: AlertRule, money: (amount: number) => string): string {
+  const what = {
+    price_above: `price above ${money(rule.threshold ?? 0)}`,
+    price_below: `price below ${money(rule.threshold ?? 0)}`,
+    percent_move: `daily move beyond ±${rule.threshold}%`,
+    new_52w_high: "new 52-week high",
+    new_52w_low: "new 52-week low",
+  }[rule.condition]
+  const mode = rule.oneShot ? "one-shot" : `repeats, ${rule.cooldownMinutes}m cooldown`
+  const status = rule.active ? "" : " [inactive]"
+  return `[${rule.id}] ${rule.symbol}: ${what} (${mode})${status}${rule.note ? ` — ${rule.note}` : ""}`
+}
+
+function isMet(rule: AlertRule, quote: Quote, metrics: Record<string, number | null> | null): boolean {
+  switch (rule.condition) {
+    case "price_above":
+      return quote.price >= rule.threshold!
+    case "price_below":
+      return quote.price <= rule.threshold!
+    case "percent_move":
+      return Math.abs(quote.changePercent) >= rule.threshold!
+    case "new_52w_high": {
+      const high = metrics?.["52WeekHigh"]
+      return high != null && quote.price >= high
+    }
+    case "new_52w_low": {
+      const low = metrics?.["52WeekLow"]
+      return low != null && quote.price <= low
+    }
+  }
+}
+
+function triggerMessage(rule: AlertRule, quote: Quote, money: (amount: number) => string): string {
+  const dir = quote.change >= 0 ? "+" : ""
+  const now = `now ${money(quote.price)}, ${dir}${quote.changePercent.toFixed(2)}% today`
+  const what = {
+    price_above: `rose above ${money(rule.threshold ?? 0)}`,
+    price_below: `fell below ${money(rule.threshold ?? 0)}`,
+    percent_move: `moved more than ${rule.threshold}% today`,
+    new_52w_high: "hit a new 52-week high",
+    new_52w_low: "hit a new 52-week low",
+  }[rule.condition]
+  return `Stock alert: ${rule.symbol} ${what} (${now}).${rule.note ? ` Note: ${rule.note}` : ""}`
+}
+
+/**
+ * Evaluate active alerts. At most `budget` symbols are quoted per run;
+ * the least recently checked symbols go first so large rule sets rotate.
+ */
+export async function checkAlerts(
+  ctx: PluginContext,
+  alerts: Alerts,
+  market: MarketDataProvider,
+  currency: Currency,
+  budget: number
+): Promise<AlertRule[]> {
+  const active = alerts.all().filter((r) => r.active)
+  if (active.length === 0) return []
+
+  const bySymbol = new Map<string, AlertRule[]>()
+  for (const rule of active) {
+    bySymbol.set(rule.symbol, [...(bySymbol.get(rule.symbol) || []), rule])
+  }
+  const lastChecked = (rules: AlertRule[]) => Math.min(...rules.map((r) => (r.lastCheckedAt ? Date.parse(r.lastCheckedAt) : 0)))
+  const symbols = [...bySymbol.entries()]
+    .sort(([, a], [, b]) => lastChecked(a) - lastChecked(b))
+    .slice(0, Math.max(budget, 1))
+
+  const fired: AlertRule[] = []
+  for (const [symbol, rules] of symbols) {
+    try {
+      const quote = await market.quote(symbol)
+      if (!quote) continue
+      const needsMetrics = rules.some((r) => r.condition === "new_52w_high" || r.condition === "new_52w_low")
+      const metrics = needsMetrics ? await market.metrics(symbol) : null
+
+      const now = new Date()
+      for (const rule of rules) {
+        const met = isMet(rule, quote, metrics)
+        const cooledDown =
+          !rule.lastTriggeredAt || now.getTime() - Date.parse(rule.lastTriggeredAt) >= rule.cooldownMinutes * 60_000
+
+        if (met && !rule.met && cooledDown) {
+          await ctx.sendClaudeMessage(triggerMessage(rule, quote, await currency.priceFormatter(symbol)))
+          rule.lastTriggeredAt = now.toISOString()
+          if (rule.oneShot) rule.active = false
+          fired.push(rule)
+        }
+        // A trigger inside the cooldown stays pending rather than counting
+        // as met, so it fires once the cooldown ends if the condition holds
+        if (cooledDown || !met) rule.met = met
+        rule.lastCheckedAt = now.toISOString()
+        alerts.save(rule)
+      }
+    } catch (e) {
+      ctx.log.warn(`Alert check for ${symbol} failed:`, e instanceof Error ? e.message : String(e))
+    }
+  }
+  return fired
+}
+
+export function alertScheduledTask(ctx: PluginContext, alerts: Alerts, market: MarketDataProvider, currency: Currency): PluginScheduledTask {
+  let lastRun = 0
+  return {
+    name: "stock-alerts",
+    // Ticks every minute and reads the interval setting each time, so changes apply without a reload
+    intervalMs: 60_000,
+    handler: async () => {
+      const minutes = Number(ctx.getSetting<number>("alertCheckMinutes")) || DEFAULT_CHECK_MINUTES
+      // A few seconds of slack so timer jitter doesn't skip a whole tick
+      if (Date.now() - lastRun < minutes * 60_000 - 5_000) return
+      lastRun = Date.now()
+      // Leave most of the per-minute quota for interactive tool calls
+      const quota = Number(ctx.getSetting<number>("finnhubCallsPerMinute")) || 60
+      const fired = await checkAlerts(ctx, alerts, market, currency, Math.floor(quota / 4))
+      if (fired.length > 0) ctx.log.info(`Fired ${fired.length} stock alert(s)`)
+    },
+  }
+}
+
+export function alertRoutes(alerts: Alerts) {
+  return new Elysia({ prefix: "/alerts" })
+    .get("/", () => ({ alerts: alerts.all() }))
+    .post("/", ({ body, set }) => {
+      set.status = 201
+      return alerts.create(body)
+    }, {
+      body: t.Object({
+        symbol: t.String({ minLength: 1 }),
+        condition: oneOf("condition", ALERT_CONDITIONS),
+        threshold: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+        oneShot: t.Optional(t.Boolean()),
+        cooldownMinutes: t.Optional(t.Number({ minimum: 0 })),
+        note: t.Optional(t.String()),
+      }),
+    })
+    .delete("/:id", ({ params }) => {
+      alerts.delete(params.id)
+      return { deleted: params.id }
+    })
+}
+
+export function alertTools(alerts: Alerts, currency: Currency): PluginToolDefinition[] {
+  return [
+    // ── Create Alert ──
+    {
+      definition: {
+        name: "stock_alert_create",
+        description:
+          "Create a price alert. The plugin checks alerts every few minutes and messages the user when one fires. " +
+          "Conditions: price_above / price_below (threshold = price), percent_move (threshold = absolute daily % change), " +
+          "new_52w_high / new_52w_low (no threshold).",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            condition: { type: "string", enum: ALERT_CONDITIONS, description: "Alert condition" },
+            threshold: { type: "number", description: "Price or percent threshold, depending on condition" },
+            one_shot: { type: "boolean", description: "Deactivate the alert after it fires once (default: false)" },
+            cooldown_minutes: {
+              type: "number",
+              description: `Minimum minutes between repeat notifications (default: ${DEFAULT_COOLDOWN_MINUTES})`,
+            },
+            note: { type: "string", description: "Optional note included in the notification" },
+            format: formatProp,
+          },
+          required: ["symbol", "condition"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const rule = alerts.create({
+            symbol: args.symbol as string,
+            condition: args.condition as AlertCondition,
+            threshold: args.threshold as number | undefined,
+            oneShot: args.one_shot as boolean | undefined,
+            cooldownMinutes: args.cooldown_minutes as number | undefined,
+            note: args.note as string | undefined,
+          })
+          const money = await currency.priceFormatter(rule.symbol)
+          return respond(outputFormat(args), { text: `Created alert ${describeAlert(rule, money)}`, data: rule })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── List Alerts ──
+    {
+      definition: {
+        name: "stock_alert_list",
+        description: "List configured price alerts, optionally for one symbol.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Only show alerts for this symbol" },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = args.symbol ? (args.symbol as string).toUpperCase() : null
+          const format = outputFormat(args)
+          const rules = alerts.all().filter((r) => !symbol || r.symbol === symbol)
+          if (rules.length === 0 && format === "text") return ok(symbol ? `No alerts for ${symbol}.` : "No alerts configured.")
+          const lines = await Promise.all(
+            rules.map(async (r) => {
+              const fired = r.lastTriggeredAt ? ` (last fired ${new Date(r.lastTriggeredAt).toLocaleString("en-US")})` : ""
+              return describeAlert(r, await currency.priceFormatter(r.symbol)) + fired
+            })
+          )
+          return respond(format, { text: `Alerts:\n${lines.join("\n")}`, data: rules })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Delete Alert ──
+    {
+      definition: {
+        name: "stock_alert_delete",
+        description: "Delete a price alert by id (see stock_alert_list).",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            id: { type: "string", description: "Alert id" },
+            format: formatProp,
+          },
+          required: ["id"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          alerts.delete(args.id as string)
+          return respond(outputFormat(args), { text: `Deleted alert ${args.id}.`, data: { deleted: args.id } })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
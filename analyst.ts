@@ -0,0 +1,231 @@
+/**
+ * `stock_analyst` tool and route: monthly recommendation trends, the
+ * consensus price target with upside versus the current quote, and recent
+ * upgrades and downgrades. Sections load independently, since price targets
+ * and rating changes sit behind paid plans on some providers.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { PriceTarget, RatingChange, RecommendationTrend } from "./models"
+import type { MarketData } from "./providers"
+import type { Currency } from "./currency"
+import { Elysia, t } from "elysia"
+import { NotFoundError } from "./errors"
+import { err } from "./format"
+import { symbolParams } from "./http"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+const DAY_MS = 86400000
+const DEFAULT_MONTHS = 4
+const MAX_MONTHS = 24
+const DEFAULT_CHANGE_DAYS = 90
+const MAX_CHANGE_DAYS = 730
+
+// Consensus score runs from 1 (strong buy) to 5 (strong sell)
+const RATINGS: Array<{ key: keyof Omit<RecommendationTrend, "period">; label: string }> = [
+  { key: "strongBuy", label: "Strong Buy" },
+  { key: "buy", label: "Buy" },
+  { key: "hold", label: "Hold" },
+  { key: "sell", label: "Sell" },
+  { key: "strongSell", label: "Strong Sell" },
+]
+
+const ACTION_LABELS: Record<string, string> = {
+  up: "upgrade",
+  down: "downgrade",
+  init: "initiated",
+  main: "maintained",
+  reit: "reiterated",
+}
+
+export interface Consensus {
+  period: string
+  analysts: number
+  score: number
+  rating: string
+}
+
+export interface TargetWithUpside extends PriceTarget {
+  /** Percent from the current price to each target; null without a quote. */
+  upside: { high: number | null; low: number | null; mean: number | null; median: number | null }
+}
+
+export interface AnalystSummary {
+  symbol: string
+  price: number | null
+  consensus: Consensus | null
+  recommendations: RecommendationTrend[]
+  priceTarget: TargetWithUpside | null
+  ratingChanges: RatingChange[]
+  /** Sections that failed to load, with the reason. */
+  unavailable: Record<string, string>
+}
+
+export function consensusOf(trend: RecommendationTrend): Consensus | null {
+  const analysts = RATINGS.reduce((sum, r) => sum + trend[r.key], 0)
+  if (analysts === 0) return null
+  const score = RATINGS.reduce((sum, r, i) => sum + trend[r.key] * (i + 1), 0) / analysts
+  return { period: trend.period, analysts, score, rating: RATINGS[Math.min(Math.round(score), 5) - 1].label }
+}
+
+function withUpside(target: PriceTarget, price: number | null): TargetWithUpside {
+  const upside = (n: number | null) => (n == null || !price ? null : ((n - price) / price) * 100)
+  return {
+    ...target,
+    upside: { high: upside(target.high), low: upside(target.low), mean: upside(target.mean), median: upside(target.median) },
+  }
+}
+
+function reason(result: PromiseSettledResult<unknown>): string | null {
+  if (result.status === "fulfilled") return null
+  return result.reason instanceof Error ? result.reason.message : String(result.reason)
+}
+
+export async function fetchAnalyst(
+  market: MarketData,
+  symbol: string,
+  options: { months?: number; days?: number } = {}
+): Promise<AnalystSummary> {
+  const from = new Date(Date.now() - (options.days ?? DEFAULT_CHANGE_DAYS) * DAY_MS).toISOString().split("T")[0]
+  const [quote, recommendations, target, changes] = await Promise.allSettled([
+    market.quote(symbol),
+    market.recommendations(symbol),
+    market.priceTarget(symbol),
+    market.ratingChanges(symbol, from),
+  ])
+
+  // A failing quote only costs the upside figures; all three analyst
+  // sections failing is an error worth surfacing as-is
+  const sections = { recommendations, priceTarget: target, ratingChanges: changes }
+  const failures = Object.values(sections).filter((r) => r.status === "rejected")
+  if (failures.length === 3) throw (failures[0] as PromiseRejectedResult).reason
+
+  const unavailable: Record<string, string> = {}
+  for (const [name, result] of Object.entries(sections)) {
+    const why = reason(result)
+    if (why) unavailable[name] = why
+  }
+
+  const price = quote.status === "fulfilled" && quote.value ? quote.value.price : null
+  const trends = recommendations.status === "fulfilled" ? recommendations.value.slice(0, options.months ?? DEFAULT_MONTHS) : []
+  const priceTarget = target.status === "fulfilled" && target.value ? withUpside(target.value, price) : null
+  const ratingChanges = changes.status === "fulfilled" ? changes.value.filter((c) => c.date >= from) : []
+
+  if (trends.length === 0 && !priceTarget && ratingChanges.length === 0 && Object.keys(unavailable).length === 0) {
+    throw new NotFoundError(`No analyst coverage found for "${symbol}".`)
+  }
+
+  return {
+    symbol,
+    price,
+    consensus: trends.length > 0 ? consensusOf(trends[0]) : null,
+    recommendations: trends,
+    priceTarget,
+    ratingChanges,
+    unavailable,
+  }
+}
+
+function signed(n: number | null): string {
+  return n == null ? "" : ` (${n >= 0 ? "+" : ""}${n.toFixed(1)}%)`
+}
+
+function formatAnalyst(s: AnalystSummary, days: number, money: (amount: number) => string): string {
+  const targetLine = (label: string, value: number | null, upside: number | null) =>
+    value == null ? null : `${label} ${money(value)}${signed(upside)}`
+  const lines = [`${s.symbol} Analyst Coverage`]
+  if (s.price != null) lines.push(`Price: ${money(s.price)}`)
+
+  const t = s.priceTarget
+  if (t) {
+    const meta = [t.analysts ? `${t.analysts} analysts` : "", t.updated ? `updated ${t.updated}` : ""].filter(Boolean)
+    const center = [targetLine("Mean", t.mean, t.upside.mean), targetLine("Median", t.median, t.upside.median)].filter(Boolean)
+    const range = [targetLine("High", t.high, t.upside.high), targetLine("Low", t.low, t.upside.low)].filter(Boolean)
+    lines.push(``, `Price target${meta.length ? ` (${meta.join(", ")})` : ""}:`)
+    if (center.length) lines.push(`  ${center.join(", ")}`)
+    if (range.length) lines.push(`  ${range.join(", ")}`)
+  }
+
+  if (s.consensus) {
+    const c = s.consensus
+    lines.push(``, `Consensus: ${c.rating} (${c.score.toFixed(2)} on a 1–5 scale, ${c.analysts} analysts, ${c.period.slice(0, 7)})`)
+  }
+
+  if (s.recommendations.length > 0) {
+    const header = ["Month  ", ...RATINGS.map((r) => r.label)]
+    lines.push(``, `Recommendation trends:`, `  ${header.join("  ")}`)
+    for (const trend of s.recommendations) {
+      const counts = RATINGS.map((r, i) => String(trend[r.key]).padStart(header[i + 1].length))
+      lines.push(`  ${trend.period.slice(0, 7)}  ${counts.join("  ")}`)
+    }
+  }
+
+  lines.push(``, `Rating changes (last ${days} days):`)
+  if (s.ratingChanges.length === 0) {
+    lines.push(s.unavailable.ratingChanges ? `  unavailable` : `  none`)
+  } else {
+    for (const c of s.ratingChanges) {
+      const grades = c.fromGrade && c.fromGrade !== c.toGrade ? `${c.fromGrade} → ${c.toGrade}` : c.toGrade
+      lines.push(`  ${c.date} ${c.firm} ${ACTION_LABELS[c.action] ?? c.action}${grades ? `: ${grades}` : ""}`)
+    }
+  }
+
+  const missing = Object.entries(s.unavailable)
+  if (missing.length > 0) {
+    lines.push(``, `Unavailable:`, ...missing.map(([name, why]) => `  ${name}: ${why}`))
+  }
+  return lines.join("\n")
+}
+
+export function analystRoutes(market: MarketData) {
+  return new Elysia().get("/analyst/:symbol", ({ params, query }) =>
+    fetchAnalyst(market, params.symbol.toUpperCase(), { months: query.months, days: query.days }), {
+    params: symbolParams,
+    query: t.Object({
+      months: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_MONTHS })),
+      days: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_CHANGE_DAYS })),
+    }),
+  })
+}
+
+export function analystTools(market: MarketData, currency: Currency): PluginToolDefinition[] {
+  return [
+    // ── Analyst Coverage ──
+    {
+      definition: {
+        name: "stock_analyst",
+        description:
+          "Wall Street analyst view of a stock: consensus price target (high/low/mean/median) with upside vs the current price, " +
+          "monthly strong buy → strong sell recommendation counts, and recent upgrades/downgrades.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            months: { type: "number", description: `Months of recommendation trends (default: ${DEFAULT_MONTHS}, max: ${MAX_MONTHS})` },
+            days: { type: "number", description: `Look-back for rating changes in days (default: ${DEFAULT_CHANGE_DAYS})` },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const months = Math.min(Math.max(Number(args.months) || DEFAULT_MONTHS, 1), MAX_MONTHS)
+          const days = Math.min(Math.max(Number(args.days) || DEFAULT_CHANGE_DAYS, 1), MAX_CHANGE_DAYS)
+          const summary = await fetchAnalyst(market, symbol, { months, days })
+          const money = await currency.priceFormatter(symbol)
+
+          return respond(outputFormat(args), {
+            text: () => formatAnalyst(summary, days, money),
+            data: summary,
+            table: () =>
+              recordsTable(summary.recommendations.map((r) => ({ ...r, consensus: consensusOf(r)?.score ?? null }))),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,220 @@
+/**
+ * `stock_backtest` tool and route: fetches daily, weekly or monthly
+ * candles, with extra history before the range to warm up the indicators,
+ * and runs them through the rule engine in `./strategy`.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { CandleResolution } from "./models"
+import type { MarketDataProvider } from "./providers"
+import type { Currency } from "./currency"
+import { Elysia, t } from "elysia"
+import { fetchCandles, resolveRange } from "./candles"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err } from "./format"
+import { oneOf, symbolParams } from "./http"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+import { DEFAULT_CAPITAL, parseStrategy, runBacktest, strategyLookback, type BacktestResult, type Strategy, type StrategyInput } from "./strategy"
+
+const BACKTEST_RESOLUTIONS = ["D", "W", "M"] as const
+type BacktestResolution = (typeof BACKTEST_RESOLUTIONS)[number]
+
+const DEFAULT_DAYS = 5 * 365
+const TRADES_SHOWN = 20
+const MONTH_ENDS_SHOWN = 12
+
+// Calendar days per bar, for turning an indicator lookback into history to fetch
+const DAYS_PER_BAR: Record<BacktestResolution, number> = { D: 1.5, W: 7, M: 31 }
+
+const REASONS: Record<string, string> = {
+  signal: "exit rule",
+  stop_loss: "stop-loss",
+  take_profit: "take-profit",
+  end: "still open",
+}
+
+function backtestResolution(value: unknown): BacktestResolution {
+  const resolution = String(value ?? "D").toUpperCase() as BacktestResolution
+  if (!BACKTEST_RESOLUTIONS.includes(resolution)) throw new InvalidInputError(`resolution must be one of: ${BACKTEST_RESOLUTIONS.join(", ")}`)
+  return resolution
+}
+
+/** Rules as an array, or one string with rules separated by `;` (commas belong to indicator parameters). */
+function ruleList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[;\n]/) : []
+  return items.map((v) => String(v).trim()).filter(Boolean)
+}
+
+export async function fetchBacktest(
+  market: MarketDataProvider,
+  symbol: string,
+  strategy: Strategy,
+  resolution: BacktestResolution,
+  from: number,
+  to: number
+): Promise<BacktestResult> {
+  const warmup = Math.ceil(strategyLookback(strategy) * DAYS_PER_BAR[resolution]) + 10
+  const candles = await fetchCandles(market, symbol, resolution as CandleResolution, from - warmup * 86400, to)
+  if (candles.length === 0) throw new NotFoundError(`No candle data for "${symbol}" in this range.`)
+  return runBacktest(candles, strategy, from)
+}
+
+// ── Formatting ──
+
+function pct(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`
+}
+
+function formatBacktest(
+  symbol: string,
+  resolution: string,
+  strategy: Strategy,
+  r: BacktestResult,
+  money: (amount: number) => string
+): string {
+  const bars = { D: "daily", W: "weekly", M: "monthly" }[resolution] ?? resolution
+  const exits = [
+    ...strategy.exit.map((c) => c.text),
+    ...(strategy.stopLoss != null ? [`stop-loss ${strategy.stopLoss}%`] : []),
+    ...(strategy.takeProfit != null ? [`take-profit ${strategy.takeProfit}%`] : []),
+  ]
+  const lines = [
+    `${symbol} backtest ${r.from} → ${r.to} (${r.bars} ${bars} bars)`,
+    `Entry: ${strategy.entry.map((c) => c.text).join(" AND ")}`,
+    `Exit: ${exits.length ? exits.join(" OR ") : "none (held to the end)"}`,
+    `Position size: ${strategy.positionSize}% of equity${strategy.feePercent ? `, fees ${strategy.feePercent}% per side` : ""}`,
+    ``,
+  ]
+
+  const summary = (label: string, s: BacktestResult["buyAndHold"]) => {
+    const cagr = s.cagr != null ? `, CAGR ${pct(s.cagr)}` : ""
+    return `${label} ${money(r.initialCapital)} → ${money(s.finalEquity)} (${pct(s.totalReturn)})${cagr}, max drawdown ${s.maxDrawdown.percent.toFixed(1)}%`
+  }
+  lines.push(summary("Strategy:   ", r), summary("Buy & hold: ", r.buyAndHold))
+  lines.push(`${r.excessReturn >= 0 ? "Beat" : "Trailed"} buy & hold by ${Math.abs(r.excessReturn).toFixed(2)} percentage points`)
+
+  lines.push(``)
+  if (r.trades.length === 0) {
+    lines.push(`No trades: the entry rules never held together in this range.`)
+  } else {
+    lines.push(
+      `Trades: ${r.trades.length} (${r.wins} won, ${r.winRate!.toFixed(1)}% win rate), average ${pct(r.averageTradeReturn!)}, ` +
+        `in the market ${r.exposure.toFixed(0)}% of the time`
+    )
+    const shown = r.trades.slice(-TRADES_SHOWN)
+    if (shown.length < r.trades.length) lines.push(`  …${r.trades.length - shown.length} earlier trades`)
+    for (const tr of shown) {
+      lines.push(
+        `  ${tr.entryDate} → ${tr.exitDate}  ${money(tr.entryPrice)} → ${money(tr.exitPrice)}  ${pct(tr.returnPercent).padStart(8)}  ${REASONS[tr.reason]}`
+      )
+    }
+  }
+
+  // Month-end values give a compact equity curve
+  const monthEnds = r.equity.filter((p, i) => i === r.equity.length - 1 || r.equity[i + 1].date.slice(0, 7) !== p.date.slice(0, 7))
+  if (monthEnds.length > 1) {
+    lines.push(``, `Month-end equity (strategy / buy & hold):`)
+    for (const p of monthEnds.slice(-MONTH_ENDS_SHOWN)) lines.push(`  ${p.date}: ${money(p.equity)} / ${money(p.buyAndHold)}`)
+  }
+  return lines.join("\n")
+}
+
+// ── Routes ──
+
+export function backtestRoutes(market: MarketDataProvider) {
+  return new Elysia().post("/backtest/:symbol", async ({ params, body }) => {
+    const symbol = params.symbol.toUpperCase()
+    const resolution = body.resolution ?? "D"
+    const { from, to } = resolveRange(body, resolution, DEFAULT_DAYS)
+    const strategy = parseStrategy(body)
+    return { symbol, resolution, ...(await fetchBacktest(market, symbol, strategy, resolution, from, to)) }
+  }, {
+    params: symbolParams,
+    body: t.Object({
+      entry: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+      exit: t.Optional(t.Array(t.String({ minLength: 1 }))),
+      stopLoss: t.Optional(t.Number({ exclusiveMinimum: 0, maximum: 99 })),
+      takeProfit: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+      positionSize: t.Optional(t.Number({ exclusiveMinimum: 0, maximum: 100 })),
+      initialCapital: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+      feePercent: t.Optional(t.Number({ minimum: 0 })),
+      resolution: t.Optional(oneOf("resolution", BACKTEST_RESOLUTIONS)),
+      days: t.Optional(t.Number({ minimum: 1 })),
+      from: t.Optional(t.String()),
+      to: t.Optional(t.String()),
+    }),
+  })
+}
+
+// ── Tools ──
+
+export function backtestTools(market: MarketDataProvider, currency: Currency): PluginToolDefinition[] {
+  const rules = (what: string, example: string) => ({
+    type: "array",
+    items: { type: "string" },
+    description:
+      `${what}, e.g. ${example}. Each rule is "value operator value" with operators ` +
+      "crosses_above, crosses_below, >, >=, <, <=. Values are numbers, close, open, high, low, volume, " +
+      "sma(period), ema(period), rsi(period), atr(period), macd, macd_signal, macd_hist (fast,slow,signal), " +
+      "bb_upper, bb_middle, bb_lower (period,stddevs).",
+  })
+
+  return [
+    // ── Backtest ──
+    {
+      definition: {
+        name: "stock_backtest",
+        description:
+          "Backtest a simple long-only trading strategy on historical candles, e.g. buy when the 50-day SMA crosses above the 200-day. " +
+          "Signals use each bar's close and fill at the next bar's open. Reports trades, equity curve, CAGR, max drawdown, win rate " +
+          "and the result against buy-and-hold.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            entry: rules("Rules that must all hold to buy", '["sma(50) crosses_above sma(200)"] or ["rsi(14) < 30", "close > sma(200)"]'),
+            exit: rules("Rules of which any one sells", '["sma(50) crosses_below sma(200)"] or ["rsi(14) > 70"]'),
+            stop_loss: { type: "number", description: "Sell when the price falls this many percent below the entry price" },
+            take_profit: { type: "number", description: "Sell when the price rises this many percent above the entry price" },
+            position_size: { type: "number", description: "Percent of equity put into each trade (default: 100)" },
+            initial_capital: { type: "number", description: `Starting cash (default: ${DEFAULT_CAPITAL})` },
+            fee: { type: "number", description: "Commission and slippage per trade side, in percent of the traded value (default: 0)" },
+            resolution: { type: "string", enum: BACKTEST_RESOLUTIONS, description: "Bar size: D (day), W (week), M (month). Default: D" },
+            days: { type: "number", description: `Days back from \`to\` to test when \`from\` is not given (default: ${DEFAULT_DAYS})` },
+            from: { type: "string", description: "Test start: YYYY-MM-DD, ISO timestamp or unix seconds" },
+            to: { type: "string", description: "Test end, same formats as `from` (default: now)" },
+            format: formatProp,
+          },
+          required: ["symbol", "entry"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const resolution = backtestResolution(args.resolution)
+          const { from, to } = resolveRange(args, resolution, DEFAULT_DAYS)
+          const number = (v: unknown) => (v != null && v !== "" ? Number(v) : undefined)
+          const input: StrategyInput = {
+            entry: ruleList(args.entry),
+            exit: ruleList(args.exit),
+            stopLoss: number(args.stop_loss),
+            takeProfit: number(args.take_profit),
+            positionSize: number(args.position_size),
+            initialCapital: number(args.initial_capital),
+            feePercent: number(args.fee),
+          }
+          const strategy = parseStrategy(input)
+          const result = await fetchBacktest(market, symbol, strategy, resolution, from, to)
+          const money = await currency.priceFormatter(symbol)
+          return respond(outputFormat(args), {
+            text: () => formatBacktest(symbol, resolution, strategy, result, money),
+            data: { symbol, resolution, ...result },
+            table: () => recordsTable(result.trades),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,134 @@
+/**
+ * Response cache shared by all providers.
+ * Entries carry a per-endpoint TTL, are evicted least-recently-used once the
+ * in-memory map is full, and can be written through to the plugin database
+ * so a restart or hot reload doesn't burn API quota re-fetching them.
+ *
+ * Expired entries are not dropped straight away: within `swrMs` they are
+ * served immediately while a background refresh runs, and for up to
+ * `STALE_IF_ERROR_MS` they are served when the upstream call fails.
+ */
+
+import type { KeyValueStore } from "./store"
+
+export const SECOND = 1_000
+export const MINUTE = 60 * SECOND
+export const HOUR = 60 * MINUTE
+export const DAY = 24 * HOUR
+
+export interface CachePolicy {
+  ttlMs: number
+  swrMs?: number
+  persist?: boolean
+}
+
+interface CacheEntry {
+  data: unknown
+  expiry: number
+}
+
+const MAX_ENTRIES = 1_000
+const STALE_IF_ERROR_MS = 7 * DAY
+
+const cache = new Map<string, CacheEntry>()
+const refreshing = new Set<string>()
+let store: KeyValueStore | null = null
+let onStale: (key: string, error: unknown) => void = () => {}
+
+/**
+ * Persist `persist: true` entries through `options.store` (when given) and
+ * report each fallback to stale data through `options.onStale`.
+ */
+export function configureCache(options: {
+  store: KeyValueStore | null
+  onStale: (key: string, error: unknown) => void
+}): void {
+  store = options.store
+  onStale = options.onStale
+  pruneStore()
+}
+
+function pruneStore(): void {
+  if (!store) return
+  const cutoff = Date.now() - STALE_IF_ERROR_MS
+  for (const { key, value } of store.list<CacheEntry>()) {
+    if (value.expiry < cutoff) store.delete(key)
+  }
+}
+
+function touch(key: string, entry: CacheEntry): void {
+  cache.delete(key)
+  cache.set(key, entry)
+  while (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!)
+  }
+}
+
+function lookup(key: string): CacheEntry | null {
+  let entry = cache.get(key) ?? null
+  if (!entry && store) {
+    entry = store.get<CacheEntry>(key)
+  }
+  if (!entry) return null
+  if (Date.now() > entry.expiry + STALE_IF_ERROR_MS) {
+    cache.delete(key)
+    store?.delete(key)
+    return null
+  }
+  touch(key, entry)
+  return entry
+}
+
+function save(key: string, data: unknown, policy: CachePolicy): void {
+  const entry = { data, expiry: Date.now() + policy.ttlMs }
+  touch(key, entry)
+  if (policy.persist && store) store.set(key, entry)
+}
+
+/**
+ * Return the cached value for `key`, calling `fetcher` when it is missing or
+ * expired. Falls back to stale data if `fetcher` throws.
+ */
+export async function cached<T>(key: string, policy: CachePolicy, fetcher: () => Promise<T>): Promise<T> {
+  const entry = lookup(key)
+  const now = Date.now()
+  if (entry && now <= entry.expiry) return entry.data as T
+
+  if (entry && policy.swrMs && now <= entry.expiry + policy.swrMs) {
+    if (!refreshing.has(key)) {
+      refreshing.add(key)
+      fetcher()
+        .then((data) => save(key, data, policy))
+        .catch((e) => onStale(key, e))
+        .finally(() => refreshing.delete(key))
+    }
+    return entry.data as T
+  }
+
+  try {
+    const data = await fetcher()
+    save(key, data, policy)
+    return data
+  } catch (e) {
+    if (!entry) throw e
+    onStale(key, e)
+    return entry.data as T
+  }
+}
+
+export function clearCache(): void {
+  cache.clear()
+  refreshing.clear()
+  store = null
+}
+
+/**
+ * Candle ranges that ended before today are immutable and can be kept
+ * indefinitely; ranges that include the live session refresh quickly.
+ */
+export function candlePolicy(resolution: string, to: number): CachePolicy {
+  const startOfToday = new Date().setUTCHours(0, 0, 0, 0) / 1000
+  if (to < startOfToday) return { ttlMs: 365 * DAY, persist: true }
+  if (["D", "W", "M"].includes(resolution)) return { ttlMs: 15 * MINUTE, swrMs: HOUR }
+  return { ttlMs: MINUTE }
+}
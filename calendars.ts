@@ -0,0 +1,342 @@
+/**
+ * Forward-looking calendars: earnings, IPOs and economic releases, plus a
+ * symbol's earnings surprise history.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { CalendarQuery, EarningsEvent, EarningsSurprise, EconomicEvent, IpoEvent } from "./models"
+import type { MarketData } from "./providers"
+import { Elysia, t } from "elysia"
+import { parseDateArg } from "./candles"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err, formatCurrency, formatLargeNumber, ok } from "./format"
+import { oneOf, symbolParams } from "./http"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+const DAY_MS = 86400000
+const MAX_RANGE_DAYS = 365
+const DEFAULT_LIMIT = 50
+const DEFAULT_HISTORY = 8
+const MAX_HISTORY = 40
+
+const IMPACTS = ["low", "medium", "high"] as const
+type Impact = (typeof IMPACTS)[number]
+
+// Report timing sorts in session order
+const HOUR_ORDER: Record<string, number> = { bmo: 0, dmh: 1, amc: 2 }
+const HOUR_LABELS: Record<string, string> = { bmo: "before open", dmh: "during market", amc: "after close" }
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0]
+}
+
+/** Resolve `from`/`to` arguments to a date range, defaulting to `defaultDays` from today. */
+export function calendarRange(args: { from?: unknown; to?: unknown }, defaultDays: number): CalendarQuery {
+  const from = args.from ? isoDate(parseDateArg(args.from, "from") * 1000) : isoDate(Date.now())
+  const to = args.to ? isoDate(parseDateArg(args.to, "to") * 1000) : isoDate(Date.parse(from) + defaultDays * DAY_MS)
+  if (from > to) throw new InvalidInputError("`from` must not be after `to`.")
+  if (Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * DAY_MS) {
+    throw new InvalidInputError(`Calendar ranges are limited to ${MAX_RANGE_DAYS} days.`)
+  }
+  return { from, to }
+}
+
+function surprisePercent(actual: number | null, estimate: number | null): number | null {
+  if (actual == null || estimate == null || estimate === 0) return null
+  return ((actual - estimate) / Math.abs(estimate)) * 100
+}
+
+function signedPercent(n: number | null): string {
+  return n == null ? "" : ` (${n >= 0 ? "+" : ""}${n.toFixed(1)}%)`
+}
+
+function estimateLine(label: string, actual: number | null, estimate: number | null, fmt: (n: number) => string): string {
+  if (actual == null && estimate == null) return ""
+  if (actual == null) return `${label} est. ${fmt(estimate!)}`
+  if (estimate == null) return `${label} ${fmt(actual)}`
+  return `${label} ${fmt(actual)} vs ${fmt(estimate)} est.${signedPercent(surprisePercent(actual, estimate))}`
+}
+
+const eps = (n: number) => n.toFixed(2)
+const money = (n: number) => `$${formatLargeNumber(n)}`
+
+export interface EarningsRow extends EarningsEvent {
+  epsSurprisePercent: number | null
+  revenueSurprisePercent: number | null
+}
+
+export async function fetchEarningsCalendar(market: MarketData, query: CalendarQuery): Promise<EarningsRow[]> {
+  const events = await market.earningsCalendar(query)
+  return events
+    .map((e) => ({
+      ...e,
+      epsSurprisePercent: surprisePercent(e.epsActual, e.epsEstimate),
+      revenueSurprisePercent: surprisePercent(e.revenueActual, e.revenueEstimate),
+    }))
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        (HOUR_ORDER[a.hour] ?? 1) - (HOUR_ORDER[b.hour] ?? 1) ||
+        a.symbol.localeCompare(b.symbol)
+    )
+}
+
+/** Past surprises, filling in surprise % where the provider left it out. */
+export async function fetchEarningsHistory(market: MarketData, symbol: string, limit: number): Promise<EarningsSurprise[]> {
+  const history = await market.earningsHistory(symbol, limit)
+  return history.map((h) => ({ ...h, surprisePercent: h.surprisePercent ?? surprisePercent(h.actual, h.estimate) }))
+}
+
+function formatEarningsRow(e: EarningsRow): string {
+  const period = e.quarter && e.year ? ` Q${e.quarter} ${e.year}` : ""
+  const when = HOUR_LABELS[e.hour] ? `, ${HOUR_LABELS[e.hour]}` : ""
+  const parts = [
+    estimateLine("EPS", e.epsActual, e.epsEstimate, eps),
+    estimateLine("Revenue", e.revenueActual, e.revenueEstimate, money),
+  ].filter(Boolean)
+  return `  ${e.date} ${e.symbol}${period}${when}${parts.length ? ` — ${parts.join(", ")}` : ""}`
+}
+
+function formatIpo(e: IpoEvent): string {
+  const price =
+    e.priceLow == null ? "" : e.priceHigh != null && e.priceHigh !== e.priceLow
+      ? ` at $${formatCurrency(e.priceLow)}–$${formatCurrency(e.priceHigh)}`
+      : ` at $${formatCurrency(e.priceLow)}`
+  const size = e.totalValue ? `, ${money(e.totalValue)} raise` : e.shares ? `, ${formatLargeNumber(e.shares)} shares` : ""
+  const where = e.exchange ? ` on ${e.exchange}` : ""
+  return `  ${e.date} ${e.symbol || "—"} ${e.name}${where}${price}${size}${e.status ? ` [${e.status}]` : ""}`
+}
+
+function formatEconomic(e: EconomicEvent): string {
+  const unit = e.unit ? ` ${e.unit}` : ""
+  const value = (label: string, n: number | null) => (n == null ? null : `${label} ${n}${unit}`)
+  const values = [value("actual", e.actual), value("est.", e.estimate), value("prev.", e.previous)].filter(Boolean)
+  const time = new Date(e.time).toISOString().replace("T", " ").slice(0, 16)
+  return `  ${time} UTC ${e.country} ${e.event}${e.impact ? ` [${e.impact}]` : ""}${values.length ? ` — ${values.join(", ")}` : ""}`
+}
+
+function filterEconomic(events: EconomicEvent[], country?: string, impact?: Impact): EconomicEvent[] {
+  return events
+    .filter((e) => !country || e.country.toUpperCase() === country.toUpperCase())
+    .filter((e) => !impact || IMPACTS.indexOf(e.impact as Impact) >= IMPACTS.indexOf(impact))
+    .sort((a, b) => a.time.localeCompare(b.time))
+}
+
+function limitArg(value: unknown, fallback: number, max: number): number {
+  return Math.min(Math.max(Number(value) || fallback, 1), max)
+}
+
+const dateQuery = {
+  from: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD (default: today)" })),
+  to: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD" })),
+}
+
+export function calendarRoutes(market: MarketData) {
+  return new Elysia()
+    .get("/calendar/earnings", async ({ query }) => {
+      const symbol = query.symbol?.toUpperCase()
+      const range = calendarRange(query, symbol ? 90 : 7)
+      const earnings = await fetchEarningsCalendar(market, { ...range, symbol })
+      return { ...range, symbol: symbol ?? null, earnings }
+    }, {
+      query: t.Object({ ...dateQuery, symbol: t.Optional(symbolParams.properties.symbol) }),
+    })
+
+    .get("/calendar/ipo", async ({ query }) => {
+      const range = calendarRange(query, 30)
+      const ipos = (await market.ipoCalendar(range)).sort((a, b) => a.date.localeCompare(b.date))
+      return { ...range, ipos }
+    }, {
+      query: t.Object(dateQuery),
+    })
+
+    .get("/calendar/economic", async ({ query }) => {
+      const range = calendarRange(query, 7)
+      const events = filterEconomic(await market.economicCalendar(range), query.country, query.impact)
+      return { ...range, events }
+    }, {
+      query: t.Object({
+        ...dateQuery,
+        country: t.Optional(t.String({ minLength: 2, maxLength: 2, description: "ISO country code, e.g. US" })),
+        impact: t.Optional(oneOf("impact", IMPACTS)),
+      }),
+    })
+
+    .get("/earnings/:symbol", async ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase()
+      const history = await fetchEarningsHistory(market, symbol, query.limit ?? DEFAULT_HISTORY)
+      if (history.length === 0) throw new NotFoundError(`No earnings history found for "${symbol}".`)
+      return { symbol, history }
+    }, {
+      params: symbolParams,
+      query: t.Object({ limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_HISTORY })) }),
+    })
+}
+
+export function calendarTools(market: MarketData): PluginToolDefinition[] {
+  return [
+    // ── Earnings Calendar ──
+    {
+      definition: {
+        name: "stock_earnings_calendar",
+        description:
+          "Upcoming and recent earnings reports with EPS and revenue estimates, actuals and surprise %. " +
+          "Filter by date range and/or symbol.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Only this ticker (e.g. AAPL)" },
+            from: { type: "string", description: "Start date YYYY-MM-DD (default: today)" },
+            to: { type: "string", description: "End date YYYY-MM-DD (default: 7 days after from, or 90 with a symbol)" },
+            limit: { type: "number", description: `Maximum reports to list (default: ${DEFAULT_LIMIT})` },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = args.symbol ? (args.symbol as string).toUpperCase() : undefined
+          const range = calendarRange(args, symbol ? 90 : 7)
+          const earnings = await fetchEarningsCalendar(market, { ...range, symbol })
+          const format = outputFormat(args)
+
+          if (earnings.length === 0 && format === "text") {
+            return ok(`No earnings reports${symbol ? ` for ${symbol}` : ""} between ${range.from} and ${range.to}.`)
+          }
+          const shown = earnings.slice(0, limitArg(args.limit, DEFAULT_LIMIT, 1000))
+          const more = earnings.length > shown.length ? `\n  … and ${earnings.length - shown.length} more` : ""
+          return respond(format, {
+            text: () =>
+              `Earnings ${range.from} to ${range.to}${symbol ? ` for ${symbol}` : ""} (${earnings.length}):\n` +
+              shown.map(formatEarningsRow).join("\n") + more,
+            data: { ...range, symbol: symbol ?? null, earnings: shown },
+            table: recordsTable(shown),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Earnings History ──
+    {
+      definition: {
+        name: "stock_earnings_history",
+        description: "Past quarterly EPS results for a company versus analyst estimates, with surprise % and beat/miss record.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            limit: { type: "number", description: `Number of quarters (default: ${DEFAULT_HISTORY}, max: ${MAX_HISTORY})` },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const rows = await fetchEarningsHistory(market, symbol, limitArg(args.limit, DEFAULT_HISTORY, MAX_HISTORY))
+          if (rows.length === 0) return err(`No earnings history found for "${symbol}".`)
+
+          const scored = rows.filter((r) => r.actual != null && r.estimate != null)
+          const beats = scored.filter((r) => r.actual! > r.estimate!).length
+          const avgSurprise =
+            scored.length > 0 ? scored.reduce((sum, r) => sum + (r.surprisePercent ?? 0), 0) / scored.length : null
+
+          const lines = [
+            `${symbol} Earnings History`,
+            ``,
+            ...rows.map((r) => {
+              const period = r.quarter && r.year ? `Q${r.quarter} ${r.year}` : r.period
+              const verdict = r.actual == null || r.estimate == null ? "" : r.actual > r.estimate ? " beat" : r.actual < r.estimate ? " miss" : " in line"
+              return `  ${period}: ${estimateLine("EPS", r.actual, r.estimate, eps)}${verdict}`
+            }),
+          ]
+          if (scored.length > 0) {
+            const avg = avgSurprise == null ? "" : `, average surprise ${avgSurprise >= 0 ? "+" : ""}${avgSurprise.toFixed(1)}%`
+            lines.push(``, `Beat estimates in ${beats} of ${scored.length} quarters${avg}`)
+          }
+
+          return respond(outputFormat(args), {
+            text: lines.join("\n"),
+            data: { symbol, beats, quarters: scored.length, averageSurprisePercent: avgSurprise, history: rows },
+            table: recordsTable(rows),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── IPO Calendar ──
+    {
+      definition: {
+        name: "stock_ipo_calendar",
+        description: "Upcoming and recent IPOs with expected price range, share count and deal size.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            from: { type: "string", description: "Start date YYYY-MM-DD (default: today)" },
+            to: { type: "string", description: "End date YYYY-MM-DD (default: 30 days after from)" },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const range = calendarRange(args, 30)
+          const ipos = (await market.ipoCalendar(range)).sort((a, b) => a.date.localeCompare(b.date))
+          const format = outputFormat(args)
+          if (ipos.length === 0 && format === "text") return ok(`No IPOs between ${range.from} and ${range.to}.`)
+          return respond(format, {
+            text: () => `IPOs ${range.from} to ${range.to} (${ipos.length}):\n${ipos.map(formatIpo).join("\n")}`,
+            data: { ...range, ipos },
+            table: recordsTable(ipos),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Economic Calendar ──
+    {
+      definition: {
+        name: "stock_economic_calendar",
+        description: "Scheduled economic releases (CPI, payrolls, rate decisions, ...) with actual, estimate and previous values.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            from: { type: "string", description: "Start date YYYY-MM-DD (default: today)" },
+            to: { type: "string", description: "End date YYYY-MM-DD (default: 7 days after from)" },
+            country: { type: "string", description: "ISO country code, e.g. US" },
+            impact: { type: "string", enum: IMPACTS, description: "Minimum impact level" },
+            limit: { type: "number", description: `Maximum events to list (default: ${DEFAULT_LIMIT})` },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const range = calendarRange(args, 7)
+          const impact = args.impact as Impact | undefined
+          if (impact && !IMPACTS.includes(impact)) return err(`impact must be one of: ${IMPACTS.join(", ")}`)
+          const events = filterEconomic(await market.economicCalendar(range), args.country as string | undefined, impact)
+          const format = outputFormat(args)
+          if (events.length === 0 && format === "text") return ok(`No economic events between ${range.from} and ${range.to}.`)
+
+          const shown = events.slice(0, limitArg(args.limit, DEFAULT_LIMIT, 1000))
+          const more = events.length > shown.length ? `\n  … and ${events.length - shown.length} more` : ""
+          return respond(format, {
+            text: () => `Economic calendar ${range.from} to ${range.to} (${events.length}):\n${shown.map(formatEconomic).join("\n")}${more}`,
+            data: { ...range, events: shown },
+            table: recordsTable(shown),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
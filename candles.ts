@@ -0,0 +1,89 @@
+/**
+ * Candle range fetching.
+ * Resolves `from`/`to` arguments, and splits long intraday ranges into
+ * several provider requests (upstream APIs cap how much intraday history a
+ * single call returns), then merges and de-duplicates the bars.
+ */
+
+import type { Candle, CandleResolution } from "./models"
+import type { MarketDataProvider } from "./providers"
+import { InvalidInputError } from "./errors"
+
+const DAY_SECONDS = 86400
+
+/** Max days of intraday data requested per upstream call. */
+const INTRADAY_CHUNK_DAYS: Record<string, number> = { "1": 7, "5": 30, "15": 30, "30": 30, "60": 30 }
+
+export const MAX_INTRADAY_DAYS = 365
+export const MAX_HISTORY_DAYS = 30 * 365
+
+export function isIntraday(resolution: string): boolean {
+  return resolution in INTRADAY_CHUNK_DAYS
+}
+
+/**
+ * Parse a date argument: YYYY-MM-DD, an ISO timestamp, or unix seconds.
+ * Date-only values resolve to the start of the day, or its end when `endOfDay`.
+ */
+export function parseDateArg(value: unknown, name: string, endOfDay = false): number {
+  if (typeof value === "number" || /^\d{9,11}$/.test(String(value))) return Math.floor(Number(value))
+  const s = String(value).trim()
+  const ms = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(s) ? `${s}T00:00:00Z` : s)
+  if (isNaN(ms)) throw new InvalidInputError(`Invalid ${name} "${s}". Use YYYY-MM-DD.`)
+  const seconds = Math.floor(ms / 1000)
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(s) ? seconds + DAY_SECONDS - 1 : seconds
+}
+
+export interface CandleRange {
+  from: number
+  to: number
+}
+
+/**
+ * Work out the requested range from `from`/`to`/`days` arguments.
+ * Without `from`, the range is `days` (default `defaultDays`) back from `to`.
+ */
+export function resolveRange(
+  args: { from?: unknown; to?: unknown; days?: unknown },
+  resolution: string,
+  defaultDays = 30
+): CandleRange {
+  const to = args.to != null && args.to !== "" ? parseDateArg(args.to, "to", true) : Math.floor(Date.now() / 1000)
+  const from =
+    args.from != null && args.from !== ""
+      ? parseDateArg(args.from, "from")
+      : to - Math.max(Number(args.days) || defaultDays, 1) * DAY_SECONDS
+  if (from >= to) throw new InvalidInputError("`from` must be before `to`.")
+
+  const maxDays = isIntraday(resolution) ? MAX_INTRADAY_DAYS : MAX_HISTORY_DAYS
+  if (to - from > maxDays * DAY_SECONDS) {
+    throw new InvalidInputError(
+      `Range too long for resolution ${resolution}: at most ${maxDays} days${isIntraday(resolution) ? " of intraday data" : ""}.`
+    )
+  }
+  return { from, to }
+}
+
+/** Fetch `[from, to]`, chunking intraday ranges and merging the results in time order. */
+export async function fetchCandles(
+  market: MarketDataProvider,
+  symbol: string,
+  resolution: CandleResolution,
+  from: number,
+  to: number
+): Promise<Candle[]> {
+  const chunkDays = INTRADAY_CHUNK_DAYS[resolution]
+  if (!chunkDays || to - from <= chunkDays * DAY_SECONDS) {
+    return market.candles(symbol, resolution, from, to)
+  }
+
+  // Sequential on purpose: chunks share the rate limit with everything else
+  const byTime = new Map<number, Candle>()
+  for (let start = from; start <= to; start += chunkDays * DAY_SECONDS) {
+    const end = Math.min(start + chunkDays * DAY_SECONDS - 1, to)
+    for (const candle of await market.candles(symbol, resolution, start, end)) {
+      byTime.set(candle.time, candle)
+    }
+  }
+  return [...byTime.values()].sort((a, b) => a.time - b.time)
+}
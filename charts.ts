@@ -0,0 +1,396 @@
+/**
+ * Chart routes and tools: `/chart/AAPL.svg` price charts with indicator
+ * overlays and volume, and `/chart/compare.svg` normalized performance.
+ * Tools hand back the route URL or the SVG itself for clients that can't
+ * fetch from the plugin.
+ */
+
+import type { PluginContext, PluginToolDefinition } from "./types"
+import type { Candle, CandleResolution } from "./models"
+import type { MarketDataProvider } from "./providers"
+import { Elysia, t } from "elysia"
+import { fetchCandles, isIntraday, MAX_HISTORY_DAYS, resolveRange } from "./candles"
+import { fetchComparison, parseCompareSymbols } from "./compare"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err } from "./format"
+import { oneOf, resolutionSchema, symbolParams } from "./http"
+import { bollinger, ema, sma, vwap } from "./indicators"
+import { listArg } from "./news"
+import { formatProp, outputFormat, respond } from "./output"
+import {
+  CHART_THEMES,
+  DEFAULT_HEIGHT,
+  DEFAULT_WIDTH,
+  performanceChart,
+  PRICE_CHART_TYPES,
+  priceChart,
+  type ChartBand,
+  type ChartLine,
+  type ChartTheme,
+  type PriceChartType,
+} from "./svg"
+
+const DEFAULT_DAYS = 90
+const DEFAULT_COMPARE_DAYS = 365
+const MAX_OVERLAYS = 5
+const MIN_WIDTH = 320
+const MAX_WIDTH = 2000
+const MIN_HEIGHT = 200
+const MAX_HEIGHT = 1200
+const BOLLINGER_PERIOD = 20
+const BOLLINGER_STDDEV = 2
+
+const OVERLAY_PATTERN = /^(sma|ema)(\d{1,3})$/
+const CHART_OUTPUTS = ["url", "svg"] as const
+type ChartOutput = (typeof CHART_OUTPUTS)[number]
+
+const RESOLUTION_NAMES: Record<string, string> = { D: "daily", W: "weekly", M: "monthly" }
+
+// Calendar days per bar, for fetching enough history to start overlays at the left edge
+const DAYS_PER_BAR: Record<string, number> = { D: 1.5, W: 7, M: 31 }
+
+export interface ChartSize {
+  width: number
+  height: number
+  theme: ChartTheme
+}
+
+export interface PriceChartRequest extends ChartSize {
+  symbol: string
+  resolution: CandleResolution
+  from: number
+  to: number
+  type: PriceChartType
+  overlays: string[]
+  volume: boolean
+}
+
+export interface RenderedChart {
+  svg: string
+  from: string
+  to: string
+  points: number
+}
+
+/** Overlay names like `sma50`, `ema20`, `bollinger` (or `bb`) and `vwap`. */
+export function parseOverlays(value: unknown): string[] {
+  const names = [...new Set(listArg(value).map((s) => s.toLowerCase().replace(/[\s_-]/g, "")))].map((s) => (s === "bb" ? "bollinger" : s))
+  for (const name of names) {
+    const match = name.match(OVERLAY_PATTERN)
+    if (name !== "bollinger" && name !== "vwap" && !(match && Number(match[2]) > 0)) {
+      throw new InvalidInputError(`Unknown overlay "${name}". Use smaN, emaN (e.g. sma50, ema20), bollinger or vwap.`)
+    }
+  }
+  if (names.length > MAX_OVERLAYS) throw new InvalidInputError(`At most ${MAX_OVERLAYS} overlays.`)
+  return names
+}
+
+function overlayLookback(overlays: string[]): number {
+  return Math.max(0, ...overlays.map((o) => (o === "bollinger" ? BOLLINGER_PERIOD : Number(o.match(OVERLAY_PATTERN)?.[2] ?? 0))))
+}
+
+function warmupSeconds(resolution: CandleResolution, bars: number): number {
+  if (bars === 0) return 0
+  // Intraday: 390 trading minutes a day, and 7 calendar days for every 5 trading days
+  const days = isIntraday(resolution) ? ((bars * Number(resolution)) / 390) * (7 / 5) : bars * DAYS_PER_BAR[resolution]
+  return Math.ceil(days + 3) * 86400
+}
+
+function overlaySeries(candles: Candle[], overlays: string[], resolution: CandleResolution): { lines: ChartLine[]; bands: ChartBand[] } {
+  const closes = candles.map((c) => c.close)
+  const lines: ChartLine[] = []
+  const bands: ChartBand[] = []
+  for (const name of overlays) {
+    const match = name.match(OVERLAY_PATTERN)
+    if (match) {
+      const period = Number(match[2])
+      lines.push({ label: `${match[1].toUpperCase()} ${period}`, values: match[1] === "sma" ? sma(closes, period) : ema(closes, period) })
+    } else if (name === "vwap") {
+      lines.push({ label: "VWAP", values: vwap(candles, isIntraday(resolution) ? "session" : "series"), dashed: true })
+    } else {
+      const bb = bollinger(closes, BOLLINGER_PERIOD, BOLLINGER_STDDEV)
+      bands.push({ label: `Bollinger ${BOLLINGER_PERIOD}, ${BOLLINGER_STDDEV}`, upper: bb.upper, lower: bb.lower })
+    }
+  }
+  return { lines, bands }
+}
+
+function dateOf(time: number): string {
+  return new Date(time * 1000).toISOString().slice(0, 10)
+}
+
+function sizeArgs(args: { width?: unknown; height?: unknown; theme?: unknown }): ChartSize {
+  const theme = String(args.theme ?? "light").toLowerCase() as ChartTheme
+  if (!CHART_THEMES.includes(theme)) throw new InvalidInputError(`theme must be one of: ${CHART_THEMES.join(", ")}`)
+  return {
+    width: Math.min(Math.max(Math.round(Number(args.width) || DEFAULT_WIDTH), MIN_WIDTH), MAX_WIDTH),
+    height: Math.min(Math.max(Math.round(Number(args.height) || DEFAULT_HEIGHT), MIN_HEIGHT), MAX_HEIGHT),
+    theme,
+  }
+}
+
+export async function renderPriceChart(market: MarketDataProvider, req: PriceChartRequest): Promise<RenderedChart> {
+  const start = req.from - warmupSeconds(req.resolution, overlayLookback(req.overlays))
+  const all = await fetchCandles(market, req.symbol, req.resolution, start, req.to)
+  const first = all.findIndex((c) => c.time >= req.from)
+  if (first < 0) throw new NotFoundError(`No candle data for "${req.symbol}" with resolution ${req.resolution}.`)
+
+  // Overlays run over the warm-up bars too, then everything is cut to the range
+  const { lines, bands } = overlaySeries(all, req.overlays, req.resolution)
+  const candles = all.slice(first)
+  const last = candles[candles.length - 1]
+  const change = ((last.close - candles[0].open) / candles[0].open) * 100
+  const name = RESOLUTION_NAMES[req.resolution] ?? `${req.resolution}-minute`
+  const svg = priceChart(candles, {
+    title: req.symbol,
+    subtitle: `${name} · ${dateOf(candles[0].time)} → ${dateOf(last.time)} · ${last.close.toFixed(2)} (${change >= 0 ? "+" : ""}${change.toFixed(2)}%)`,
+    width: req.width,
+    height: req.height,
+    theme: req.theme,
+    type: req.type,
+    volume: req.volume,
+    overlays: lines.map((l) => ({ ...l, values: l.values.slice(first) })),
+    bands: bands.map((b) => ({ ...b, upper: b.upper.slice(first), lower: b.lower.slice(first) })),
+  })
+  return { svg, from: dateOf(candles[0].time), to: dateOf(last.time), points: candles.length }
+}
+
+export async function renderPerformanceChart(
+  market: MarketDataProvider,
+  symbols: string[],
+  options: ChartSize & { benchmark?: string; from: number; to: number }
+): Promise<RenderedChart> {
+  const c = await fetchComparison(market, symbols, options)
+  const names = c.correlation.symbols
+  const svg = performanceChart(
+    c.rebased.map((p) => Date.parse(p.date) / 1000),
+    names.map((s) => ({ label: s, values: c.rebased.map((p) => p.values[s]), dashed: s === c.benchmark && !symbols.includes(s) })),
+    {
+      title: `Performance: ${c.symbols.join(", ")}`,
+      subtitle: `${c.from} → ${c.to}${c.benchmark ? ` · vs ${c.benchmark}` : ""}`,
+      width: options.width,
+      height: options.height,
+      theme: options.theme,
+    }
+  )
+  return { svg, from: c.from, to: c.to, points: c.rebased.length }
+}
+
+/** Route URL for a chart under `base`, with only the parameters that were given. */
+function chartUrl(base: string, path: string, params: Record<string, unknown>): string {
+  const qs = Object.entries(params)
+    .filter(([, value]) => value != null && value !== "")
+    // Commas stay readable in symbol and overlay lists
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value)).replace(/%2C/gi, ",")}`)
+    .join("&")
+  return `${base}${path}${qs ? `?${qs}` : ""}`
+}
+
+function svgResponse(svg: string): Response {
+  return new Response(svg, { headers: { "content-type": "image/svg+xml; charset=utf-8" } })
+}
+
+// ── Routes ──
+
+const sizeQuery = {
+  theme: t.Optional(oneOf("theme", CHART_THEMES)),
+  width: t.Optional(t.Numeric({ minimum: MIN_WIDTH, maximum: MAX_WIDTH })),
+  height: t.Optional(t.Numeric({ minimum: MIN_HEIGHT, maximum: MAX_HEIGHT })),
+}
+
+const rangeQuery = {
+  days: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_HISTORY_DAYS })),
+  from: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD, ISO timestamp or unix seconds" })),
+  to: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD, ISO timestamp or unix seconds" })),
+}
+
+export function chartRoutes(market: MarketDataProvider) {
+  return new Elysia()
+    .get("/chart/compare.svg", async ({ query }) => {
+      const { from, to } = resolveRange(query, "D", DEFAULT_COMPARE_DAYS)
+      const chart = await renderPerformanceChart(market, parseCompareSymbols(query.symbols), {
+        ...sizeArgs(query),
+        benchmark: query.benchmark,
+        from,
+        to,
+      })
+      return svgResponse(chart.svg)
+    }, {
+      query: t.Object({
+        symbols: t.String({ minLength: 1, description: "Comma-separated symbols" }),
+        benchmark: t.Optional(t.String({ minLength: 1, maxLength: 32 })),
+        ...rangeQuery,
+        ...sizeQuery,
+      }),
+    })
+
+    // `.svg` is optional: `/chart/AAPL` and `/chart/AAPL.svg` are the same image
+    .get("/chart/:symbol", async ({ params, query }) => {
+      const symbol = params.symbol.replace(/\.svg$/i, "").toUpperCase()
+      const resolution = (query.resolution ?? "D") as CandleResolution
+      const chart = await renderPriceChart(market, {
+        symbol,
+        resolution,
+        ...resolveRange(query, resolution, DEFAULT_DAYS),
+        ...sizeArgs(query),
+        type: query.type ?? "candle",
+        overlays: parseOverlays(query.overlay),
+        volume: query.volume !== false,
+      })
+      return svgResponse(chart.svg)
+    }, {
+      params: symbolParams,
+      query: t.Object({
+        resolution: t.Optional(resolutionSchema),
+        ...rangeQuery,
+        type: t.Optional(oneOf("type", PRICE_CHART_TYPES)),
+        overlay: t.Optional(t.String({ description: "Comma-separated overlays: smaN, emaN, bollinger, vwap" })),
+        volume: t.Optional(t.BooleanString()),
+        ...sizeQuery,
+      }),
+    })
+}
+
+// ── Tools ──
+
+function chartOutput(value: unknown): ChartOutput {
+  const output = String(value ?? "url").toLowerCase() as ChartOutput
+  if (!CHART_OUTPUTS.includes(output)) throw new InvalidInputError(`output must be one of: ${CHART_OUTPUTS.join(", ")}`)
+  return output
+}
+
+export function chartTools(ctx: PluginContext, market: MarketDataProvider): PluginToolDefinition[] {
+  // Where the host mounts this plugin's routes
+  const routeBase = `/px/${ctx.pluginName}`
+  const sizeProps = {
+    theme: { type: "string", enum: CHART_THEMES, description: "Color theme (default: light)" },
+    width: { type: "number", description: `Image width in pixels (default: ${DEFAULT_WIDTH})` },
+    height: { type: "number", description: `Image height in pixels (default: ${DEFAULT_HEIGHT})` },
+    output: {
+      type: "string",
+      enum: CHART_OUTPUTS,
+      description: "url (default): a link to the chart image on this server; svg: the SVG markup itself",
+    },
+  }
+
+  return [
+    // ── Price Chart ──
+    {
+      definition: {
+        name: "stock_chart",
+        description:
+          "Draw a candlestick or line price chart as an SVG image, with volume bars and optional overlays " +
+          "(moving averages, Bollinger Bands, VWAP). Returns the image URL or the SVG itself.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL) or EXCHANGE:PAIR" },
+            resolution: {
+              type: "string",
+              description: "Candle resolution: 1, 5, 15, 30, 60 (minutes), D (day), W (week), M (month). Default: D",
+              enum: ["1", "5", "15", "30", "60", "D", "W", "M"],
+            },
+            days: { type: "number", description: `Days back from \`to\` when \`from\` is not given (default: ${DEFAULT_DAYS})` },
+            from: { type: "string", description: "Range start: YYYY-MM-DD, ISO timestamp or unix seconds" },
+            to: { type: "string", description: "Range end, same formats as `from` (default: now)" },
+            type: { type: "string", enum: PRICE_CHART_TYPES, description: "candle (default) or line" },
+            overlays: {
+              type: "array",
+              items: { type: "string" },
+              description: `Up to ${MAX_OVERLAYS} of: smaN or emaN (e.g. sma50, ema20), bollinger, vwap`,
+            },
+            volume: { type: "boolean", description: "Show volume bars (default: true)" },
+            ...sizeProps,
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const resolution = ((args.resolution as string) || "D") as CandleResolution
+          const range = resolveRange(args, resolution, DEFAULT_DAYS)
+          const size = sizeArgs(args)
+          const type = String(args.type ?? "candle").toLowerCase() as PriceChartType
+          if (!PRICE_CHART_TYPES.includes(type)) return err(`type must be one of: ${PRICE_CHART_TYPES.join(", ")}`)
+          const overlays = parseOverlays(args.overlays)
+          const volume = args.volume !== false
+          const output = chartOutput(args.output)
+
+          const chart = await renderPriceChart(market, { symbol, resolution, ...range, ...size, type, overlays, volume })
+          const url = chartUrl(routeBase, `/chart/${encodeURIComponent(symbol)}.svg`, {
+            resolution: resolution !== "D" ? resolution : undefined,
+            days: args.days,
+            from: args.from,
+            to: args.to,
+            type: type !== "candle" ? type : undefined,
+            overlay: overlays.join(","),
+            volume: volume ? undefined : false,
+            theme: size.theme !== "light" ? size.theme : undefined,
+            width: args.width != null ? size.width : undefined,
+            height: args.height != null ? size.height : undefined,
+          })
+          const summary = `${symbol} ${type} chart, ${chart.from} → ${chart.to} (${chart.points} bars)`
+          return respond(outputFormat(args), {
+            text: output === "svg" ? chart.svg : `${summary}: ${url}`,
+            data: { symbol, url, from: chart.from, to: chart.to, bars: chart.points, ...(output === "svg" ? { svg: chart.svg } : {}) },
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Performance Chart ──
+    {
+      definition: {
+        name: "stock_performance_chart",
+        description:
+          "Draw several symbols' normalized performance (percent change from the start) on one SVG chart, with a benchmark for reference. " +
+          "Returns the image URL or the SVG itself.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbols: { type: "array", items: { type: "string" }, description: 'Symbols to chart (e.g. ["AAPL", "MSFT", "GOOGL"])' },
+            benchmark: { type: "string", description: "Benchmark drawn dashed (default: SPY)" },
+            days: { type: "number", description: `Days back from \`to\` when \`from\` is not given (default: ${DEFAULT_COMPARE_DAYS})` },
+            from: { type: "string", description: "Range start: YYYY-MM-DD, ISO timestamp or unix seconds" },
+            to: { type: "string", description: "Range end, same formats as `from` (default: now)" },
+            ...sizeProps,
+            format: formatProp,
+          },
+          required: ["symbols"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbols = parseCompareSymbols(args.symbols)
+          const range = resolveRange(args, "D", DEFAULT_COMPARE_DAYS)
+          const size = sizeArgs(args)
+          const output = chartOutput(args.output)
+          const benchmark = args.benchmark ? String(args.benchmark).toUpperCase() : undefined
+
+          const chart = await renderPerformanceChart(market, symbols, { ...size, benchmark, ...range })
+          const url = chartUrl(routeBase, "/chart/compare.svg", {
+            symbols: symbols.join(","),
+            benchmark,
+            days: args.days,
+            from: args.from,
+            to: args.to,
+            theme: size.theme !== "light" ? size.theme : undefined,
+            width: args.width != null ? size.width : undefined,
+            height: args.height != null ? size.height : undefined,
+          })
+          const summary = `Performance chart for ${symbols.join(", ")}, ${chart.from} → ${chart.to}`
+          return respond(outputFormat(args), {
+            text: output === "svg" ? chart.svg : `${summary}: ${url}`,
+            data: { symbols, url, from: chart.from, to: chart.to, days: chart.points, ...(output === "svg" ? { svg: chart.svg } : {}) },
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,323 @@
+/**
+ * Multi-symbol comparison from daily candles: closes aligned on the days
+ * every series traded, rebased performance, annualized volatility, max
+ * drawdown, Sharpe ratio, a correlation matrix of daily returns, and beta
+ * against a benchmark.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { MarketDataProvider } from "./providers"
+import { Elysia, t } from "elysia"
+import { fetchCandles, resolveRange } from "./candles"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err } from "./format"
+import { listArg } from "./news"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+const MAX_COMPARE_SYMBOLS = 10
+const DEFAULT_BENCHMARK = "SPY"
+const DEFAULT_DAYS = 365
+const MAX_RISK_FREE = 20
+const MIN_ALIGNED_DAYS = 3
+const MONTH_ENDS_SHOWN = 12
+
+export interface DrawdownStats {
+  percent: number // negative, or 0 when the series never fell
+  peak: string | null
+  trough: string | null
+}
+
+export interface SeriesStats {
+  symbol: string
+  benchmark: boolean
+  startPrice: number
+  endPrice: number
+  totalReturn: number // percent
+  annualizedReturn: number | null // percent, only for periods of a year or more
+  volatility: number // annualized standard deviation of daily returns, percent
+  maxDrawdown: DrawdownStats
+  sharpe: number | null
+  beta: number | null // vs the benchmark
+}
+
+export interface RebasedPoint {
+  date: string
+  values: Record<string, number> // 100 = first aligned close
+}
+
+export interface Comparison {
+  symbols: string[]
+  benchmark: string | null
+  from: string
+  to: string
+  /** Days every series has a close for; the statistics use only these. */
+  alignedDays: number
+  /** Observed trading days per year, used to annualize. */
+  periodsPerYear: number
+  riskFreeRate: number // annual, percent
+  stats: SeriesStats[]
+  correlation: { symbols: string[]; matrix: number[][] }
+  rebased: RebasedPoint[]
+  unavailable: Record<string, string>
+}
+
+export interface CompareOptions {
+  benchmark?: string
+  from: number
+  to: number
+  riskFreeRate?: number
+}
+
+export function parseCompareSymbols(value: unknown): string[] {
+  const symbols = [...new Set(listArg(value).map((s) => s.toUpperCase()))]
+  if (symbols.length === 0) throw new InvalidInputError("Give at least one symbol to compare.")
+  if (symbols.length > MAX_COMPARE_SYMBOLS) throw new InvalidInputError(`At most ${MAX_COMPARE_SYMBOLS} symbols at once.`)
+  return symbols
+}
+
+function riskFreeArg(value: unknown): number {
+  return Math.min(Math.max(Number(value) || 0, 0), MAX_RISK_FREE)
+}
+
+// ── Statistics ──
+
+function mean(values: number[]): number {
+  return values.reduce((acc, v) => acc + v, 0) / values.length
+}
+
+function covariance(a: number[], b: number[]): number {
+  const ma = mean(a)
+  const mb = mean(b)
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += (a[i] - ma) * (b[i] - mb)
+  return sum / (a.length - 1)
+}
+
+function correlation(a: number[], b: number[]): number {
+  const denominator = Math.sqrt(covariance(a, a) * covariance(b, b))
+  return denominator ? covariance(a, b) / denominator : 0
+}
+
+function dailyReturns(closes: number[]): number[] {
+  return closes.slice(1).map((c, i) => c / closes[i] - 1)
+}
+
+function maxDrawdown(dates: string[], closes: number[]): DrawdownStats {
+  let peak = 0
+  const worst: DrawdownStats = { percent: 0, peak: null, trough: null }
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i] > closes[peak]) peak = i
+    const drawdown = (closes[i] / closes[peak] - 1) * 100
+    if (drawdown < worst.percent) {
+      worst.percent = drawdown
+      worst.peak = dates[peak]
+      worst.trough = dates[i]
+    }
+  }
+  return worst
+}
+
+/**
+ * Compare `symbols` over `[from, to]` on the days all of them, and the
+ * benchmark, have a daily close. Symbols without data are listed under
+ * `unavailable`; a benchmark without data leaves beta empty.
+ */
+export async function fetchComparison(market: MarketDataProvider, symbols: string[], options: CompareOptions): Promise<Comparison> {
+  const benchmark = (options.benchmark || DEFAULT_BENCHMARK).toUpperCase()
+  const riskFreeRate = options.riskFreeRate ?? 0
+  const all = symbols.includes(benchmark) ? symbols : [...symbols, benchmark]
+
+  const results = await Promise.allSettled(all.map((symbol) => fetchCandles(market, symbol, "D", options.from, options.to)))
+  const closes = new Map<string, Map<string, number>>()
+  const unavailable: Record<string, string> = {}
+  results.forEach((result, i) => {
+    if (result.status === "rejected") {
+      unavailable[all[i]] = result.reason instanceof Error ? result.reason.message : String(result.reason)
+    } else if (result.value.length === 0) {
+      unavailable[all[i]] = "No daily prices in this range"
+    } else {
+      closes.set(all[i], new Map(result.value.map((c) => [new Date(c.time * 1000).toISOString().slice(0, 10), c.close])))
+    }
+  })
+
+  const included = all.filter((s) => closes.has(s))
+  if (!symbols.some((s) => closes.has(s))) {
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected")
+    if (failed) throw failed.reason
+    throw new NotFoundError(`No daily prices found for ${symbols.join(", ")} in this range.`)
+  }
+
+  // Only days every series traded: stocks on different exchanges, or stocks
+  // alongside crypto, lose the days one of them was closed
+  const dates = [...closes.get(included[0])!.keys()].filter((d) => included.every((s) => closes.get(s)!.has(d))).sort()
+  if (dates.length < MIN_ALIGNED_DAYS) {
+    throw new NotFoundError(`Only ${dates.length} trading day(s) common to ${included.join(", ")} in this range. Try a longer range.`)
+  }
+
+  const aligned = new Map(included.map((s) => [s, dates.map((d) => closes.get(s)!.get(d)!)]))
+  const returns = new Map(included.map((s) => [s, dailyReturns(aligned.get(s)!)]))
+  const spanDays = (Date.parse(dates[dates.length - 1]) - Date.parse(dates[0])) / 86400000
+  const periodsPerYear = spanDays > 0 ? Math.round((dates.length - 1) / (spanDays / 365.25)) : 252
+  const benchmarkReturns = returns.get(benchmark) ?? null
+
+  const stats = included.map((symbol): SeriesStats => {
+    const prices = aligned.get(symbol)!
+    const r = returns.get(symbol)!
+    const growth = prices[prices.length - 1] / prices[0]
+    const deviation = Math.sqrt(covariance(r, r))
+    const volatility = deviation * Math.sqrt(periodsPerYear) * 100
+    const excess = mean(r) * periodsPerYear * 100 - riskFreeRate
+    const benchmarkVariance = benchmarkReturns ? covariance(benchmarkReturns, benchmarkReturns) : 0
+    return {
+      symbol,
+      benchmark: symbol === benchmark,
+      startPrice: prices[0],
+      endPrice: prices[prices.length - 1],
+      totalReturn: (growth - 1) * 100,
+      annualizedReturn: spanDays >= 365 ? (growth ** (365 / spanDays) - 1) * 100 : null,
+      volatility,
+      maxDrawdown: maxDrawdown(dates, prices),
+      sharpe: volatility ? excess / volatility : null,
+      beta: benchmarkReturns && benchmarkVariance ? covariance(r, benchmarkReturns) / benchmarkVariance : null,
+    }
+  })
+
+  const matrix = included.map((a) => included.map((b) => (a === b ? 1 : correlation(returns.get(a)!, returns.get(b)!))))
+  const rebased = dates.map((date, i): RebasedPoint => ({
+    date,
+    values: Object.fromEntries(included.map((s) => [s, (aligned.get(s)![i] / aligned.get(s)![0]) * 100])),
+  }))
+
+  return {
+    symbols: symbols.filter((s) => closes.has(s)),
+    benchmark: closes.has(benchmark) ? benchmark : null,
+    from: dates[0],
+    to: dates[dates.length - 1],
+    alignedDays: dates.length,
+    periodsPerYear,
+    riskFreeRate,
+    stats,
+    correlation: { symbols: included, matrix },
+    rebased,
+    unavailable,
+  }
+}
+
+// ── Formatting ──
+
+function pct(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`
+}
+
+function formatComparison(c: Comparison): string {
+  const versus = c.benchmark ? `, vs ${c.benchmark}` : ""
+  const lines = [`Comparison ${c.from} → ${c.to} (${c.alignedDays} trading days${versus})`, ``]
+
+  const width = Math.max(...c.stats.map((s) => s.symbol.length), 6)
+  for (const s of c.stats) {
+    const parts = [`return ${pct(s.totalReturn)}`]
+    if (s.annualizedReturn != null) parts.push(`annualized ${pct(s.annualizedReturn)}`)
+    parts.push(`volatility ${s.volatility.toFixed(1)}%`)
+    const dd = s.maxDrawdown
+    parts.push(`max drawdown ${dd.percent.toFixed(1)}%${dd.peak ? ` (${dd.peak} → ${dd.trough})` : ""}`)
+    if (s.sharpe != null) parts.push(`Sharpe ${s.sharpe.toFixed(2)}`)
+    if (s.beta != null && !s.benchmark) parts.push(`beta ${s.beta.toFixed(2)}`)
+    lines.push(`${s.symbol.padEnd(width)}${s.benchmark ? "*" : " "} ${parts.join(" | ")}`)
+  }
+  if (c.benchmark) lines.push(`* benchmark`)
+  if (c.riskFreeRate) lines.push(`Sharpe uses a ${c.riskFreeRate}% risk-free rate.`)
+
+  const names = c.correlation.symbols
+  if (names.length > 1) {
+    const cell = Math.max(width, 6)
+    lines.push(``, `Correlation of daily returns:`, `  ${"".padEnd(width)} ${names.map((n) => n.padStart(cell)).join(" ")}`)
+    names.forEach((name, i) => {
+      lines.push(`  ${name.padEnd(width)} ${c.correlation.matrix[i].map((v) => v.toFixed(2).padStart(cell)).join(" ")}`)
+    })
+  }
+
+  // Month-end values give a compact view of the rebased series
+  const monthEnds = c.rebased.filter((p, i) => i === c.rebased.length - 1 || c.rebased[i + 1].date.slice(0, 7) !== p.date.slice(0, 7))
+  if (monthEnds.length > 1) {
+    lines.push(``, `Rebased to 100 at ${c.from}:`)
+    for (const p of monthEnds.slice(-MONTH_ENDS_SHOWN)) {
+      lines.push(`  ${p.date}: ${names.map((n) => `${n} ${p.values[n].toFixed(1)}`).join(", ")}`)
+    }
+  }
+
+  const missing = Object.entries(c.unavailable)
+  if (missing.length > 0) lines.push(``, `Unavailable:`, ...missing.map(([symbol, why]) => `  ${symbol}: ${why}`))
+  return lines.join("\n")
+}
+
+// ── Routes ──
+
+export function compareRoutes(market: MarketDataProvider) {
+  return new Elysia().get("/compare", ({ query }) => {
+    const range = resolveRange(query, "D", DEFAULT_DAYS)
+    return fetchComparison(market, parseCompareSymbols(query.symbols), {
+      benchmark: query.benchmark,
+      ...range,
+      riskFreeRate: riskFreeArg(query.risk_free),
+    })
+  }, {
+    query: t.Object({
+      symbols: t.String({ minLength: 1, description: "Comma-separated symbols" }),
+      benchmark: t.Optional(t.String({ minLength: 1, maxLength: 32 })),
+      days: t.Optional(t.Numeric({ minimum: 1 })),
+      from: t.Optional(t.String()),
+      to: t.Optional(t.String()),
+      risk_free: t.Optional(t.Numeric({ minimum: 0, maximum: MAX_RISK_FREE })),
+    }),
+  })
+}
+
+// ── Tools ──
+
+export function compareTools(market: MarketDataProvider): PluginToolDefinition[] {
+  return [
+    // ── Compare ──
+    {
+      definition: {
+        name: "stock_compare",
+        description:
+          "Compare several stocks (e.g. a company and its stock_peers) over the same period from daily prices: " +
+          "rebased performance, annualized volatility, max drawdown, Sharpe ratio, correlation of daily returns, and beta against a benchmark.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbols: {
+              type: "array",
+              items: { type: "string" },
+              description: `Symbols to compare, up to ${MAX_COMPARE_SYMBOLS} (e.g. ["AAPL", "MSFT", "GOOGL"])`,
+            },
+            benchmark: { type: "string", description: `Benchmark for beta and correlation (default: ${DEFAULT_BENCHMARK})` },
+            days: { type: "number", description: `Number of days back from \`to\` when \`from\` is not given (default: ${DEFAULT_DAYS})` },
+            from: { type: "string", description: "Range start: YYYY-MM-DD, ISO timestamp or unix seconds" },
+            to: { type: "string", description: "Range end, same formats as `from` (default: now)" },
+            risk_free: { type: "number", description: "Annual risk-free rate in percent for the Sharpe ratio (default: 0)" },
+            format: formatProp,
+          },
+          required: ["symbols"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const range = resolveRange(args, "D", DEFAULT_DAYS)
+          const result = await fetchComparison(market, parseCompareSymbols(args.symbols), {
+            benchmark: args.benchmark as string | undefined,
+            ...range,
+            riskFreeRate: riskFreeArg(args.risk_free),
+          })
+          return respond(outputFormat(args), {
+            text: () => formatComparison(result),
+            data: result,
+            table: () => recordsTable(result.stats),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
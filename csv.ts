@@ -0,0 +1,57 @@
+/**
+ * Minimal RFC 4180 CSV parsing and writing (quoted fields, escaped quotes, CRLF).
+ */
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ",") {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ""))
+}
+
+function csvField(value: unknown): string {
+  if (value == null) return ""
+  const s = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function toCsvRow(values: unknown[]): string {
+  return values.map(csvField).join(",")
+}
+
+export function toCsv(columns: string[], rows: unknown[][]): string {
+  return [columns, ...rows].map(toCsvRow).join("\n")
+}
@@ -0,0 +1,256 @@
+/**
+ * Currencies: locale-aware money formatting, FX conversion through the
+ * provider chain, and the `stock_fx` tool and `/fx` route.
+ * The `displayCurrency` and `locale` settings set the defaults for tools
+ * that show prices; a `currency` argument overrides the display currency.
+ */
+
+import type { PluginContext, PluginToolDefinition } from "./types"
+import type { FxRate } from "./models"
+import type { MarketData } from "./providers"
+import { Elysia, t } from "elysia"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err } from "./format"
+import { parseInstrument, pricingCurrency } from "./instruments"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+export const DEFAULT_LOCALE = "en-US"
+export const DEFAULT_CURRENCY = "USD"
+const MAX_FX_TARGETS = 20
+
+// Exchange suffixes (`SAP.DE`, `7203.T`) and the currency their listings trade in
+const SUFFIX_CURRENCIES: Record<string, string> = {
+  TO: "CAD", V: "CAD", NE: "CAD", CN: "CAD",
+  DE: "EUR", F: "EUR", PA: "EUR", AS: "EUR", MI: "EUR", MC: "EUR", BR: "EUR", LS: "EUR", VI: "EUR", HE: "EUR", IR: "EUR",
+  SW: "CHF", ST: "SEK", OL: "NOK", CO: "DKK",
+  T: "JPY", HK: "HKD", SS: "CNY", SZ: "CNY", KS: "KRW", KQ: "KRW", TW: "TWD", SI: "SGD", NS: "INR", BO: "INR",
+  AX: "AUD", NZ: "NZD", SA: "BRL", MX: "MXN", JO: "ZAR",
+}
+
+const formatters = new Map<string, Intl.NumberFormat | null>()
+
+type Precision = "standard" | "compact" | "small"
+
+function numberFormat(locale: string, currency: string, precision: Precision): Intl.NumberFormat | null {
+  const key = `${locale}|${currency}|${precision}`
+  if (!formatters.has(key)) {
+    const options: Intl.NumberFormatOptions =
+      precision === "compact"
+        ? { style: "currency", currency, notation: "compact", maximumFractionDigits: 2 }
+        : precision === "small"
+          ? { style: "currency", currency, minimumSignificantDigits: 2, maximumSignificantDigits: 4 }
+          : { style: "currency", currency }
+    let formatter: Intl.NumberFormat | null = null
+    for (const candidate of [locale, DEFAULT_LOCALE]) {
+      try {
+        formatter = new Intl.NumberFormat(candidate, options)
+        break
+      } catch {
+        // Unknown locale: retry with the default. Unknown currency: plain number below.
+      }
+    }
+    formatters.set(key, formatter)
+  }
+  return formatters.get(key)!
+}
+
+/**
+ * `€1,234.50`, `¥1,235`, `1.234,50 €` — decimals and symbol placement follow the currency and locale.
+ * Amounts under one unit keep four significant digits, so `$0.00001234` for small-cap crypto.
+ */
+export function formatMoney(amount: number, currency: string, locale = DEFAULT_LOCALE): string {
+  const precision = amount !== 0 && Math.abs(amount) < 1 ? "small" : "standard"
+  return numberFormat(locale, currency, precision)?.format(amount) ?? `${amount.toFixed(2)} ${currency}`
+}
+
+/** Compact form for market caps and totals: `$2.95T`, `€48.2B`. */
+export function formatLargeMoney(amount: number, currency: string, locale = DEFAULT_LOCALE): string {
+  return numberFormat(locale, currency, "compact")?.format(amount) ?? `${amount.toExponential(2)} ${currency}`
+}
+
+/** Validate and normalize an ISO 4217 code argument. */
+export function currencyCode(value: unknown, name = "currency"): string {
+  const code = String(value ?? "").trim().toUpperCase()
+  if (!/^[A-Z]{3}$/.test(code)) throw new InvalidInputError(`${name} must be a 3-letter currency code like USD or EUR.`)
+  return code
+}
+
+// Money-valued fields converted when a tool shows another currency
+export const QUOTE_MONEY_FIELDS = ["price", "change", "open", "high", "low", "previousClose"] as const
+export const PROFILE_MONEY_FIELDS = ["marketCap"] as const
+export const METRIC_MONEY_FIELDS = [
+  "52WeekHigh", "52WeekLow", "epsTTM", "epsAnnual", "dividendPerShareAnnual", "bookValuePerShareQuarterly",
+  "bookValuePerShareAnnual", "revenuePerShareTTM", "cashPerSharePerShareQuarterly", "marketCapitalization",
+  "enterpriseValue", "revenueTTM", "netIncomeTTM",
+] as const
+
+/** Multiply the given numeric fields by `rate`; missing and null fields stay as they are. */
+export function convertFields<T extends object>(record: T, fields: readonly string[], rate: number): T {
+  const out = { ...record } as Record<string, unknown>
+  for (const field of fields) {
+    if (typeof out[field] === "number") out[field] = (out[field] as number) * rate
+  }
+  return out as T
+}
+
+function formatRate(n: number): string {
+  return n >= 100 ? n.toFixed(2) : n >= 1 ? n.toFixed(4) : n.toPrecision(4)
+}
+
+export interface Conversion {
+  from: string
+  to: string
+  rate: number
+}
+
+export const currencyProp = {
+  type: "string",
+  description: "Show money values in this currency (ISO code, e.g. EUR). Default: the display currency setting, else the listing's own",
+}
+
+/** Footnote for converted tool output: `Converted from EUR at 1 EUR = 1.0832 USD`. */
+export function conversionNote(fx: Conversion): string {
+  return `Converted from ${fx.from} at 1 ${fx.from} = ${formatRate(fx.rate)} ${fx.to}`
+}
+
+/** The conversion for JSON output, or null when values are in their own currency. */
+export function conversionData(fx: Conversion): Conversion | null {
+  return fx.from === fx.to ? null : fx
+}
+
+export interface Currency {
+  locale(): string
+  /** The display-currency setting, or null to show instruments in their own currency. */
+  displayCurrency(): string | null
+  format(amount: number, currency: string): string
+  formatLarge(amount: number, currency: string): string
+  /** Trading currency of a listing, from its exchange suffix or else its profile; a pair's quote currency. */
+  instrumentCurrency(symbol: string): Promise<string>
+  /** Formatter for prices of `symbol`, in its own trading currency. */
+  priceFormatter(symbol: string): Promise<(amount: number) => string>
+  rate(from: string, to: string): Promise<FxRate>
+  /**
+   * Resolve the currency a tool should show: the `currency` argument, else the
+   * display setting, else `native`. Returns the rate to apply (1 when unchanged).
+   */
+  conversion(arg: unknown, native: string): Promise<Conversion>
+}
+
+export function createCurrency(ctx: PluginContext, market: MarketData): Currency {
+  const locale = () => ctx.getSetting<string>("locale") || DEFAULT_LOCALE
+
+  const displayCurrency = () => {
+    const setting = ctx.getSetting<string>("displayCurrency")
+    return setting ? currencyCode(setting, "displayCurrency") : null
+  }
+
+  async function rate(from: string, to: string): Promise<FxRate> {
+    if (from === to) return { from, to, rate: 1, timestamp: Math.floor(Date.now() / 1000) }
+    const fx = await market.fxRate(from, to)
+    if (fx) return fx
+    // Some feeds only quote one direction of a pair
+    const inverse = await market.fxRate(to, from)
+    if (inverse) return { from, to, rate: 1 / inverse.rate, timestamp: inverse.timestamp }
+    throw new NotFoundError(`No exchange rate found for ${from}/${to}.`)
+  }
+
+  async function instrumentCurrency(symbol: string): Promise<string> {
+    const instrument = parseInstrument(symbol)
+    if (instrument) return pricingCurrency(instrument) ?? DEFAULT_CURRENCY
+    const dot = symbol.lastIndexOf(".")
+    if (dot < 0) return DEFAULT_CURRENCY
+    const suffix = SUFFIX_CURRENCIES[symbol.slice(dot + 1)]
+    if (suffix) return suffix
+    try {
+      return (await market.profile(symbol))?.currency || DEFAULT_CURRENCY
+    } catch {
+      return DEFAULT_CURRENCY
+    }
+  }
+
+  return {
+    locale,
+    displayCurrency,
+    format: (amount, currency) => formatMoney(amount, currency, locale()),
+    formatLarge: (amount, currency) => formatLargeMoney(amount, currency, locale()),
+    instrumentCurrency,
+
+    async priceFormatter(symbol) {
+      const code = await instrumentCurrency(symbol)
+      return (amount) => formatMoney(amount, code, locale())
+    },
+
+    rate,
+
+    async conversion(arg, native) {
+      const to = arg ? currencyCode(arg) : displayCurrency() ?? native
+      return { from: native, to, rate: (await rate(native, to)).rate }
+    },
+  }
+}
+
+export function fxRoutes(currency: Currency) {
+  return new Elysia().get("/fx", async ({ query }) => {
+    const from = currencyCode(query.from ?? DEFAULT_CURRENCY, "from")
+    const targets = [...new Set(query.to.split(",").map((c) => currencyCode(c, "to")))].slice(0, MAX_FX_TARGETS)
+    const amount = query.amount ?? 1
+    const rates = await Promise.all(targets.map((to) => currency.rate(from, to)))
+    return { from, amount, rates: rates.map((r) => ({ ...r, converted: amount * r.rate })) }
+  }, {
+    query: t.Object({
+      from: t.Optional(t.String({ minLength: 3, maxLength: 3, description: "Base currency (default: USD)" })),
+      to: t.String({ minLength: 3, description: "Comma-separated target currencies" }),
+      amount: t.Optional(t.Numeric({ exclusiveMinimum: 0 })),
+    }),
+  })
+}
+
+export function currencyTools(currency: Currency): PluginToolDefinition[] {
+  return [
+    // ── Forex Rates ──
+    {
+      definition: {
+        name: "stock_fx",
+        description: "Get forex exchange rates between currencies and convert an amount, e.g. 100 USD to EUR, GBP and JPY.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            from: { type: "string", description: "Base currency code (default: USD)" },
+            to: {
+              type: "array",
+              items: { type: "string" },
+              description: "Target currency codes (default: the display currency setting, or EUR)",
+            },
+            amount: { type: "number", description: "Amount of the base currency to convert (default: 1)" },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const from = currencyCode(args.from ?? DEFAULT_CURRENCY, "from")
+          const requested = Array.isArray(args.to) ? args.to : args.to ? String(args.to).split(",") : []
+          const codes = requested.length > 0 ? requested : [currency.displayCurrency() ?? "EUR"]
+          const targets = [...new Set(codes.map((c) => currencyCode(c, "to")))]
+          if (targets.length > MAX_FX_TARGETS) return err(`At most ${MAX_FX_TARGETS} target currencies at once.`)
+          const amount = args.amount != null ? Number(args.amount) : 1
+          if (!(amount > 0)) return err("amount must be a positive number.")
+
+          const rates = await Promise.all(targets.map((to) => currency.rate(from, to)))
+          const rows = rates.map((r) => ({ ...r, amount, converted: amount * r.rate }))
+          const lines = [
+            `Exchange rates for ${currency.format(amount, from)}:`,
+            ...rows.map((r) => `  ${r.to}: ${currency.format(r.converted, r.to)}  (1 ${from} = ${formatRate(r.rate)} ${r.to})`),
+          ]
+          return respond(outputFormat(args), {
+            text: lines.join("\n"),
+            data: { from, amount, rates: rows },
+            table: recordsTable(rows),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
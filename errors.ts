@@ -0,0 +1,25 @@
+/**
+ * Domain errors shared by tools and routes.
+ * Tools only surface the message; routes map the class to an HTTP status in `./http`.
+ */
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "NotFoundError"
+  }
+}
+
+export class InvalidInputError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "InvalidInputError"
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ConflictError"
+  }
+}
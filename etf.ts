@@ -0,0 +1,408 @@
+/**
+ * ETF tools and routes: fund profile (expense ratio, AUM, benchmark), top
+ * holdings, sector and country exposure, and overlap between funds by
+ * shared holdings and weight, to spot funds that hold the same thing.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { EtfHolding, EtfProfile, ExposureKind, ExposureWeight } from "./models"
+import type { MarketData } from "./providers"
+import type { Currency } from "./currency"
+import { Elysia, t } from "elysia"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err } from "./format"
+import { oneOf, symbolParams } from "./http"
+import { listArg } from "./news"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+const DEFAULT_HOLDINGS = 10
+const MAX_HOLDINGS = 100
+const MAX_OVERLAP_FUNDS = 5
+const SHARED_HOLDINGS_SHOWN = 10
+
+// Weight overlap at which a pair of funds is flagged
+const REDUNDANT_OVERLAP = 50
+const MODERATE_OVERLAP = 25
+
+// Holdings lists covering less of the fund than this understate overlap
+const PARTIAL_LIST_WEIGHT = 95
+
+const EXPOSURE_KINDS: ExposureKind[] = ["sector", "country"]
+const EXPOSURE_TYPES = ["all", ...EXPOSURE_KINDS] as const
+type ExposureType = (typeof EXPOSURE_TYPES)[number]
+
+export interface HoldingsResult {
+  symbol: string
+  asOf: string | null
+  count: number | null
+  holdings: EtfHolding[]
+  /** Combined weight of the holdings returned. */
+  shownWeight: number
+}
+
+export interface ExposureResult {
+  symbol: string
+  sector: ExposureWeight[]
+  country: ExposureWeight[]
+  /** Breakdowns that failed to load, with the reason. */
+  unavailable: Record<string, string>
+}
+
+export interface SharedHolding {
+  symbol: string | null
+  name: string
+  /** Weight in each fund, by fund symbol. */
+  weights: Record<string, number>
+  /** Weight held by every fund: the smallest of `weights`. */
+  overlap: number
+}
+
+export interface PairOverlap {
+  funds: [string, string]
+  shared: number
+  /** Sum over shared holdings of the smaller weight: the percent of each fund that is the same portfolio. */
+  overlap: number
+  verdict: "redundant" | "moderate" | "distinct"
+}
+
+export interface OverlapResult {
+  symbols: string[]
+  funds: Record<string, { count: number; listedWeight: number; asOf: string | null }>
+  pairs: PairOverlap[]
+  /** Holdings every fund owns, largest common weight first. */
+  shared: SharedHolding[]
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, n) => total + n, 0)
+}
+
+function pct(n: number): string {
+  return `${n.toFixed(2)}%`
+}
+
+/** Match key for a holding: its ticker (BRK.B and BRK-B alike), else its name. */
+function holdingKey(h: EtfHolding): string {
+  if (h.symbol) return h.symbol.toUpperCase().replace(/[-/ ]/g, ".")
+  return h.name.toLowerCase().replace(/\b(inc|corp|co|ltd|plc|class [a-z])\b|[^a-z0-9]/g, "")
+}
+
+export async function fetchEtfProfile(market: MarketData, symbol: string): Promise<EtfProfile> {
+  const profile = await market.etfProfile(symbol)
+  if (!profile) throw new NotFoundError(`No ETF profile found for "${symbol}". Check that it is an ETF.`)
+  return profile
+}
+
+export async function fetchEtfHoldings(market: MarketData, symbol: string, limit = DEFAULT_HOLDINGS): Promise<HoldingsResult> {
+  const result = await market.etfHoldings(symbol)
+  if (!result) throw new NotFoundError(`No holdings found for "${symbol}". Check that it is an ETF.`)
+  const holdings = result.holdings.slice(0, limit)
+  return { symbol, asOf: result.asOf, count: result.count, holdings, shownWeight: sum(holdings.map((h) => h.weight)) }
+}
+
+export async function fetchEtfExposure(market: MarketData, symbol: string, type: ExposureType = "all"): Promise<ExposureResult> {
+  const kinds = type === "all" ? EXPOSURE_KINDS : [type]
+  const results = await Promise.allSettled(kinds.map((kind) => market.etfExposure(symbol, kind)))
+  if (results.every((r) => r.status === "rejected")) throw (results[0] as PromiseRejectedResult).reason
+
+  const exposure: ExposureResult = { symbol, sector: [], country: [], unavailable: {} }
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") exposure[kinds[i]] = result.value
+    else exposure.unavailable[kinds[i]] = result.reason instanceof Error ? result.reason.message : String(result.reason)
+  })
+  if (exposure.sector.length === 0 && exposure.country.length === 0 && Object.keys(exposure.unavailable).length === 0) {
+    throw new NotFoundError(`No ${type === "all" ? "sector or country" : type} exposure found for "${symbol}".`)
+  }
+  return exposure
+}
+
+export function parseFundSymbols(value: unknown): string[] {
+  const symbols = [...new Set(listArg(value).map((s) => s.toUpperCase()))]
+  if (symbols.length < 2) throw new InvalidInputError("Give at least two ETF symbols to compare.")
+  if (symbols.length > MAX_OVERLAP_FUNDS) throw new InvalidInputError(`At most ${MAX_OVERLAP_FUNDS} ETFs at once.`)
+  return symbols
+}
+
+function verdictOf(overlap: number): PairOverlap["verdict"] {
+  return overlap >= REDUNDANT_OVERLAP ? "redundant" : overlap >= MODERATE_OVERLAP ? "moderate" : "distinct"
+}
+
+export async function fetchEtfOverlap(market: MarketData, symbols: string[]): Promise<OverlapResult> {
+  const lists = await Promise.all(
+    symbols.map(async (symbol) => {
+      const result = await market.etfHoldings(symbol)
+      if (!result) throw new NotFoundError(`No holdings found for "${symbol}". Check that it is an ETF.`)
+      return result
+    })
+  )
+
+  // Weight by match key per fund; duplicate lines (share classes, swaps) add up
+  const weights = lists.map((list) => {
+    const byKey = new Map<string, { holding: EtfHolding; weight: number }>()
+    for (const h of list.holdings) {
+      const key = holdingKey(h)
+      const entry = byKey.get(key)
+      if (entry) entry.weight += h.weight
+      else byKey.set(key, { holding: h, weight: h.weight })
+    }
+    return byKey
+  })
+
+  const pairs: PairOverlap[] = []
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      let shared = 0
+      let overlap = 0
+      for (const [key, a] of weights[i]) {
+        const b = weights[j].get(key)
+        if (!b) continue
+        shared++
+        overlap += Math.min(a.weight, b.weight)
+      }
+      pairs.push({ funds: [symbols[i], symbols[j]], shared, overlap, verdict: verdictOf(overlap) })
+    }
+  }
+
+  const shared: SharedHolding[] = []
+  for (const [key, first] of weights[0]) {
+    if (!weights.every((w) => w.has(key))) continue
+    const byFund = Object.fromEntries(symbols.map((s, i) => [s, weights[i].get(key)!.weight]))
+    shared.push({ symbol: first.holding.symbol, name: first.holding.name, weights: byFund, overlap: Math.min(...Object.values(byFund)) })
+  }
+  shared.sort((a, b) => b.overlap - a.overlap)
+
+  const funds = Object.fromEntries(
+    lists.map((list, i) => [symbols[i], { count: list.holdings.length, listedWeight: sum(list.holdings.map((h) => h.weight)), asOf: list.asOf }])
+  )
+  return { symbols, funds, pairs: pairs.sort((a, b) => b.overlap - a.overlap), shared }
+}
+
+function formatProfile(p: EtfProfile, currency: Currency): string {
+  const code = p.currency || "USD"
+  const rows = [
+    [p.issuer && `Issuer: ${p.issuer}`, p.benchmark && `Benchmark: ${p.benchmark}`],
+    [
+      // Expense ratios are quoted to the basis point and beyond (SPY: 0.0945%)
+      p.expenseRatio != null && `Expense ratio: ${Number(p.expenseRatio.toFixed(4))}%`,
+      p.aum != null && `AUM: ${currency.formatLarge(p.aum, code)}`,
+      p.nav != null && `NAV: ${currency.format(p.nav, code)}`,
+    ],
+    [p.inceptionDate && `Inception: ${p.inceptionDate}`, p.dividendYield != null && `Dividend yield: ${pct(p.dividendYield)}`],
+    [p.assetClass && `Asset class: ${p.assetClass}`, p.leveraged != null && `Leveraged: ${p.leveraged ? "yes" : "no"}`],
+    [p.website && `Website: ${p.website}`],
+  ]
+  const lines = [`${p.symbol}${p.name ? ` — ${p.name}` : ""}`]
+  for (const row of rows) {
+    const parts = row.filter(Boolean)
+    if (parts.length > 0) lines.push(parts.join("  |  "))
+  }
+  if (p.description) lines.push(``, p.description)
+  return lines.join("\n")
+}
+
+function formatHoldings(r: HoldingsResult): string {
+  const of = r.count != null && r.count > r.holdings.length ? ` of ${r.count}` : ""
+  const lines = [`${r.symbol} top ${r.holdings.length} holdings${of}${r.asOf ? ` (as of ${r.asOf})` : ""}:`]
+  const width = Math.max(...r.holdings.map((h) => (h.symbol ?? "").length), 6)
+  r.holdings.forEach((h, i) => {
+    lines.push(`  ${String(i + 1).padStart(3)}. ${(h.symbol ?? "—").padEnd(width)} ${pct(h.weight).padStart(7)}  ${h.name}`)
+  })
+  lines.push(``, `Combined weight: ${pct(r.shownWeight)}`)
+  return lines.join("\n")
+}
+
+function formatWeights(title: string, weights: ExposureWeight[]): string[] {
+  const width = Math.max(...weights.map((w) => w.name.length))
+  return [``, `${title}:`, ...weights.map((w) => `  ${w.name.padEnd(width)}  ${pct(w.weight).padStart(7)}`)]
+}
+
+function formatExposure(r: ExposureResult): string {
+  const lines = [`${r.symbol} exposure`]
+  if (r.sector.length > 0) lines.push(...formatWeights("Sectors", r.sector))
+  if (r.country.length > 0) lines.push(...formatWeights("Countries", r.country))
+  const missing = Object.entries(r.unavailable)
+  if (missing.length > 0) lines.push(``, `Unavailable:`, ...missing.map(([name, why]) => `  ${name}: ${why}`))
+  return lines.join("\n")
+}
+
+const VERDICTS: Record<PairOverlap["verdict"], string> = {
+  redundant: "largely redundant",
+  moderate: "moderate overlap",
+  distinct: "mostly distinct",
+}
+
+function formatOverlap(r: OverlapResult): string {
+  const lines = [`ETF overlap: ${r.symbols.join(", ")}`, ``]
+  for (const p of r.pairs) {
+    lines.push(`${p.funds.join(" ↔ ")}: ${p.shared} shared holdings, ${pct(p.overlap)} weight overlap — ${VERDICTS[p.verdict]}`)
+  }
+
+  if (r.shared.length > 0) {
+    const label = r.symbols.length === 2 ? "Largest shared holdings" : "Largest holdings common to all"
+    lines.push(``, `${label}:`)
+    for (const h of r.shared.slice(0, SHARED_HOLDINGS_SHOWN)) {
+      const byFund = r.symbols.map((s) => `${s} ${pct(h.weights[s])}`).join(", ")
+      lines.push(`  ${(h.symbol ?? h.name).padEnd(8)} ${byFund}`)
+    }
+  }
+
+  const partial = Object.entries(r.funds).filter(([, f]) => f.listedWeight < PARTIAL_LIST_WEIGHT)
+  if (partial.length > 0) {
+    lines.push(
+      ``,
+      `Note: holdings lists cover only ${partial.map(([s, f]) => `${pct(f.listedWeight)} of ${s}`).join(", ")}, so overlap may be understated.`
+    )
+  }
+  return lines.join("\n")
+}
+
+export function etfRoutes(market: MarketData) {
+  return new Elysia()
+    .get("/etf/overlap", ({ query }) => fetchEtfOverlap(market, parseFundSymbols(query.symbols)), {
+      query: t.Object({ symbols: t.String({ minLength: 1, description: "Comma-separated ETF symbols" }) }),
+    })
+
+    .get("/etf/:symbol/profile", ({ params }) => fetchEtfProfile(market, params.symbol.toUpperCase()), {
+      params: symbolParams,
+    })
+
+    .get("/etf/:symbol/holdings", ({ params, query }) =>
+      fetchEtfHoldings(market, params.symbol.toUpperCase(), query.limit ?? DEFAULT_HOLDINGS), {
+      params: symbolParams,
+      query: t.Object({ limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_HOLDINGS })) }),
+    })
+
+    .get("/etf/:symbol/exposure", ({ params, query }) =>
+      fetchEtfExposure(market, params.symbol.toUpperCase(), query.type ?? "all"), {
+      params: symbolParams,
+      query: t.Object({ type: t.Optional(oneOf("type", EXPOSURE_TYPES)) }),
+    })
+}
+
+export function etfTools(market: MarketData, currency: Currency): PluginToolDefinition[] {
+  return [
+    // ── ETF Profile ──
+    {
+      definition: {
+        name: "stock_etf_profile",
+        description: "Get an ETF's fund profile: expense ratio, assets under management (AUM), NAV, inception date, benchmark index, issuer and dividend yield.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "ETF symbol (e.g. SPY, QQQ, VTI)" },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const profile = await fetchEtfProfile(market, (args.symbol as string).toUpperCase())
+          return respond(outputFormat(args), { text: () => formatProfile(profile, currency), data: profile })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── ETF Holdings ──
+    {
+      definition: {
+        name: "stock_etf_holdings",
+        description: "List an ETF's largest constituents with their portfolio weights.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "ETF symbol (e.g. SPY)" },
+            limit: { type: "number", description: `Number of holdings (default: ${DEFAULT_HOLDINGS}, max: ${MAX_HOLDINGS})` },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_HOLDINGS, 1), MAX_HOLDINGS)
+          const result = await fetchEtfHoldings(market, (args.symbol as string).toUpperCase(), limit)
+          return respond(outputFormat(args), {
+            text: () => formatHoldings(result),
+            data: result,
+            table: () => recordsTable(result.holdings),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── ETF Exposure ──
+    {
+      definition: {
+        name: "stock_etf_exposure",
+        description: "Break an ETF down by sector and by country, as percent of the fund.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "ETF symbol (e.g. VT, EFA)" },
+            type: { type: "string", enum: EXPOSURE_TYPES, description: "Breakdown to show (default: all)" },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const type = ((args.type as string | undefined) ?? "all") as ExposureType
+          if (!EXPOSURE_TYPES.includes(type)) return err(`type must be one of: ${EXPOSURE_TYPES.join(", ")}`)
+          const result = await fetchEtfExposure(market, (args.symbol as string).toUpperCase(), type)
+          return respond(outputFormat(args), {
+            text: () => formatExposure(result),
+            data: result,
+            table: () =>
+              recordsTable([
+                ...result.sector.map((w) => ({ type: "sector", ...w })),
+                ...result.country.map((w) => ({ type: "country", ...w })),
+              ]),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── ETF Overlap ──
+    {
+      definition: {
+        name: "stock_etf_overlap",
+        description:
+          "Compare two or more ETFs by shared holdings and weight overlap (the percent of each fund that is the same portfolio), " +
+          "to catch redundant funds.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbols: {
+              type: "array",
+              items: { type: "string" },
+              description: `ETF symbols to compare, 2 to ${MAX_OVERLAP_FUNDS} (e.g. ["SPY", "QQQ", "VTI"])`,
+            },
+            format: formatProp,
+          },
+          required: ["symbols"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const result = await fetchEtfOverlap(market, parseFundSymbols(args.symbols))
+          return respond(outputFormat(args), {
+            text: () => formatOverlap(result),
+            data: result,
+            table: () =>
+              recordsTable(result.pairs.map((p) => ({ fundA: p.funds[0], fundB: p.funds[1], shared: p.shared, overlap: p.overlap, verdict: p.verdict }))),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,331 @@
+/**
+ * `stock_financials` tool and route: reported statements side by side, with
+ * margins, ratios and period-over-period growth computed from the
+ * normalized line items in `FinancialStatement`.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { FinancialItems, FinancialStatement, StatementPeriod } from "./models"
+import type { MarketData } from "./providers"
+import { Elysia, t } from "elysia"
+import { NotFoundError } from "./errors"
+import { err, formatLargeNumber } from "./format"
+import { oneOf, symbolParams } from "./http"
+import { formatProp, outputFormat, respond, type Table } from "./output"
+
+export type StatementKind = "income" | "balance" | "cashflow"
+
+const STATEMENT_KINDS: StatementKind[] = ["income", "balance", "cashflow"]
+const STATEMENT_OPTIONS = [...STATEMENT_KINDS, "all"] as const
+const PERIODS: StatementPeriod[] = ["annual", "quarterly"]
+const DEFAULT_PERIODS = 4
+const MAX_PERIODS = 20
+
+type ValueKind = "money" | "perShare" | "count"
+
+const LINE_ITEMS: Array<{ item: keyof FinancialItems; label: string; statement: StatementKind; kind: ValueKind }> = [
+  { item: "revenue", label: "Revenue", statement: "income", kind: "money" },
+  { item: "costOfRevenue", label: "Cost of revenue", statement: "income", kind: "money" },
+  { item: "grossProfit", label: "Gross profit", statement: "income", kind: "money" },
+  { item: "researchAndDevelopment", label: "R&D", statement: "income", kind: "money" },
+  { item: "sellingGeneralAdmin", label: "SG&A", statement: "income", kind: "money" },
+  { item: "operatingIncome", label: "Operating income", statement: "income", kind: "money" },
+  { item: "interestExpense", label: "Interest expense", statement: "income", kind: "money" },
+  { item: "pretaxIncome", label: "Pre-tax income", statement: "income", kind: "money" },
+  { item: "incomeTax", label: "Income tax", statement: "income", kind: "money" },
+  { item: "netIncome", label: "Net income", statement: "income", kind: "money" },
+  { item: "epsBasic", label: "EPS (basic)", statement: "income", kind: "perShare" },
+  { item: "epsDiluted", label: "EPS (diluted)", statement: "income", kind: "perShare" },
+  { item: "sharesDiluted", label: "Diluted shares", statement: "income", kind: "count" },
+  { item: "cash", label: "Cash & equivalents", statement: "balance", kind: "money" },
+  { item: "shortTermInvestments", label: "Short-term investments", statement: "balance", kind: "money" },
+  { item: "currentAssets", label: "Current assets", statement: "balance", kind: "money" },
+  { item: "totalAssets", label: "Total assets", statement: "balance", kind: "money" },
+  { item: "currentLiabilities", label: "Current liabilities", statement: "balance", kind: "money" },
+  { item: "totalLiabilities", label: "Total liabilities", statement: "balance", kind: "money" },
+  { item: "shortTermDebt", label: "Short-term debt", statement: "balance", kind: "money" },
+  { item: "longTermDebt", label: "Long-term debt", statement: "balance", kind: "money" },
+  { item: "totalEquity", label: "Shareholders' equity", statement: "balance", kind: "money" },
+  { item: "operatingCashFlow", label: "Operating cash flow", statement: "cashflow", kind: "money" },
+  { item: "capitalExpenditure", label: "Capital expenditure", statement: "cashflow", kind: "money" },
+  { item: "dividendsPaid", label: "Dividends paid", statement: "cashflow", kind: "money" },
+  { item: "shareRepurchase", label: "Share buybacks", statement: "cashflow", kind: "money" },
+]
+
+const STATEMENT_TITLES: Record<StatementKind, string> = {
+  income: "Income statement",
+  balance: "Balance sheet",
+  cashflow: "Cash flow",
+}
+
+export interface FinancialRatios {
+  freeCashFlow: number | null
+  grossMargin: number | null // percent
+  operatingMargin: number | null
+  netMargin: number | null
+  fcfMargin: number | null
+  currentRatio: number | null
+  debtToEquity: number | null
+  returnOnEquity: number | null // percent; annual statements only
+}
+
+const GROWTH_ITEMS = ["revenue", "grossProfit", "operatingIncome", "netIncome", "epsDiluted", "operatingCashFlow", "freeCashFlow"] as const
+type GrowthItem = (typeof GROWTH_ITEMS)[number]
+type Growth = Record<GrowthItem, number | null>
+
+export interface FinancialPeriod extends FinancialStatement {
+  label: string
+  ratios: FinancialRatios
+  /** Percent change against the same period a year earlier. */
+  yoy: Growth | null
+  /** Percent change against the previous quarter; quarterly statements only. */
+  qoq: Growth | null
+}
+
+const RATIO_ROWS: Array<{ key: keyof FinancialRatios; label: string; kind: "money" | "percent" | "ratio" }> = [
+  { key: "freeCashFlow", label: "Free cash flow", kind: "money" },
+  { key: "grossMargin", label: "Gross margin", kind: "percent" },
+  { key: "operatingMargin", label: "Operating margin", kind: "percent" },
+  { key: "netMargin", label: "Net margin", kind: "percent" },
+  { key: "fcfMargin", label: "FCF margin", kind: "percent" },
+  { key: "currentRatio", label: "Current ratio", kind: "ratio" },
+  { key: "debtToEquity", label: "Debt / equity", kind: "ratio" },
+  { key: "returnOnEquity", label: "Return on equity", kind: "percent" },
+]
+
+const GROWTH_LABELS: Record<GrowthItem, string> = {
+  revenue: "Revenue",
+  grossProfit: "Gross profit",
+  operatingIncome: "Operating income",
+  netIncome: "Net income",
+  epsDiluted: "EPS (diluted)",
+  operatingCashFlow: "Operating cash flow",
+  freeCashFlow: "Free cash flow",
+}
+
+function ratio(numerator: number | undefined | null, denominator: number | undefined | null, scale = 1): number | null {
+  if (numerator == null || denominator == null || denominator === 0) return null
+  return (numerator / denominator) * scale
+}
+
+function ratiosFor(s: FinancialStatement): FinancialRatios {
+  const { items } = s
+  const freeCashFlow =
+    items.operatingCashFlow != null ? items.operatingCashFlow - (items.capitalExpenditure ?? 0) : null
+  const debt = items.shortTermDebt != null || items.longTermDebt != null ? (items.shortTermDebt ?? 0) + (items.longTermDebt ?? 0) : null
+  return {
+    freeCashFlow,
+    grossMargin: ratio(items.grossProfit, items.revenue, 100),
+    operatingMargin: ratio(items.operatingIncome, items.revenue, 100),
+    netMargin: ratio(items.netIncome, items.revenue, 100),
+    fcfMargin: ratio(freeCashFlow, items.revenue, 100),
+    currentRatio: ratio(items.currentAssets, items.currentLiabilities),
+    debtToEquity: items.totalEquity && items.totalEquity > 0 ? ratio(debt, items.totalEquity) : null,
+    returnOnEquity: s.period === "annual" && items.totalEquity && items.totalEquity > 0 ? ratio(items.netIncome, items.totalEquity, 100) : null,
+  }
+}
+
+function growthValue(s: FinancialStatement, ratios: FinancialRatios, item: GrowthItem): number | undefined | null {
+  return item === "freeCashFlow" ? ratios.freeCashFlow : s.items[item]
+}
+
+function change(current: number | undefined | null, previous: number | undefined | null): number | null {
+  if (current == null || previous == null || previous === 0) return null
+  return ((current - previous) / Math.abs(previous)) * 100
+}
+
+function growth(current: FinancialPeriod, previous: FinancialPeriod | undefined): Growth | null {
+  if (!previous) return null
+  return Object.fromEntries(
+    GROWTH_ITEMS.map((item) => [
+      item,
+      change(growthValue(current, current.ratios, item), growthValue(previous, previous.ratios, item)),
+    ])
+  ) as Growth
+}
+
+function periodLabel(s: FinancialStatement): string {
+  if (s.period === "annual") return `FY${s.fiscalYear}`
+  return s.fiscalQuarter ? `Q${s.fiscalQuarter} ${s.fiscalYear}` : s.endDate
+}
+
+/** The statement ending about a year before `s`, if present. */
+function yearEarlier(s: FinancialStatement, all: FinancialStatement[]): FinancialStatement | undefined {
+  const target = Date.parse(s.endDate) - 365 * 86400000
+  return all.find((o) => Math.abs(Date.parse(o.endDate) - target) <= 20 * 86400000)
+}
+
+/** Add ratios and growth to statements ordered newest first. */
+export function analyzeFinancials(statements: FinancialStatement[]): FinancialPeriod[] {
+  const periods = statements.map((s): FinancialPeriod => ({
+    ...s,
+    label: periodLabel(s),
+    ratios: ratiosFor(s),
+    yoy: null,
+    qoq: null,
+  }))
+  for (const [i, p] of periods.entries()) {
+    const previousYear = yearEarlier(p, periods) as FinancialPeriod | undefined
+    p.yoy = growth(p, previousYear)
+    if (p.period === "quarterly") p.qoq = growth(p, periods[i + 1])
+  }
+  return periods
+}
+
+export async function fetchFinancials(
+  market: MarketData,
+  symbol: string,
+  period: StatementPeriod,
+  count: number
+): Promise<FinancialPeriod[]> {
+  // Fetch enough history to compute growth for the oldest period shown
+  const extra = period === "quarterly" ? 4 : 1
+  const statements = await market.financials(symbol, period, count + extra)
+  return analyzeFinancials(statements).slice(0, count)
+}
+
+/** Line items as rows, periods as columns; raw numbers for csv/markdown/text rendering. */
+export function financialsTable(periods: FinancialPeriod[], statements: StatementKind[]): Table {
+  const rows: unknown[][] = []
+  for (const kind of statements) {
+    for (const line of LINE_ITEMS.filter((l) => l.statement === kind)) {
+      if (periods.every((p) => p.items[line.item] == null)) continue
+      rows.push([line.label, ...periods.map((p) => p.items[line.item] ?? null)])
+    }
+  }
+  for (const r of RATIO_ROWS) {
+    if (periods.every((p) => p.ratios[r.key] == null)) continue
+    rows.push([r.label, ...periods.map((p) => p.ratios[r.key])])
+  }
+  for (const [key, suffix] of [["yoy", "YoY"], ["qoq", "QoQ"]] as const) {
+    for (const item of GROWTH_ITEMS) {
+      if (periods.every((p) => p[key]?.[item] == null)) continue
+      rows.push([`${GROWTH_LABELS[item]} growth ${suffix} %`, ...periods.map((p) => p[key]?.[item] ?? null)])
+    }
+  }
+  return { columns: ["item", ...periods.map((p) => p.label)], rows }
+}
+
+function compactMoney(n: number): string {
+  return `${n < 0 ? "-" : ""}${formatLargeNumber(Math.abs(n))}`
+}
+
+function formatGrowth(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(1)}%`
+}
+
+function formatFinancialsText(symbol: string, periods: FinancialPeriod[], statements: StatementKind[]): string {
+  const columns = periods.map((p) => p.label)
+  const sections: Array<{ title: string; rows: Array<[string, string[]]> }> = []
+  const cell = (v: number | null | undefined, fmt: (n: number) => string) => (v == null ? "—" : fmt(v))
+
+  for (const kind of statements) {
+    const rows: Array<[string, string[]]> = []
+    for (const line of LINE_ITEMS.filter((l) => l.statement === kind)) {
+      if (periods.every((p) => p.items[line.item] == null)) continue
+      const fmt = line.kind === "perShare" ? (n: number) => n.toFixed(2) : compactMoney
+      rows.push([line.label, periods.map((p) => cell(p.items[line.item], fmt))])
+    }
+    if (rows.length) sections.push({ title: STATEMENT_TITLES[kind], rows })
+  }
+
+  const ratioRows: Array<[string, string[]]> = []
+  for (const r of RATIO_ROWS) {
+    if (periods.every((p) => p.ratios[r.key] == null)) continue
+    const fmt = r.kind === "money" ? compactMoney : r.kind === "percent" ? (n: number) => `${n.toFixed(1)}%` : (n: number) => n.toFixed(2)
+    ratioRows.push([r.label, periods.map((p) => cell(p.ratios[r.key], fmt))])
+  }
+  if (ratioRows.length) sections.push({ title: "Margins & ratios", rows: ratioRows })
+
+  for (const [key, title] of [["yoy", "Growth (year over year)"], ["qoq", "Growth (quarter over quarter)"]] as const) {
+    const rows: Array<[string, string[]]> = []
+    for (const item of GROWTH_ITEMS) {
+      if (periods.every((p) => p[key]?.[item] == null)) continue
+      rows.push([GROWTH_LABELS[item], periods.map((p) => cell(p[key]?.[item], formatGrowth))])
+    }
+    if (rows.length) sections.push({ title, rows })
+  }
+
+  const labelWidth = Math.max(...sections.flatMap((s) => s.rows.map(([label]) => label.length)), 4)
+  const widths = columns.map((c, i) => Math.max(c.length, ...sections.flatMap((s) => s.rows.map(([, v]) => v[i].length))))
+  const line = (label: string, values: string[]) =>
+    `  ${label.padEnd(labelWidth)}  ${values.map((v, i) => v.padStart(widths[i])).join("  ")}`.trimEnd()
+
+  const first = periods[0]
+  const lines = [
+    `${symbol} Financials — ${first.period}, ${first.currency}`,
+    ``,
+    line("", columns),
+  ]
+  for (const section of sections) {
+    lines.push(``, `${section.title}:`, ...section.rows.map(([label, values]) => line(label, values)))
+  }
+  return lines.join("\n")
+}
+
+function statementsArg(value: unknown): StatementKind[] {
+  return STATEMENT_KINDS.includes(value as StatementKind) ? [value as StatementKind] : STATEMENT_KINDS
+}
+
+export function financialRoutes(market: MarketData) {
+  return new Elysia().get("/financials/:symbol", async ({ params, query }) => {
+    const symbol = params.symbol.toUpperCase()
+    const period = query.period ?? "annual"
+    const periods = await fetchFinancials(market, symbol, period, query.periods ?? DEFAULT_PERIODS)
+    if (periods.length === 0) throw new NotFoundError(`No ${period} financial statements found for "${symbol}".`)
+    return { symbol, period, periods }
+  }, {
+    params: symbolParams,
+    query: t.Object({
+      period: t.Optional(oneOf("period", PERIODS)),
+      periods: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_PERIODS })),
+    }),
+  })
+}
+
+export function financialTools(market: MarketData): PluginToolDefinition[] {
+  return [
+    // ── Financial Statements ──
+    {
+      definition: {
+        name: "stock_financials",
+        description:
+          "Reported income statement, balance sheet and cash flow for a company, several periods side by side, " +
+          "with margins, current ratio, debt/equity, free cash flow and YoY/QoQ growth.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            period: { type: "string", enum: PERIODS, description: "annual (default) or quarterly statements" },
+            periods: { type: "number", description: `Number of periods to compare (default: ${DEFAULT_PERIODS}, max: ${MAX_PERIODS})` },
+            statement: { type: "string", enum: STATEMENT_OPTIONS, description: "Which statement to show (default: all)" },
+            format: {
+              ...formatProp,
+              description: "Output format: text (default), json, or csv/markdown with line items as rows and periods as columns",
+            },
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const period: StatementPeriod = args.period === "quarterly" ? "quarterly" : "annual"
+          const count = Math.min(Math.max(Number(args.periods) || DEFAULT_PERIODS, 1), MAX_PERIODS)
+          const statements = statementsArg(args.statement)
+
+          const periods = await fetchFinancials(market, symbol, period, count)
+          if (periods.length === 0) return err(`No ${period} financial statements found for "${symbol}".`)
+
+          return respond(outputFormat(args), {
+            text: () => formatFinancialsText(symbol, periods, statements),
+            data: { symbol, period, periods },
+            table: () => financialsTable(periods, statements),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,22 @@
+/**
+ * Shared formatting helpers and tool-result constructors.
+ */
+
+export function formatCurrency(n: number): string {
+  return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+export function formatLargeNumber(n: number): string {
+  if (n >= 1e12) return `${(n / 1e12).toFixed(2)}T`
+  if (n >= 1e9) return `${(n / 1e9).toFixed(2)}B`
+  if (n >= 1e6) return `${(n / 1e6).toFixed(2)}M`
+  return n.toLocaleString()
+}
+
+export function ok(text: string) {
+  return { content: [{ type: "text" as const, text }], isError: false }
+}
+
+export function err(text: string) {
+  return { content: [{ type: "text" as const, text }], isError: true }
+}
@@ -0,0 +1,82 @@
+/**
+ * HTTP conventions for the plugin's Elysia routes: shared param/query
+ * schemas and the mapping from thrown errors to status codes and a stable
+ * `{ error, code }` body.
+ */
+
+import { t, ValidationError } from "elysia"
+import { ConflictError, InvalidInputError, NotFoundError } from "./errors"
+import { ProviderError } from "./providers"
+
+export type ApiErrorCode =
+  | "bad_request"
+  | "unauthorized"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "not_supported"
+  | "upstream_unavailable"
+  | "internal"
+
+export interface ApiError {
+  error: string
+  code: ApiErrorCode
+}
+
+export const symbolParams = t.Object({
+  symbol: t.String({ minLength: 1, maxLength: 32, pattern: "^[A-Za-z0-9.:\\-_^=]+$" }),
+})
+
+/** String enum whose validation error lists the allowed values. */
+export function oneOf<const T extends string>(name: string, values: readonly T[]) {
+  return t.Union(
+    values.map((v) => t.Literal(v)),
+    { error: `${name} must be one of: ${values.join(", ")}` }
+  )
+}
+
+export const resolutionSchema = oneOf("resolution", ["1", "5", "15", "30", "60", "D", "W", "M"])
+
+export function toApiError(error: unknown): { status: number; body: ApiError } {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof ValidationError) {
+    const first = error.all[0]
+    const detail =
+      typeof error.customError === "string"
+        ? error.customError
+        : first
+          ? `${first.path ? `${first.path.slice(1)}: ` : ""}${first.summary ?? first.message}`
+          : message
+    const where = error.type === "property" ? "request" : error.type
+    return { status: 400, body: { error: `Invalid ${where}: ${detail}`, code: "bad_request" } }
+  }
+  if (error instanceof InvalidInputError) return { status: 400, body: { error: message, code: "bad_request" } }
+  if (error instanceof NotFoundError) return { status: 404, body: { error: message, code: "not_found" } }
+  if (error instanceof ConflictError) return { status: 409, body: { error: message, code: "conflict" } }
+
+  if (error instanceof ProviderError) {
+    if (error.status === 401 || error.status === 403) return { status: 401, body: { error: message, code: "unauthorized" } }
+    if (error.status === 404) return { status: 404, body: { error: message, code: "not_found" } }
+    if (error.status === 429) return { status: 429, body: { error: message, code: "rate_limited" } }
+    if (error.status === 400 || error.status === 422) return { status: 400, body: { error: message, code: "bad_request" } }
+    if (error.status === 501) return { status: 501, body: { error: message, code: "not_supported" } }
+    return { status: 503, body: { error: message, code: "upstream_unavailable" } }
+  }
+
+  // Elysia's own errors (unknown route, unparseable body) carry a status
+  const status = (error as { status?: unknown })?.status
+  if (typeof status === "number" && status >= 400 && status < 500) {
+    if (status === 404) return { status, body: { error: "Route not found", code: "not_found" } }
+    return { status, body: { error: message, code: "bad_request" } }
+  }
+
+  return { status: 500, body: { error: message, code: "internal" } }
+}
+
+/** `onError` hook for the plugin's root Elysia instance. */
+export function handleRouteError({ error, set }: { error: unknown; set: { status?: number | string } }): ApiError {
+  const { status, body } = toApiError(error)
+  set.status = status
+  return body
+}
@@ -1,172 +1,112 @@
 /**
  * Stock Data Plugin
- * Live stock quotes, ETF data, company profiles, candles, and market news via Finnhub.
+ * Live stock quotes, ETF data, company profiles, candles, and market news.
+ * Data comes from the providers in `./providers`, tried in the configured priority order.
  */
 
 import type { PluginContext, PluginRegistrations } from "./types"
+import type { AssetClass, CandleResolution } from "./models"
 import { Elysia } from "elysia"
-
-const BASE = "https://finnhub.io/api/v1"
-
-interface FinnhubQuote {
-  c: number  // current
-  d: number  // change
-  dp: number // percent change
-  h: number  // high
-  l: number  // low
-  o: number  // open
-  pc: number // previous close
-  t: number  // timestamp
-}
-
-interface FinnhubProfile {
-  country: string
-  currency: string
-  exchange: string
-  finnhubIndustry: string
-  ipo: string
-  logo: string
-  marketCapitalization: number
-  name: string
-  phone: string
-  shareOutstanding: number
-  ticker: string
-  weburl: string
-}
-
-interface FinnhubSearchResult {
-  count: number
-  result: Array<{
-    description: string
-    displaySymbol: string
-    symbol: string
-    type: string
-  }>
-}
-
-interface FinnhubCandles {
-  c: number[] // close
-  h: number[] // high
-  l: number[] // low
-  o: number[] // open
-  s: string   // status
-  t: number[] // timestamps
-  v: number[] // volume
-}
-
-interface FinnhubNewsItem {
-  category: string
-  datetime: number
-  headline: string
-  id: number
-  image: string
-  related: string
-  source: string
-  summary: string
-  url: string
-}
-
-// Simple in-memory cache to respect rate limits
-const cache = new Map<string, { data: unknown; expiry: number }>()
-const CACHE_TTL_MS = 15_000 // 15 seconds
-
-function getCached<T>(key: string): T | null {
-  const entry = cache.get(key)
-  if (!entry) return null
-  if (Date.now() > entry.expiry) {
-    cache.delete(key)
-    return null
-  }
-  return entry.data as T
-}
-
-function setCache(key: string, data: unknown): void {
-  cache.set(key, { data, expiry: Date.now() + CACHE_TTL_MS })
-}
-
-async function finnhub<T>(path: string, apiKey: string, params: Record<string, string> = {}): Promise<T> {
-  const cacheKey = `${path}?${JSON.stringify(params)}`
-  const cached = getCached<T>(cacheKey)
-  if (cached) return cached
-
-  const url = new URL(`${BASE}${path}`)
-  url.searchParams.set("token", apiKey)
-  for (const [k, v] of Object.entries(params)) {
-    url.searchParams.set(k, v)
-  }
-
-  const res = await fetch(url.toString())
-  if (!res.ok) {
-    const text = await res.text()
-    throw new Error(`Finnhub ${res.status}: ${text}`)
-  }
-
-  const data = (await res.json()) as T
-  setCache(cacheKey, data)
-  return data
-}
-
-function formatCurrency(n: number): string {
-  return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
-}
-
-function formatLargeNumber(n: number): string {
-  if (n >= 1e12) return `${(n / 1e12).toFixed(2)}T`
-  if (n >= 1e9) return `${(n / 1e9).toFixed(2)}B`
-  if (n >= 1e6) return `${(n / 1e6).toFixed(2)}M`
-  return n.toLocaleString()
-}
-
-function ok(text: string) {
-  return { content: [{ type: "text" as const, text }], isError: false }
-}
-
-function err(text: string) {
-  return { content: [{ type: "text" as const, text }], isError: true }
-}
+import { analystRoutes, analystTools } from "./analyst"
+import { alertRoutes, alertScheduledTask, alertTools, createAlerts } from "./alerts"
+import { backtestRoutes, backtestTools } from "./backtest"
+import { clearCache, configureCache } from "./cache"
+import { calendarRoutes, calendarTools } from "./calendars"
+import { fetchCandles, isIntraday, resolveRange } from "./candles"
+import { chartRoutes, chartTools } from "./charts"
+import { compareRoutes, compareTools } from "./compare"
+import {
+  conversionData,
+  conversionNote,
+  convertFields,
+  createCurrency,
+  currencyProp,
+  currencyTools,
+  fxRoutes,
+  METRIC_MONEY_FIELDS,
+  PROFILE_MONEY_FIELDS,
+  QUOTE_MONEY_FIELDS,
+} from "./currency"
+import { etfRoutes, etfTools } from "./etf"
+import { financialRoutes, financialTools } from "./financials"
+import { err, formatCurrency, formatLargeNumber, ok } from "./format"
+import { handleRouteError } from "./http"
+import { ASSET_CLASSES, INSTRUMENT_CLASSES, instrumentRoutes, instrumentTools, searchInstruments } from "./instruments"
+import { fetchNews, formatSentiment, MAX_NEWS_SYMBOLS, NEWS_CATEGORIES, parseNewsFilter } from "./news"
+import { ownershipRoutes, ownershipTools } from "./ownership"
+import { createPortfolio, portfolioRoutes, portfolioTools } from "./portfolio"
+import { createMarketData } from "./providers"
+import { candlesTable, fieldsTable, formatProp, outputFormat, recordsTable, respond } from "./output"
+import { fetchQuotes, formatQuoteRow, quoteRowsTable } from "./quotes"
+import { marketRoutes } from "./routes"
+import { cancelScreens, createScreener, screenerRoutes, screenerTools } from "./screener"
+import { loadHolidays, marketStatusRoutes, marketStatusTools, quoteFreshness } from "./sessions"
+import { closeStores, openStore } from "./store"
+import { closeTradeStreams, createTradeStream, streamRoutes } from "./stream"
+import { indicatorRoutes, indicatorTools } from "./technicals"
+import { createWatchlists, watchlistRoutes, watchlistTools } from "./watchlists"
+import { createMarketEvents, finnhubWebhook, webhookRoutes, webhookTools } from "./webhooks"
 
 export async function activate(ctx: PluginContext): Promise<PluginRegistrations> {
   ctx.log.info("Activating stock-data plugin")
 
-  function getKey(): string {
-    const key = ctx.getSetting<string>("finnhubApiKey")
-    if (!key) throw new Error("Finnhub API key not configured. Set it in plugin settings.")
-    return key
-  }
+  configureCache({
+    store: ctx.getSetting<boolean>("persistCache") !== false ? openStore(ctx, "cache") : null,
+    onStale: (key, e) => ctx.log.warn(`Serving stale data for ${key}:`, e instanceof Error ? e.message : String(e)),
+  })
+
+  const market = createMarketData(ctx)
+  const currency = createCurrency(ctx, market)
+  // Holidays sharpen quote staleness and cache lifetimes; the weekday schedule works without them
+  loadHolidays(market, "US").catch((e) => ctx.log.warn("Could not load US market holidays:", e instanceof Error ? e.message : String(e)))
+  const watchlists = createWatchlists(ctx)
+  const alerts = createAlerts(ctx)
+  const portfolio = createPortfolio(ctx)
+  const stream = createTradeStream(ctx)
+  const events = createMarketEvents(ctx)
+  const screener = createScreener(market, watchlists)
 
   return {
     routes: () =>
       new Elysia()
-        .get("/quote/:symbol", async ({ params }) => {
-          try {
-            const quote = await finnhub<FinnhubQuote>("/quote", getKey(), { symbol: params.symbol.toUpperCase() })
-            return { symbol: params.symbol.toUpperCase(), ...quote }
-          } catch (e) {
-            return { error: e instanceof Error ? e.message : String(e) }
-          }
-        })
-        .get("/search/:query", async ({ params }) => {
-          try {
-            const results = await finnhub<FinnhubSearchResult>("/search", getKey(), { q: params.query })
-            return results
-          } catch (e) {
-            return { error: e instanceof Error ? e.message : String(e) }
-          }
-        }),
+        .onError(handleRouteError)
+        .use(marketRoutes(market, currency))
+        .use(fxRoutes(currency))
+        .use(instrumentRoutes(market))
+        .use(watchlistRoutes(watchlists, market, currency))
+        .use(alertRoutes(alerts))
+        .use(portfolioRoutes(portfolio, market, currency))
+        .use(indicatorRoutes(market))
+        .use(compareRoutes(market))
+        .use(backtestRoutes(market))
+        .use(chartRoutes(market))
+        .use(calendarRoutes(market))
+        .use(financialRoutes(market))
+        .use(analystRoutes(market))
+        .use(ownershipRoutes(market))
+        .use(etfRoutes(market))
+        .use(screenerRoutes(screener))
+        .use(marketStatusRoutes(market))
+        .use(streamRoutes(stream))
+        .use(webhookRoutes(events)),
 
     tools: [
       // ── Quote ──
       {
         definition: {
           name: "stock_quote",
-          description: "Get a real-time stock or ETF quote. Returns current price, change, high, low, open, and previous close.",
+          description:
+            "Get a real-time stock, ETF, crypto or forex quote. Returns current price, change, high, low, open, and previous close " +
+            "(for crypto and forex pairs, over the last 24 hours).",
           inputSchema: {
             type: "object" as const,
             properties: {
               symbol: {
                 type: "string",
-                description: "Ticker symbol (e.g. AAPL, TSLA, SPY, QQQ, VOO)",
+                description: "Ticker symbol (e.g. AAPL, TSLA, SPY, QQQ, VOO), or an EXCHANGE:PAIR like BINANCE:BTCUSDT or OANDA:EUR_USD",
               },
+              currency: currencyProp,
+              format: formatProp,
             },
             required: ["symbol"],
           },
@@ -174,20 +114,29 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const symbol = (args.symbol as string).toUpperCase()
-            const quote = await finnhub<FinnhubQuote>("/quote", getKey(), { symbol })
+            const quote = await market.quote(symbol)
 
-            if (!quote.c && !quote.o) {
+            if (!quote) {
               return err(`No data found for symbol "${symbol}". Check the ticker and try again.`)
             }
 
-            const direction = quote.d >= 0 ? "+" : ""
+            const fx = await currency.conversion(args.currency, await currency.instrumentCurrency(symbol))
+            const q = convertFields(quote, QUOTE_MONEY_FIELDS, fx.rate)
+            const money = (n: number) => currency.format(n, fx.to)
+            const direction = q.change >= 0 ? "+" : ""
             const lines = [
-              `${symbol}: $${formatCurrency(quote.c)}`,
-              `Change: ${direction}$${formatCurrency(quote.d)} (${direction}${quote.dp.toFixed(2)}%)`,
-              `Open: $${formatCurrency(quote.o)}  |  Prev Close: $${formatCurrency(quote.pc)}`,
-              `High: $${formatCurrency(quote.h)}  |  Low: $${formatCurrency(quote.l)}`,
+              `${symbol}: ${money(q.price)}`,
+              `Change: ${direction}${money(q.change)} (${direction}${q.changePercent.toFixed(2)}%)`,
+              `Open: ${money(q.open)}  |  Prev Close: ${money(q.previousClose)}`,
+              `High: ${money(q.high)}  |  Low: ${money(q.low)}`,
             ]
-            return ok(lines.join("\n"))
+            const freshness = quoteFreshness(symbol, quote.timestamp)
+            if (freshness.note) lines.push(freshness.note)
+            if (fx.from !== fx.to) lines.push(conversionNote(fx))
+            return respond(outputFormat(args), {
+              text: lines.join("\n"),
+              data: { ...q, currency: fx.to, fx: conversionData(fx), ...freshness },
+            })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -207,6 +156,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 items: { type: "string" },
                 description: "Array of ticker symbols (e.g. [\"AAPL\", \"GOOGL\", \"SPY\"])",
               },
+              format: formatProp,
             },
             required: ["symbols"],
           },
@@ -214,19 +164,12 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const symbols = (args.symbols as string[]).map((s) => s.toUpperCase())
-            const results = await Promise.all(
-              symbols.map(async (symbol) => {
-                try {
-                  const q = await finnhub<FinnhubQuote>("/quote", getKey(), { symbol })
-                  if (!q.c && !q.o) return `${symbol}: No data`
-                  const dir = q.d >= 0 ? "+" : ""
-                  return `${symbol}: $${formatCurrency(q.c)} (${dir}${q.dp.toFixed(2)}%)`
-                } catch {
-                  return `${symbol}: Error fetching`
-                }
-              })
-            )
-            return ok(results.join("\n"))
+            const rows = await fetchQuotes(market, currency, symbols)
+            return respond(outputFormat(args), {
+              text: rows.map((r) => formatQuoteRow(r, currency)).join("\n"),
+              data: rows,
+              table: quoteRowsTable(rows),
+            })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -237,14 +180,22 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
       {
         definition: {
           name: "stock_search",
-          description: "Search for stock/ETF ticker symbols by company name or keyword. Use this when you don't know the exact ticker.",
+          description:
+            "Search for stock/ETF tickers by company name or keyword, and crypto or forex pairs by asset (e.g. 'bitcoin', 'EUR'). " +
+            "Use this when you don't know the exact ticker.",
           inputSchema: {
             type: "object" as const,
             properties: {
               query: {
                 type: "string",
-                description: "Company name or keyword to search (e.g. 'Apple', 'electric vehicle', 'semiconductor')",
+                description: "Company name, keyword or asset to search (e.g. 'Apple', 'semiconductor', 'BTC', 'EUR_USD')",
+              },
+              asset_class: {
+                type: "string",
+                enum: ["all", ...ASSET_CLASSES],
+                description: "Limit results to stocks, crypto or forex pairs (default: all)",
               },
+              format: formatProp,
             },
             required: ["query"],
           },
@@ -252,23 +203,34 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const query = args.query as string
-            const results = await finnhub<FinnhubSearchResult>("/search", getKey(), { q: query })
+            const assetClass = (args.asset_class as AssetClass | "all" | undefined) ?? "all"
+            if (assetClass !== "all" && !ASSET_CLASSES.includes(assetClass)) {
+              return err(`asset_class must be one of: all, ${ASSET_CLASSES.join(", ")}`)
+            }
+            const classes = INSTRUMENT_CLASSES.filter((c) => assetClass === "all" || assetClass === c)
+            const [results, pairs] = await Promise.all([
+              assetClass === "all" || assetClass === "stock" ? market.search(query) : [],
+              classes.length > 0 ? searchInstruments(market, query, classes, 10) : [],
+            ])
 
-            if (!results.result || results.result.length === 0) {
+            if (results.length === 0 && pairs.length === 0) {
               return err(`No results for "${query}".`)
             }
 
             // Filter to common stock types and limit
-            const filtered = results.result
+            const filtered = results
               .filter((r) => ["Common Stock", "ETP", "ETF", "REIT", "ADR"].includes(r.type) || !r.type)
               .slice(0, 10)
+              .concat(pairs)
 
+            const format = outputFormat(args)
             if (filtered.length === 0) {
-              return ok(`Found results but none were common stocks/ETFs. Raw results:\n${results.result.slice(0, 5).map((r) => `${r.symbol} - ${r.description} (${r.type})`).join("\n")}`)
+              if (format !== "text") return respond(format, { text: "", data: results.slice(0, 10) })
+              return ok(`Found results but none were common stocks/ETFs. Raw results:\n${results.slice(0, 5).map((r) => `${r.symbol} - ${r.description} (${r.type})`).join("\n")}`)
             }
 
             const lines = filtered.map((r) => `${r.symbol} - ${r.description}${r.type ? ` (${r.type})` : ""}`)
-            return ok(`Search results for "${query}":\n${lines.join("\n")}`)
+            return respond(format, { text: `Search results for "${query}":\n${lines.join("\n")}`, data: filtered })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -287,6 +249,8 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 type: "string",
                 description: "Ticker symbol (e.g. AAPL)",
               },
+              currency: currencyProp,
+              format: formatProp,
             },
             required: ["symbol"],
           },
@@ -294,24 +258,27 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const symbol = (args.symbol as string).toUpperCase()
-            const profile = await finnhub<FinnhubProfile>("/stock/profile2", getKey(), { symbol })
+            const profile = await market.profile(symbol)
 
-            if (!profile.name) {
+            if (!profile) {
               return err(`No company profile found for "${symbol}".`)
             }
 
+            const fx = await currency.conversion(args.currency, profile.currency || "USD")
+            const p = convertFields(profile, PROFILE_MONEY_FIELDS, fx.rate)
             const lines = [
-              `${profile.name} (${profile.ticker})`,
-              `Industry: ${profile.finnhubIndustry || "N/A"}`,
-              `Exchange: ${profile.exchange || "N/A"}`,
-              `Market Cap: $${formatLargeNumber(profile.marketCapitalization * 1e6)}`,
-              `Shares Outstanding: ${formatLargeNumber(profile.shareOutstanding * 1e6)}`,
-              `IPO Date: ${profile.ipo || "N/A"}`,
-              `Country: ${profile.country || "N/A"}`,
-              `Currency: ${profile.currency || "N/A"}`,
-              `Website: ${profile.weburl || "N/A"}`,
+              `${p.name} (${p.symbol})`,
+              `Industry: ${p.industry || "N/A"}`,
+              `Exchange: ${p.exchange || "N/A"}`,
+              `Market Cap: ${currency.formatLarge(p.marketCap, fx.to)}`,
+              `Shares Outstanding: ${formatLargeNumber(p.sharesOutstanding)}`,
+              `IPO Date: ${p.ipo || "N/A"}`,
+              `Country: ${p.country || "N/A"}`,
+              `Currency: ${p.currency || "N/A"}`,
+              `Website: ${p.website || "N/A"}`,
             ]
-            return ok(lines.join("\n"))
+            if (fx.from !== fx.to) lines.push(conversionNote(fx))
+            return respond(outputFormat(args), { text: lines.join("\n"), data: { ...p, currency: fx.to, fx: conversionData(fx) } })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -322,13 +289,13 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
       {
         definition: {
           name: "stock_candles",
-          description: "Get historical OHLCV (open/high/low/close/volume) candle data for a stock or ETF. Useful for trend analysis.",
+          description: "Get historical OHLCV (open/high/low/close/volume) candle data for a stock, ETF, crypto or forex pair. Useful for trend analysis.",
           inputSchema: {
             type: "object" as const,
             properties: {
               symbol: {
                 type: "string",
-                description: "Ticker symbol (e.g. AAPL)",
+                description: "Ticker symbol (e.g. AAPL) or EXCHANGE:PAIR (e.g. BINANCE:BTCUSDT, OANDA:EUR_USD)",
               },
               resolution: {
                 type: "string",
@@ -337,7 +304,19 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
               },
               days: {
                 type: "number",
-                description: "Number of days of historical data to fetch (default: 30, max: 365)",
+                description: "Number of days back from `to` to fetch when `from` is not given (default: 30)",
+              },
+              from: {
+                type: "string",
+                description: "Range start: YYYY-MM-DD, ISO timestamp or unix seconds. Daily/weekly/monthly ranges can span up to 30 years; intraday up to 1 year.",
+              },
+              to: {
+                type: "string",
+                description: "Range end, same formats as `from` (default: now; a date includes the whole day)",
+              },
+              format: {
+                ...formatProp,
+                description: "Output format: text (default, summary plus last 5 bars), or json, csv, markdown with every bar",
               },
             },
             required: ["symbol"],
@@ -346,51 +325,60 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const symbol = (args.symbol as string).toUpperCase()
-            const resolution = (args.resolution as string) || "D"
-            const days = Math.min(Math.max((args.days as number) || 30, 1), 365)
-
-            const to = Math.floor(Date.now() / 1000)
-            const from = to - days * 86400
+            const resolution = ((args.resolution as string) || "D") as CandleResolution
+            const { from, to } = resolveRange(args, resolution)
+            const span = `${new Date(from * 1000).toISOString().split("T")[0]} to ${new Date(to * 1000).toISOString().split("T")[0]}`
 
-            const candles = await finnhub<FinnhubCandles>("/stock/candle", getKey(), {
-              symbol,
-              resolution,
-              from: String(from),
-              to: String(to),
-            })
+            const candles = await fetchCandles(market, symbol, resolution, from, to)
 
-            if (candles.s !== "ok" || !candles.c || candles.c.length === 0) {
-              return err(`No candle data for "${symbol}" with resolution ${resolution} over ${days} days.`)
+            if (candles.length === 0) {
+              return err(`No candle data for "${symbol}" with resolution ${resolution} from ${span}.`)
             }
 
-            const count = candles.c.length
-            const latest = candles.c[count - 1]
-            const earliest = candles.c[0]
+            const count = candles.length
+            const latest = candles[count - 1].close
+            const earliest = candles[0].close
             const periodReturn = ((latest - earliest) / earliest) * 100
-            const high = Math.max(...candles.h)
-            const low = Math.min(...candles.l)
-            const avgVolume = candles.v.reduce((a, b) => a + b, 0) / count
+            // reduce rather than spread: long intraday ranges exceed the argument limit
+            const high = candles.reduce((max, c) => Math.max(max, c.high), -Infinity)
+            const low = candles.reduce((min, c) => Math.min(min, c.low), Infinity)
+            const avgVolume = candles.reduce((sum, c) => sum + c.volume, 0) / count
+            const money = await currency.priceFormatter(symbol)
 
             const lines = [
-              `${symbol} — ${count} candles (${resolution} resolution, ${days} days)`,
+              `${symbol} — ${count} candles (${resolution} resolution, ${span})`,
               ``,
-              `Latest Close: $${formatCurrency(latest)}`,
-              `Period Start: $${formatCurrency(earliest)}`,
+              `Latest Close: ${money(latest)}`,
+              `Period Start: ${money(earliest)}`,
               `Period Return: ${periodReturn >= 0 ? "+" : ""}${periodReturn.toFixed(2)}%`,
-              `Period High: $${formatCurrency(high)}`,
-              `Period Low: $${formatCurrency(low)}`,
+              `Period High: ${money(high)}`,
+              `Period Low: ${money(low)}`,
               `Avg Volume: ${formatLargeNumber(Math.round(avgVolume))}`,
             ]
 
             // Add last 5 data points
             const tail = Math.min(5, count)
+            const dateFormat: Intl.DateTimeFormatOptions = isIntraday(resolution)
+              ? { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }
+              : { year: "numeric", month: "short", day: "numeric" }
             lines.push(``, `Last ${tail} data points:`)
-            for (let i = count - tail; i < count; i++) {
-              const date = new Date(candles.t[i] * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric" })
-              lines.push(`  ${date}: O $${formatCurrency(candles.o[i])} H $${formatCurrency(candles.h[i])} L $${formatCurrency(candles.l[i])} C $${formatCurrency(candles.c[i])} V ${formatLargeNumber(candles.v[i])}`)
+            for (const c of candles.slice(count - tail)) {
+              const date = new Date(c.time * 1000).toLocaleString("en-US", dateFormat)
+              lines.push(`  ${date}: O ${money(c.open)} H ${money(c.high)} L ${money(c.low)} C ${money(c.close)} V ${formatLargeNumber(c.volume)}`)
             }
 
-            return ok(lines.join("\n"))
+            return respond(outputFormat(args), {
+              text: lines.join("\n"),
+              data: {
+                symbol,
+                resolution,
+                from,
+                to,
+                summary: { count, latest, earliest, periodReturn, high, low, avgVolume },
+                candles,
+              },
+              table: candlesTable(candles),
+            })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -401,7 +389,9 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
       {
         definition: {
           name: "stock_news",
-          description: "Get latest market news or company-specific news. Useful for understanding price movements and sentiment.",
+          description:
+            "Get market news or company news for one or more symbols, with date range, keyword and source filters. " +
+            "Syndicated copies of the same story are merged. Company news includes a bullish/bearish sentiment summary.",
           inputSchema: {
             type: "object" as const,
             properties: {
@@ -409,40 +399,64 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 type: "string",
                 description: "Ticker symbol for company-specific news. Omit for general market news.",
               },
+              symbols: {
+                type: "array",
+                items: { type: "string" },
+                description: `Several tickers at once (max: ${MAX_NEWS_SYMBOLS})`,
+              },
+              category: {
+                type: "string",
+                enum: NEWS_CATEGORIES,
+                description: "Market news category when no symbol is given (default: general)",
+              },
+              from: {
+                type: "string",
+                description: "Start date YYYY-MM-DD (default for company news: 7 days before to)",
+              },
+              to: {
+                type: "string",
+                description: "End date YYYY-MM-DD (default for company news: today)",
+              },
+              keywords: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only articles mentioning any of these words or phrases",
+              },
+              sources: {
+                type: "array",
+                items: { type: "string" },
+                description: "Only articles from these outlets (e.g. [\"Reuters\", \"CNBC\"])",
+              },
+              sentiment: {
+                type: "boolean",
+                description: "Include the sentiment summary for company news (default: true)",
+              },
               limit: {
                 type: "number",
-                description: "Number of articles to return (default: 5, max: 20)",
+                description: "Number of articles to return (default: 5, max: 50)",
               },
+              format: formatProp,
             },
           },
         },
         handler: async (args) => {
           try {
-            const symbol = args.symbol ? (args.symbol as string).toUpperCase() : null
-            const limit = Math.min(Math.max((args.limit as number) || 5, 1), 20)
-
-            let news: FinnhubNewsItem[]
-
-            if (symbol) {
-              const to = new Date().toISOString().split("T")[0]
-              const fromDate = new Date(Date.now() - 7 * 86400000).toISOString().split("T")[0]
-              news = await finnhub<FinnhubNewsItem[]>("/company-news", getKey(), {
-                symbol,
-                from: fromDate,
-                to,
-              })
-            } else {
-              news = await finnhub<FinnhubNewsItem[]>("/news", getKey(), { category: "general" })
+            const filter = parseNewsFilter(args)
+            const limit = Math.min(Math.max((args.limit as number) || 5, 1), 50)
+            const { stories, sentiment, errors } = await fetchNews(market, filter, { limit, sentiment: args.sentiment !== false })
+            const subject = filter.symbols.length > 0 ? filter.symbols.join(", ") : null
+            const category = filter.category !== "general" ? ` — ${filter.category}` : ""
+            const range = filter.from ? ` (${filter.from} to ${filter.to ?? "today"})` : ""
+
+            const lines = [subject ? `News for ${subject}${range}:` : `Market News${category}${range}:`]
+            if (sentiment.length > 0) {
+              lines.push(``, `Sentiment:`, ...sentiment.map(formatSentiment))
             }
-
-            if (!news || news.length === 0) {
-              return ok(symbol ? `No recent news for ${symbol}.` : "No market news available.")
+            if (stories.length === 0) {
+              lines.push(``, subject ? `No matching news for ${subject}.` : "No matching market news.")
             }
 
-            const articles = news.slice(0, limit)
-            const lines = [symbol ? `News for ${symbol}:` : "Market News:"]
-
-            for (const article of articles) {
+            for (const article of stories) {
               const date = new Date(article.datetime * 1000).toLocaleDateString("en-US", {
                 month: "short",
                 day: "numeric",
@@ -457,10 +471,23 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                   : article.summary
                 lines.push(`  ${summary}`)
               }
-              lines.push(`  Source: ${article.source} | ${article.url}`)
+              const also = article.otherSources.length > 0 ? ` (also: ${article.otherSources.join(", ")})` : ""
+              lines.push(`  Source: ${article.source}${also} | ${article.url}`)
+            }
+
+            const failed = Object.entries(errors)
+            if (failed.length > 0) {
+              lines.push(``, ...failed.map(([symbol, message]) => `${symbol}: ${message}`))
             }
 
-            return ok(lines.join("\n"))
+            return respond(outputFormat(args), {
+              text: lines.join("\n"),
+              data: { ...filter, sentiment, news: stories, errors },
+              table: recordsTable(
+                stories.map((a) => ({ ...a, datetime: new Date(a.datetime * 1000).toISOString() })),
+                ["datetime", "headline", "source", "otherSources", "url", "summary", "related", "sentiment"]
+              ),
+            })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -479,6 +506,7 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 type: "string",
                 description: "Ticker symbol (e.g. AAPL)",
               },
+              format: formatProp,
             },
             required: ["symbol"],
           },
@@ -486,31 +514,27 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const symbol = (args.symbol as string).toUpperCase()
-            const peers = await finnhub<string[]>("/stock/peers", getKey(), {
-              symbol,
-              grouping: "industry",
-            })
+            const peers = await market.peers(symbol)
 
-            if (!peers || peers.length === 0) {
+            if (peers.length === 0) {
               return err(`No peers found for "${symbol}".`)
             }
 
             // Get quotes for the first 8 peers
             const topPeers = peers.filter((p) => p !== symbol).slice(0, 8)
-            const quotes = await Promise.all(
-              topPeers.map(async (peer) => {
-                try {
-                  const q = await finnhub<FinnhubQuote>("/quote", getKey(), { symbol: peer })
-                  if (!q.c) return `${peer}: No data`
-                  const dir = q.d >= 0 ? "+" : ""
-                  return `${peer}: $${formatCurrency(q.c)} (${dir}${q.dp.toFixed(2)}%)`
-                } catch {
-                  return `${peer}: Error`
-                }
-              })
-            )
+            const rows = await fetchQuotes(market, currency, topPeers)
+            const quotes = rows.map(({ symbol: peer, quote: q, currency: code, error }) => {
+              if (error) return `${peer}: Error`
+              if (!q || !q.price) return `${peer}: No data`
+              const dir = q.change >= 0 ? "+" : ""
+              return `${peer}: ${currency.format(q.price, code ?? "USD")} (${dir}${q.changePercent.toFixed(2)}%)`
+            })
 
-            return ok(`Peers of ${symbol}:\n${quotes.join("\n")}`)
+            return respond(outputFormat(args), {
+              text: `Peers of ${symbol}:\n${quotes.join("\n")}`,
+              data: { symbol, peers: rows },
+              table: quoteRowsTable(rows),
+            })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
@@ -529,6 +553,8 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
                 type: "string",
                 description: "Ticker symbol (e.g. AAPL)",
               },
+              currency: currencyProp,
+              format: formatProp,
             },
             required: ["symbol"],
           },
@@ -536,51 +562,77 @@ export async function activate(ctx: PluginContext): Promise<PluginRegistrations>
         handler: async (args) => {
           try {
             const symbol = (args.symbol as string).toUpperCase()
-            const data = await finnhub<{ metric: Record<string, number | null> }>(
-              "/stock/metric",
-              getKey(),
-              { symbol, metric: "all" }
-            )
-
-            const m = data.metric
-            if (!m || Object.keys(m).length === 0) {
+            const metrics = await market.metrics(symbol)
+            if (!metrics) {
               return err(`No metrics found for "${symbol}".`)
             }
 
-            const fmt = (v: number | null | undefined, prefix = "", suffix = "") =>
-              v != null ? `${prefix}${typeof v === "number" ? formatCurrency(v) : v}${suffix}` : "N/A"
+            const fx = await currency.conversion(args.currency, await currency.instrumentCurrency(symbol))
+            const m = convertFields(metrics, METRIC_MONEY_FIELDS, fx.rate)
+            const fmt = (v: number | null | undefined, suffix = "") => (v != null ? `${formatCurrency(v)}${suffix}` : "N/A")
+            const money = (v: number | null | undefined) => (v != null ? currency.format(v, fx.to) : "N/A")
+            const large = (millions: number | null | undefined) => (millions != null ? currency.formatLarge(millions * 1e6, fx.to) : "N/A")
 
             const lines = [
               `Key Metrics for ${symbol}:`,
               ``,
-              `52-Week High: ${fmt(m["52WeekHigh"], "$")}`,
-              `52-Week Low: ${fmt(m["52WeekLow"], "$")}`,
-              `52-Week Return: ${fmt(m["52WeekPriceReturnDaily"], "", "%")}`,
+              `52-Week High: ${money(m["52WeekHigh"])}`,
+              `52-Week Low: ${money(m["52WeekLow"])}`,
+              `52-Week Return: ${fmt(m["52WeekPriceReturnDaily"], "%")}`,
               ``,
               `P/E (TTM): ${m["peTTM"] != null ? m["peTTM"].toFixed(2) : "N/A"}`,
               `P/B (Quarterly): ${m["pbQuarterly"] != null ? m["pbQuarterly"].toFixed(2) : "N/A"}`,
-              `EPS (TTM): ${fmt(m["epsTTM"], "$")}`,
+              `EPS (TTM): ${money(m["epsTTM"])}`,
               ``,
               `Beta: ${m["beta"] != null ? m["beta"].toFixed(3) : "N/A"}`,
               `Dividend Yield: ${m["dividendYieldIndicatedAnnual"] != null ? (m["dividendYieldIndicatedAnnual"]).toFixed(2) + "%" : "N/A"}`,
-              `Dividend Per Share: ${fmt(m["dividendPerShareAnnual"], "$")}`,
+              `Dividend Per Share: ${money(m["dividendPerShareAnnual"])}`,
               ``,
-              `Market Cap: ${m["marketCapitalization"] != null ? "$" + formatLargeNumber(m["marketCapitalization"] * 1e6) : "N/A"}`,
-              `Revenue (TTM): ${m["revenueTTM"] != null ? "$" + formatLargeNumber(m["revenueTTM"] * 1e6) : "N/A"}`,
-              `Net Income (TTM): ${m["netIncomeTTM"] != null ? "$" + formatLargeNumber(m["netIncomeTTM"] * 1e6) : "N/A"}`,
+              `Market Cap: ${large(m["marketCapitalization"])}`,
+              `Revenue (TTM): ${large(m["revenueTTM"])}`,
+              `Net Income (TTM): ${large(m["netIncomeTTM"])}`,
               `ROE (TTM): ${m["roeTTM"] != null ? m["roeTTM"].toFixed(2) + "%" : "N/A"}`,
             ]
+            if (fx.from !== fx.to) lines.push(``, conversionNote(fx))
 
-            return ok(lines.join("\n"))
+            return respond(outputFormat(args), {
+              text: lines.join("\n"),
+              data: { symbol, currency: fx.to, fx: conversionData(fx), metrics: m },
+              table: fieldsTable(m),
+            })
           } catch (e) {
             return err(e instanceof Error ? e.message : String(e))
           }
         },
       },
+
+      ...currencyTools(currency),
+      ...instrumentTools(market),
+      ...watchlistTools(watchlists, market, currency),
+      ...alertTools(alerts, currency),
+      ...portfolioTools(portfolio, market, currency),
+      ...indicatorTools(market, currency),
+      ...compareTools(market),
+      ...backtestTools(market, currency),
+      ...chartTools(ctx, market),
+      ...calendarTools(market),
+      ...financialTools(market),
+      ...analystTools(market, currency),
+      ...ownershipTools(market, currency),
+      ...etfTools(market, currency),
+      ...screenerTools(screener),
+      ...marketStatusTools(market),
+      ...webhookTools(ctx, events),
     ],
+
+    webhooks: [finnhubWebhook(ctx, events, watchlists, portfolio)],
+    scheduled: [alertScheduledTask(ctx, alerts, market, currency)],
   }
 }
 
 export function deactivate(): void {
-  cache.clear()
+  clearCache()
+  closeStores()
+  closeTradeStreams()
+  cancelScreens()
 }
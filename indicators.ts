@@ -0,0 +1,326 @@
+/**
+ * Technical indicators over candle series.
+ * Pure calculations with no I/O. Every series function returns an array aligned
+ * with its input, holding `null` until enough bars exist for the lookback.
+ */
+
+import type { Candle } from "./models"
+
+export type Series = (number | null)[]
+
+export function sma(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null)
+  let sum = 0
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]
+    if (i >= period) sum -= values[i - period]
+    if (i >= period - 1) out[i] = sum / period
+  }
+  return out
+}
+
+/** Exponential moving average, seeded with the SMA of the first `period` values. */
+export function ema(values: number[], period: number): Series {
+  const out: Series = new Array(values.length).fill(null)
+  if (values.length < period) return out
+  const k = 2 / (period + 1)
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period
+  out[period - 1] = prev
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k)
+    out[i] = prev
+  }
+  return out
+}
+
+/** EMA over a series that starts with nulls (e.g. the MACD line). */
+function emaOfSeries(values: Series, period: number): Series {
+  const start = values.findIndex((v) => v != null)
+  if (start < 0) return values.map(() => null)
+  const tail = ema(values.slice(start) as number[], period)
+  return [...new Array(start).fill(null), ...tail]
+}
+
+/** Relative Strength Index with Wilder smoothing. */
+export function rsi(closes: number[], period = 14): Series {
+  const out: Series = new Array(closes.length).fill(null)
+  if (closes.length <= period) return out
+  let gain = 0
+  let loss = 0
+  for (let i = 1; i <= period; i++) {
+    const d = closes[i] - closes[i - 1]
+    if (d >= 0) gain += d
+    else loss -= d
+  }
+  gain /= period
+  loss /= period
+  const value = () => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss))
+  out[period] = value()
+  for (let i = period + 1; i < closes.length; i++) {
+    const d = closes[i] - closes[i - 1]
+    gain = (gain * (period - 1) + Math.max(d, 0)) / period
+    loss = (loss * (period - 1) + Math.max(-d, 0)) / period
+    out[i] = value()
+  }
+  return out
+}
+
+export interface MacdSeries {
+  macd: Series
+  signal: Series
+  histogram: Series
+}
+
+export function macd(closes: number[], fast = 12, slow = 26, signalPeriod = 9): MacdSeries {
+  const fastEma = ema(closes, fast)
+  const slowEma = ema(closes, slow)
+  const line = closes.map((_, i) => (fastEma[i] != null && slowEma[i] != null ? fastEma[i]! - slowEma[i]! : null))
+  const signal = emaOfSeries(line, signalPeriod)
+  const histogram = line.map((v, i) => (v != null && signal[i] != null ? v - signal[i]! : null))
+  return { macd: line, signal, histogram }
+}
+
+export interface BollingerSeries {
+  middle: Series
+  upper: Series
+  lower: Series
+}
+
+export function bollinger(closes: number[], period = 20, stdDevs = 2): BollingerSeries {
+  const middle = sma(closes, period)
+  const upper: Series = new Array(closes.length).fill(null)
+  const lower: Series = new Array(closes.length).fill(null)
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i]!
+    let variance = 0
+    for (let j = i - period + 1; j <= i; j++) variance += (closes[j] - mean) ** 2
+    const sd = Math.sqrt(variance / period)
+    upper[i] = mean + stdDevs * sd
+    lower[i] = mean - stdDevs * sd
+  }
+  return { middle, upper, lower }
+}
+
+/** Average True Range with Wilder smoothing. */
+export function atr(candles: Candle[], period = 14): Series {
+  const out: Series = new Array(candles.length).fill(null)
+  if (candles.length <= period) return out
+  const tr = candles.map((c, i) =>
+    i === 0
+      ? c.high - c.low
+      : Math.max(c.high - c.low, Math.abs(c.high - candles[i - 1].close), Math.abs(c.low - candles[i - 1].close))
+  )
+  let prev = tr.slice(1, period + 1).reduce((a, b) => a + b, 0) / period
+  out[period] = prev
+  for (let i = period + 1; i < candles.length; i++) {
+    prev = (prev * (period - 1) + tr[i]) / period
+    out[i] = prev
+  }
+  return out
+}
+
+/**
+ * Volume-weighted average price from typical price (H+L+C)/3.
+ * `session` restarts the running total each UTC day (intraday bars);
+ * `series` accumulates over the whole range.
+ */
+export function vwap(candles: Candle[], anchor: "session" | "series" = "series"): Series {
+  const out: Series = []
+  let pv = 0
+  let vol = 0
+  let day = ""
+  for (const c of candles) {
+    if (anchor === "session") {
+      const d = new Date(c.time * 1000).toISOString().slice(0, 10)
+      if (d !== day) {
+        day = d
+        pv = 0
+        vol = 0
+      }
+    }
+    pv += ((c.high + c.low + c.close) / 3) * c.volume
+    vol += c.volume
+    out.push(vol > 0 ? pv / vol : null)
+  }
+  return out
+}
+
+export interface Crossover {
+  direction: "above" | "below"
+  barsAgo: number
+}
+
+/** Most recent bar within `lookback` where `a` crossed `b`. */
+export function crossover(a: Series, b: Series, lookback = 5): Crossover | null {
+  const last = a.length - 1
+  for (let i = last; i > 0 && i >= last - lookback + 1; i--) {
+    const [a0, a1, b0, b1] = [a[i - 1], a[i], b[i - 1], b[i]]
+    if (a0 == null || a1 == null || b0 == null || b1 == null) return null
+    if (a0 <= b0 && a1 > b1) return { direction: "above", barsAgo: last - i }
+    if (a0 >= b0 && a1 < b1) return { direction: "below", barsAgo: last - i }
+  }
+  return null
+}
+
+export function latest(series: Series): number | null {
+  return series.length ? series[series.length - 1] : null
+}
+
+// ── Report ──
+
+export type IndicatorName = "sma" | "ema" | "rsi" | "macd" | "bollinger" | "atr" | "vwap" | "volume"
+
+export const INDICATOR_NAMES: IndicatorName[] = ["sma", "ema", "rsi", "macd", "bollinger", "atr", "vwap", "volume"]
+
+export interface IndicatorConfig {
+  indicators: IndicatorName[]
+  smaPeriods: number[]
+  emaPeriods: number[]
+  rsiPeriod: number
+  macdFast: number
+  macdSlow: number
+  macdSignal: number
+  bollingerPeriod: number
+  bollingerStdDev: number
+  atrPeriod: number
+  volumePeriod: number
+  vwapAnchor: "session" | "series"
+  /** How many recent bars to scan for crossovers. */
+  signalLookback: number
+}
+
+export const DEFAULT_INDICATOR_CONFIG: IndicatorConfig = {
+  indicators: INDICATOR_NAMES,
+  smaPeriods: [20, 50, 200],
+  emaPeriods: [12, 26],
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  bollingerPeriod: 20,
+  bollingerStdDev: 2,
+  atrPeriod: 14,
+  volumePeriod: 20,
+  vwapAnchor: "series",
+  signalLookback: 5,
+}
+
+export interface IndicatorReport {
+  bars: number
+  time: number
+  close: number
+  sma: Record<string, number | null>
+  ema: Record<string, number | null>
+  rsi: number | null
+  macd: { macd: number | null; signal: number | null; histogram: number | null } | null
+  bollinger: { middle: number | null; upper: number | null; lower: number | null; percentB: number | null } | null
+  atr: { value: number | null; percent: number | null } | null
+  vwap: number | null
+  volume: { latest: number; average: number | null; ratio: number | null } | null
+  signals: string[]
+}
+
+function ago(barsAgo: number): string {
+  return barsAgo === 0 ? "on the latest bar" : `${barsAgo} bar${barsAgo === 1 ? "" : "s"} ago`
+}
+
+/** Latest value of every requested indicator plus plain-language signals. */
+export function computeIndicators(candles: Candle[], overrides: Partial<IndicatorConfig> = {}): IndicatorReport {
+  if (candles.length === 0) throw new Error("No candles to analyze.")
+  const cfg = { ...DEFAULT_INDICATOR_CONFIG, ...overrides }
+  const want = new Set(cfg.indicators)
+  const closes = candles.map((c) => c.close)
+  const close = closes[closes.length - 1]
+  const signals: string[] = []
+
+  const report: IndicatorReport = {
+    bars: candles.length,
+    time: candles[candles.length - 1].time,
+    close,
+    sma: {},
+    ema: {},
+    rsi: null,
+    macd: null,
+    bollinger: null,
+    atr: null,
+    vwap: null,
+    volume: null,
+    signals,
+  }
+
+  if (want.has("sma")) {
+    const periods = [...cfg.smaPeriods].sort((a, b) => a - b)
+    const series = new Map(periods.map((p) => [p, sma(closes, p)]))
+    for (const [p, s] of series) {
+      const v = latest(s)
+      report.sma[String(p)] = v
+      if (v != null) signals.push(`Price is ${close >= v ? "above" : "below"} the ${p}-period SMA`)
+    }
+    // Crossovers between each fast/slow pair (e.g. 50/200 golden and death crosses)
+    for (let i = 0; i < periods.length; i++) {
+      for (let j = i + 1; j < periods.length; j++) {
+        const x = crossover(series.get(periods[i])!, series.get(periods[j])!, cfg.signalLookback)
+        if (!x) continue
+        const name = periods[i] === 50 && periods[j] === 200 ? (x.direction === "above" ? " (golden cross)" : " (death cross)") : ""
+        signals.push(`SMA ${periods[i]} crossed ${x.direction} SMA ${periods[j]} ${ago(x.barsAgo)}${name}`)
+      }
+    }
+  }
+
+  if (want.has("ema")) {
+    const periods = [...cfg.emaPeriods].sort((a, b) => a - b)
+    const series = new Map(periods.map((p) => [p, ema(closes, p)]))
+    for (const [p, s] of series) report.ema[String(p)] = latest(s)
+    if (periods.length >= 2) {
+      const x = crossover(series.get(periods[0])!, series.get(periods[periods.length - 1])!, cfg.signalLookback)
+      if (x) signals.push(`EMA ${periods[0]} crossed ${x.direction} EMA ${periods[periods.length - 1]} ${ago(x.barsAgo)}`)
+    }
+  }
+
+  if (want.has("rsi")) {
+    report.rsi = latest(rsi(closes, cfg.rsiPeriod))
+    if (report.rsi != null) {
+      if (report.rsi >= 70) signals.push(`RSI ${report.rsi.toFixed(1)} — overbought`)
+      else if (report.rsi <= 30) signals.push(`RSI ${report.rsi.toFixed(1)} — oversold`)
+      else signals.push(`RSI ${report.rsi.toFixed(1)} — neutral`)
+    }
+  }
+
+  if (want.has("macd")) {
+    const m = macd(closes, cfg.macdFast, cfg.macdSlow, cfg.macdSignal)
+    report.macd = { macd: latest(m.macd), signal: latest(m.signal), histogram: latest(m.histogram) }
+    const x = crossover(m.macd, m.signal, cfg.signalLookback)
+    if (x) signals.push(`MACD crossed ${x.direction} its signal line ${ago(x.barsAgo)} (${x.direction === "above" ? "bullish" : "bearish"})`)
+    else if (report.macd.histogram != null) signals.push(`MACD histogram ${report.macd.histogram >= 0 ? "positive (bullish momentum)" : "negative (bearish momentum)"}`)
+  }
+
+  if (want.has("bollinger")) {
+    const b = bollinger(closes, cfg.bollingerPeriod, cfg.bollingerStdDev)
+    const [middle, upper, lower] = [latest(b.middle), latest(b.upper), latest(b.lower)]
+    const percentB = upper != null && lower != null && upper !== lower ? (close - lower) / (upper - lower) : null
+    report.bollinger = { middle, upper, lower, percentB }
+    if (upper != null && close > upper) signals.push("Close is above the upper Bollinger Band")
+    else if (lower != null && close < lower) signals.push("Close is below the lower Bollinger Band")
+  }
+
+  if (want.has("atr")) {
+    const value = latest(atr(candles, cfg.atrPeriod))
+    report.atr = { value, percent: value != null && close ? (value / close) * 100 : null }
+  }
+
+  if (want.has("vwap")) {
+    report.vwap = latest(vwap(candles, cfg.vwapAnchor))
+    if (report.vwap != null) signals.push(`Price is ${close >= report.vwap ? "above" : "below"} VWAP`)
+  }
+
+  if (want.has("volume")) {
+    const volumes = candles.map((c) => c.volume)
+    const average = latest(sma(volumes, cfg.volumePeriod))
+    const last = volumes[volumes.length - 1]
+    const ratio = average ? last / average : null
+    report.volume = { latest: last, average, ratio }
+    if (ratio != null && ratio >= 1.5) signals.push(`Volume ${ratio.toFixed(1)}x its ${cfg.volumePeriod}-period average`)
+  }
+
+  return report
+}
@@ -0,0 +1,251 @@
+/**
+ * Crypto and forex pairs: parsing of `EXCHANGE:PAIR` symbols
+ * (`BINANCE:BTCUSDT`, `OANDA:EUR_USD`), a rolling 24-hour quote built from
+ * bars for venues without a quote endpoint, instrument search, and the
+ * exchange and symbol listing tools and routes.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { AssetClass, Candle, InstrumentClass, Quote, SymbolMatch } from "./models"
+import type { MarketData } from "./providers"
+import { Elysia, t } from "elysia"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err } from "./format"
+import { oneOf } from "./http"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+export const INSTRUMENT_CLASSES: InstrumentClass[] = ["crypto", "forex"]
+export const ASSET_CLASSES: AssetClass[] = ["stock", ...INSTRUMENT_CLASSES]
+
+// Venues whose pairs are currencies; any other `EXCHANGE:` prefix is a crypto venue
+const FOREX_EXCHANGES = new Set(["OANDA", "FXCM", "FOREX.COM", "PEPPERSTONE", "IC MARKETS", "OCTAFX", "FXPRO", "FXPIG"])
+
+// Quote assets for splitting unseparated pairs like BTCUSDT; longer codes first
+const QUOTE_ASSETS = ["FDUSD", "USDT", "USDC", "BUSD", "TUSD", "USD", "EUR", "GBP", "JPY", "TRY", "BRL", "AUD", "BTC", "ETH", "BNB"]
+const DOLLAR_STABLECOINS = new Set(["FDUSD", "USDT", "USDC", "BUSD", "TUSD"])
+
+// Venues searched when no exchange is given
+const SEARCH_EXCHANGES: Record<InstrumentClass, string[]> = {
+  crypto: ["BINANCE", "COINBASE"],
+  forex: ["OANDA"],
+}
+
+// Names people search for, mapped to the codes pair listings use
+const ASSET_NAMES: Record<string, string> = {
+  bitcoin: "BTC", ethereum: "ETH", ether: "ETH", solana: "SOL", ripple: "XRP", cardano: "ADA", dogecoin: "DOGE",
+  litecoin: "LTC", polkadot: "DOT", tether: "USDT",
+  euro: "EUR", dollar: "USD", pound: "GBP", sterling: "GBP", yen: "JPY", franc: "CHF", yuan: "CNY",
+}
+
+const DEFAULT_SYMBOL_LIMIT = 50
+const MAX_SYMBOL_LIMIT = 500
+
+export interface Instrument {
+  symbol: string // normalized `EXCHANGE:PAIR`
+  assetClass: InstrumentClass
+  exchange: string
+  base: string
+  /** Asset the pair is priced in, or null when it couldn't be split. */
+  quote: string | null
+}
+
+/** Parse an `EXCHANGE:PAIR` symbol; null for stock tickers. */
+export function parseInstrument(symbol: string): Instrument | null {
+  const colon = symbol.indexOf(":")
+  if (colon <= 0 || colon === symbol.length - 1) return null
+  const exchange = symbol.slice(0, colon).toUpperCase()
+  const pair = symbol.slice(colon + 1).toUpperCase()
+
+  const parts = pair.split(/[_/-]/)
+  let base = pair
+  let quote: string | null = null
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    base = parts[0]
+    quote = parts[1]
+  } else {
+    const suffix = QUOTE_ASSETS.find((a) => pair.length > a.length && pair.endsWith(a))
+    if (suffix) {
+      base = pair.slice(0, -suffix.length)
+      quote = suffix
+    }
+  }
+  return { symbol: `${exchange}:${pair}`, assetClass: FOREX_EXCHANGES.has(exchange) ? "forex" : "crypto", exchange, base, quote }
+}
+
+export function assetClassOf(symbol: string): AssetClass {
+  return parseInstrument(symbol)?.assetClass ?? "stock"
+}
+
+/** Currency a pair is priced in: its quote asset, with dollar stablecoins counted as USD. */
+export function pricingCurrency(instrument: Instrument): string | null {
+  const quote = instrument.quote
+  if (!quote) return null
+  if (DOLLAR_STABLECOINS.has(quote)) return "USD"
+  return /^[A-Z]{3}$/.test(quote) ? quote : null
+}
+
+export function instrumentClass(value: unknown): InstrumentClass {
+  const assetClass = String(value ?? "").toLowerCase() as InstrumentClass
+  if (!INSTRUMENT_CLASSES.includes(assetClass)) throw new InvalidInputError(`asset_class must be one of: ${INSTRUMENT_CLASSES.join(", ")}`)
+  return assetClass
+}
+
+/**
+ * Quote over the trailing 24 hours of `bars`, for pairs that trade around
+ * the clock: open, high and low since then, change against the close 24
+ * hours before the latest bar.
+ */
+export function rollingQuote(symbol: string, bars: Candle[]): Quote | null {
+  if (bars.length === 0) return null
+  const last = bars[bars.length - 1]
+  const start = last.time - 86400
+  const day = bars.filter((b) => b.time > start)
+  const before = bars.filter((b) => b.time <= start)
+  const previousClose = before.length > 0 ? before[before.length - 1].close : day[0].open
+  const change = last.close - previousClose
+  return {
+    symbol,
+    price: last.close,
+    change,
+    changePercent: previousClose ? (change / previousClose) * 100 : 0,
+    high: Math.max(...day.map((b) => b.high)),
+    low: Math.min(...day.map((b) => b.low)),
+    open: day[0].open,
+    previousClose,
+    timestamp: last.time,
+  }
+}
+
+function matches(item: SymbolMatch, query: string): boolean {
+  const q = query.toUpperCase().replace(/[\s_/:-]/g, "")
+  const pair = item.symbol.slice(item.symbol.indexOf(":") + 1).replace(/[_/-]/g, "")
+  return pair.includes(q) || item.description.toUpperCase().replace(/[\s_/:-]/g, "").includes(q)
+}
+
+/** Ranks exact pair matches first, then pairs starting with the query, then the rest. */
+function rank(item: SymbolMatch, query: string): number {
+  const q = query.toUpperCase().replace(/[\s_/:-]/g, "")
+  const pair = item.symbol.slice(item.symbol.indexOf(":") + 1).replace(/[_/-]/g, "")
+  return pair === q ? 0 : pair.startsWith(q) ? 1 : 2
+}
+
+async function listSymbols(market: MarketData, assetClass: InstrumentClass, exchange: string, query: string | null) {
+  const symbols = await market.instruments(assetClass, exchange)
+  if (!query) return symbols
+  return symbols.filter((s) => matches(s, query)).sort((a, b) => rank(a, query) - rank(b, query))
+}
+
+/**
+ * Crypto and forex pairs matching `query` on the main venues of each
+ * class. Venues that fail or aren't offered by any provider are skipped.
+ */
+export async function searchInstruments(market: MarketData, text: string, classes: InstrumentClass[], limit: number): Promise<SymbolMatch[]> {
+  const query = ASSET_NAMES[text.trim().toLowerCase()] ?? text
+  const lists = await Promise.allSettled(
+    classes.flatMap((assetClass) => SEARCH_EXCHANGES[assetClass].map((exchange) => listSymbols(market, assetClass, exchange, query)))
+  )
+  const found = lists.flatMap((r) => (r.status === "fulfilled" ? r.value : []))
+  return found.sort((a, b) => rank(a, query) - rank(b, query)).slice(0, limit)
+}
+
+export function instrumentRoutes(market: MarketData) {
+  const assetClassParam = oneOf("asset_class", INSTRUMENT_CLASSES)
+
+  return new Elysia()
+    .get("/exchanges/:assetClass", async ({ params }) => {
+      return { assetClass: params.assetClass, exchanges: await market.exchanges(params.assetClass) }
+    }, {
+      params: t.Object({ assetClass: assetClassParam }),
+    })
+
+    .get("/symbols/:assetClass/:exchange", async ({ params, query }) => {
+      const exchange = params.exchange.toUpperCase()
+      const symbols = await listSymbols(market, params.assetClass, exchange, query.query ?? null)
+      if (symbols.length === 0) throw new NotFoundError(`No ${params.assetClass} symbols found on ${exchange}${query.query ? ` matching "${query.query}"` : ""}.`)
+      return { assetClass: params.assetClass, exchange, total: symbols.length, symbols: symbols.slice(0, query.limit ?? DEFAULT_SYMBOL_LIMIT) }
+    }, {
+      params: t.Object({ assetClass: assetClassParam, exchange: t.String({ minLength: 1, maxLength: 32 }) }),
+      query: t.Object({
+        query: t.Optional(t.String({ minLength: 1, maxLength: 50 })),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_SYMBOL_LIMIT })),
+      }),
+    })
+}
+
+export function instrumentTools(market: MarketData): PluginToolDefinition[] {
+  const assetClassProp = { type: "string", enum: INSTRUMENT_CLASSES, description: "crypto or forex" }
+
+  return [
+    // ── Exchanges ──
+    {
+      definition: {
+        name: "stock_exchanges",
+        description: "List crypto exchanges or forex brokers with market data, e.g. BINANCE, COINBASE, OANDA. Use with stock_symbols to find tradable pairs.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            asset_class: assetClassProp,
+            format: formatProp,
+          },
+          required: ["asset_class"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const assetClass = instrumentClass(args.asset_class)
+          const exchanges = await market.exchanges(assetClass)
+          if (exchanges.length === 0) return err(`No ${assetClass} exchanges found.`)
+          return respond(outputFormat(args), {
+            text: `${assetClass === "crypto" ? "Crypto exchanges" : "Forex brokers"}: ${exchanges.join(", ")}`,
+            data: { assetClass, exchanges },
+            table: { columns: ["exchange"], rows: exchanges.map((e) => [e]) },
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Exchange Symbols ──
+    {
+      definition: {
+        name: "stock_symbols",
+        description:
+          "List the crypto or forex pairs an exchange offers, optionally filtered by a base or quote asset (e.g. BTC, EUR). " +
+          "Returns EXCHANGE:PAIR symbols usable with stock_quote and stock_candles.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            asset_class: assetClassProp,
+            exchange: { type: "string", description: "Exchange from stock_exchanges (e.g. BINANCE, OANDA)" },
+            query: { type: "string", description: "Only pairs containing this asset or text (e.g. BTC, EUR_USD)" },
+            limit: { type: "number", description: `Max pairs to return (default: ${DEFAULT_SYMBOL_LIMIT}, max: ${MAX_SYMBOL_LIMIT})` },
+            format: formatProp,
+          },
+          required: ["asset_class", "exchange"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const assetClass = instrumentClass(args.asset_class)
+          const exchange = String(args.exchange ?? "").trim().toUpperCase()
+          if (!exchange) return err("exchange is required.")
+          const query = args.query ? String(args.query) : null
+          const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_SYMBOL_LIMIT, 1), MAX_SYMBOL_LIMIT)
+
+          const symbols = await listSymbols(market, assetClass, exchange, query)
+          if (symbols.length === 0) return err(`No ${assetClass} symbols found on ${exchange}${query ? ` matching "${query}"` : ""}.`)
+          const shown = symbols.slice(0, limit)
+          const more = symbols.length > shown.length ? `\n…and ${symbols.length - shown.length} more` : ""
+          return respond(outputFormat(args), {
+            text: `${exchange} ${assetClass} pairs${query ? ` matching "${query}"` : ""}:\n${shown.map((s) => `${s.symbol} - ${s.description}`).join("\n")}${more}`,
+            data: { assetClass, exchange, total: symbols.length, symbols: shown },
+            table: recordsTable(shown),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,314 @@
+/**
+ * Provider-neutral market data shapes.
+ * Every provider maps its own responses onto these so tools and routes
+ * never depend on a particular upstream API.
+ */
+
+export interface Quote {
+  symbol: string
+  price: number
+  change: number
+  changePercent: number
+  high: number
+  low: number
+  open: number
+  previousClose: number
+  timestamp: number // unix seconds of the last trade
+}
+
+export type CandleResolution = "1" | "5" | "15" | "30" | "60" | "D" | "W" | "M"
+
+export interface Candle {
+  time: number // unix seconds of the bar open
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface CompanyProfile {
+  symbol: string
+  name: string
+  exchange: string
+  industry: string
+  country: string
+  currency: string
+  ipo: string
+  logo: string
+  marketCap: number // absolute, in `currency`
+  sharesOutstanding: number // absolute share count
+  website: string
+  phone: string
+}
+
+/** Crypto and forex pairs trade on their own venues, as `EXCHANGE:PAIR` symbols. */
+export type InstrumentClass = "crypto" | "forex"
+export type AssetClass = "stock" | InstrumentClass
+
+export interface SymbolMatch {
+  symbol: string
+  displaySymbol: string
+  description: string
+  type: string
+}
+
+export interface NewsItem {
+  id: string
+  datetime: number // unix seconds
+  headline: string
+  summary: string
+  source: string
+  url: string
+  image: string
+  category: string
+  related: string
+  sentiment: number | null // -1 (bearish) to 1 (bullish), when the provider scores articles
+}
+
+export interface NewsQuery {
+  symbol?: string
+  category?: string
+  from?: string // YYYY-MM-DD
+  to?: string   // YYYY-MM-DD
+}
+
+export interface NewsSentiment {
+  symbol: string
+  score: number // -1 (bearish) to 1 (bullish)
+  bullishPercent: number | null
+  bearishPercent: number | null
+  articles: number | null // articles over the last week
+  buzz: number | null // last week's article count relative to the usual weekly count (1 = normal)
+}
+
+/**
+ * Financial metrics keyed by Finnhub's `/stock/metric` field names
+ * (`peTTM`, `52WeekHigh`, `beta`, ...). Other providers translate onto
+ * the same keys. Monetary totals are in millions, as Finnhub reports them.
+ */
+export type Metrics = Record<string, number | null>
+
+export type MarketSession = "pre" | "regular" | "break" | "post" | "closed"
+
+export interface MarketStatus {
+  exchange: string
+  session: MarketSession
+  holiday: string | null // holiday name when the exchange observes one today
+  timestamp: number // unix seconds
+}
+
+export interface MarketHoliday {
+  exchange: string
+  date: string // YYYY-MM-DD
+  name: string
+  tradingHours: string // "" when closed all day, else local hours like "09:30-13:00"
+}
+
+export interface FxRate {
+  from: string // ISO 4217 code
+  to: string
+  rate: number // units of `to` per unit of `from`
+  timestamp: number // unix seconds
+}
+
+export interface CalendarQuery {
+  from: string // YYYY-MM-DD
+  to: string   // YYYY-MM-DD
+  symbol?: string
+}
+
+export interface EarningsEvent {
+  symbol: string
+  date: string // YYYY-MM-DD report date
+  hour: string // "bmo" (before open), "amc" (after close), "dmh" (during hours) or ""
+  quarter: number | null
+  year: number | null
+  epsEstimate: number | null
+  epsActual: number | null
+  revenueEstimate: number | null // absolute
+  revenueActual: number | null
+}
+
+export interface EarningsSurprise {
+  symbol: string
+  period: string // fiscal period end, YYYY-MM-DD
+  quarter: number | null
+  year: number | null
+  actual: number | null
+  estimate: number | null
+  surprise: number | null
+  surprisePercent: number | null
+}
+
+export interface IpoEvent {
+  symbol: string
+  name: string
+  date: string // YYYY-MM-DD
+  exchange: string
+  status: string // "expected", "priced", "filed", "withdrawn" or ""
+  priceLow: number | null
+  priceHigh: number | null
+  shares: number | null
+  totalValue: number | null
+}
+
+export interface EconomicEvent {
+  time: string // ISO timestamp
+  country: string
+  event: string
+  impact: string // "low", "medium", "high" or ""
+  actual: number | null
+  estimate: number | null
+  previous: number | null
+  unit: string
+}
+
+export type StatementPeriod = "annual" | "quarterly"
+
+/**
+ * Normalized statement line items, absolute amounts in the filing currency
+ * (per-share values and share counts as reported). Missing items are omitted.
+ * Cash-flow items are for the period itself, not year-to-date.
+ */
+export interface FinancialItems {
+  // Income statement
+  revenue?: number
+  costOfRevenue?: number
+  grossProfit?: number
+  researchAndDevelopment?: number
+  sellingGeneralAdmin?: number
+  operatingIncome?: number
+  interestExpense?: number
+  pretaxIncome?: number
+  incomeTax?: number
+  netIncome?: number
+  epsBasic?: number
+  epsDiluted?: number
+  sharesDiluted?: number
+  // Balance sheet
+  cash?: number
+  shortTermInvestments?: number
+  currentAssets?: number
+  totalAssets?: number
+  currentLiabilities?: number
+  totalLiabilities?: number
+  shortTermDebt?: number
+  longTermDebt?: number
+  totalEquity?: number
+  // Cash flow (capital expenditure, dividends and buybacks as positive outflows)
+  operatingCashFlow?: number
+  capitalExpenditure?: number
+  dividendsPaid?: number
+  shareRepurchase?: number
+}
+
+export interface FinancialStatement {
+  symbol: string
+  period: StatementPeriod
+  fiscalYear: number
+  fiscalQuarter: number | null // null for annual statements
+  endDate: string // YYYY-MM-DD
+  filedDate: string | null
+  form: string // "10-K", "10-Q", ... or "" when unknown
+  currency: string
+  items: FinancialItems
+}
+
+export interface RecommendationTrend {
+  period: string // YYYY-MM-DD, first day of the month
+  strongBuy: number
+  buy: number
+  hold: number
+  sell: number
+  strongSell: number
+}
+
+export interface PriceTarget {
+  symbol: string
+  high: number | null
+  low: number | null
+  mean: number | null
+  median: number | null
+  analysts: number | null
+  updated: string | null // YYYY-MM-DD
+}
+
+export interface RatingChange {
+  symbol: string
+  date: string // YYYY-MM-DD
+  firm: string
+  fromGrade: string
+  toGrade: string
+  action: string // "up", "down", "init", "main" (maintain), "reit" (reiterate)
+}
+
+export interface InsiderTransaction {
+  symbol: string
+  name: string
+  title: string // officer/director title, or "" when the provider doesn't say
+  date: string // YYYY-MM-DD transaction date
+  filedDate: string | null
+  /** Open-market purchase or sale; awards, exercises, gifts and withholding are "other". */
+  type: "buy" | "sell" | "other"
+  code: string // SEC Form 4 transaction code ("P", "S", "M", ...) or "" when unknown
+  change: number // shares, negative when disposed
+  price: number | null
+  sharesHeld: number | null // after the transaction
+  derivative: boolean
+}
+
+export interface InsiderSentiment {
+  period: string // YYYY-MM
+  change: number // net shares bought (+) or sold (-) by insiders
+  mspr: number // monthly share purchase ratio, -100 (all selling) to 100 (all buying)
+}
+
+export type HolderKind = "institution" | "fund"
+
+export interface Holder {
+  name: string
+  shares: number
+  change: number // shares added (+) or cut (-) since the previous filing
+  filedDate: string | null // YYYY-MM-DD
+  portfolioPercent: number | null // share of the holder's own portfolio; funds only
+}
+
+export interface EtfProfile {
+  symbol: string
+  name: string | null
+  issuer: string | null
+  benchmark: string | null // index the fund tracks
+  assetClass: string | null
+  expenseRatio: number | null // percent per year
+  aum: number | null // assets under management, in `currency`
+  nav: number | null
+  currency: string | null
+  inceptionDate: string | null // YYYY-MM-DD
+  dividendYield: number | null // percent
+  leveraged: boolean | null
+  website: string | null
+  description: string | null
+}
+
+export interface EtfHolding {
+  symbol: string | null // null for cash, futures and unlisted positions
+  name: string
+  weight: number // percent of the fund
+  shares: number | null
+  value: number | null
+}
+
+export interface EtfHoldings {
+  symbol: string
+  asOf: string | null // YYYY-MM-DD
+  count: number | null // total constituents, when reported
+  holdings: EtfHolding[] // largest weight first
+}
+
+export type ExposureKind = "sector" | "country"
+
+export interface ExposureWeight {
+  name: string
+  weight: number // percent of the fund
+}
@@ -0,0 +1,276 @@
+/**
+ * News querying shared by `stock_news` and `/news`: multi-symbol fetches,
+ * date/keyword/source filters, folding of syndicated copies of the same
+ * story, and a per-symbol sentiment summary.
+ */
+
+import type { NewsItem, NewsSentiment } from "./models"
+import type { MarketData } from "./providers"
+import { parseDateArg } from "./candles"
+import { InvalidInputError } from "./errors"
+
+const DAY_MS = 86400000
+const DEFAULT_COMPANY_DAYS = 7
+const MAX_RANGE_DAYS = 365
+export const MAX_NEWS_SYMBOLS = 10
+
+export const NEWS_CATEGORIES = ["general", "forex", "crypto", "merger"] as const
+export type NewsCategory = (typeof NEWS_CATEGORIES)[number]
+
+// Headlines sharing this much of their wording are treated as one story
+const DUPLICATE_SIMILARITY = 0.8
+const MIN_DUPLICATE_WORDS = 4
+
+// Scores beyond ±0.15 count as leaning bullish or bearish
+const LEAN_THRESHOLD = 0.15
+const STRONG_THRESHOLD = 0.35
+
+const BULLISH_WORDS = new Set([
+  "beat", "beats", "surge", "surges", "soar", "soars", "jump", "jumps", "rally", "rallies", "gain", "gains",
+  "record", "upgrade", "upgraded", "upgrades", "outperform", "raise", "raises", "raised", "boost", "boosts",
+  "strong", "growth", "profit", "profitable", "bullish", "buy", "expands", "expansion", "approval", "approved",
+  "wins", "win", "tops", "exceeds", "rebound", "rebounds", "breakthrough", "partnership", "dividend", "buyback",
+])
+
+const BEARISH_WORDS = new Set([
+  "miss", "misses", "missed", "plunge", "plunges", "slump", "slumps", "tumble", "tumbles", "drop", "drops",
+  "fall", "falls", "decline", "declines", "loss", "losses", "downgrade", "downgraded", "downgrades", "cut",
+  "cuts", "weak", "weaker", "bearish", "sell", "selloff", "lawsuit", "sues", "probe", "investigation", "fraud",
+  "recall", "layoffs", "layoff", "bankruptcy", "warns", "warning", "delay", "delays", "halt", "halts", "fine",
+])
+
+export interface NewsFilter {
+  symbols: string[]
+  category: NewsCategory
+  from: string | null // YYYY-MM-DD
+  to: string | null
+  keywords: string[]
+  sources: string[]
+}
+
+export interface NewsStory extends NewsItem {
+  /** Symbols whose company news carried the story. */
+  symbols: string[]
+  /** Other outlets that ran a near-identical headline. */
+  otherSources: string[]
+}
+
+export interface SentimentSummary extends NewsSentiment {
+  label: string
+  /** "provider" for the provider's sentiment endpoint, "lexicon" when scored from headlines here. */
+  method: "provider" | "lexicon"
+}
+
+export interface NewsResult {
+  filter: NewsFilter
+  stories: NewsStory[]
+  /** Articles before filtering and deduplication. */
+  fetched: number
+  sentiment: SentimentSummary[]
+  /** Symbols whose news couldn't be fetched, with the reason. */
+  errors: Record<string, string>
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0]
+}
+
+/** A list argument given as an array or a comma-separated string. */
+export function listArg(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : []
+  return [...new Set(items.map((v) => String(v).trim()).filter(Boolean))]
+}
+
+export function parseNewsFilter(args: {
+  symbol?: unknown
+  symbols?: unknown
+  category?: unknown
+  from?: unknown
+  to?: unknown
+  keywords?: unknown
+  sources?: unknown
+}): NewsFilter {
+  const symbols = [...new Set([...listArg(args.symbol), ...listArg(args.symbols)].map((s) => s.toUpperCase()))]
+  if (symbols.length > MAX_NEWS_SYMBOLS) throw new InvalidInputError(`At most ${MAX_NEWS_SYMBOLS} symbols per news request.`)
+
+  const category = (args.category ? String(args.category).toLowerCase() : "general") as NewsCategory
+  if (!NEWS_CATEGORIES.includes(category)) throw new InvalidInputError(`category must be one of: ${NEWS_CATEGORIES.join(", ")}`)
+
+  // Company news needs a window; category news is filtered locally only when one is given
+  let to = args.to ? isoDate(parseDateArg(args.to, "to") * 1000) : null
+  let from = args.from ? isoDate(parseDateArg(args.from, "from") * 1000) : null
+  if (symbols.length > 0) {
+    to ??= isoDate(Date.now())
+    from ??= isoDate(Date.parse(to) - DEFAULT_COMPANY_DAYS * DAY_MS)
+  }
+  if (from && to && from > to) throw new InvalidInputError("`from` must not be after `to`.")
+  if (from && to && Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * DAY_MS) {
+    throw new InvalidInputError(`News ranges are limited to ${MAX_RANGE_DAYS} days.`)
+  }
+
+  return {
+    symbols,
+    category,
+    from,
+    to,
+    keywords: listArg(args.keywords).map((k) => k.toLowerCase()),
+    sources: listArg(args.sources).map((s) => s.toLowerCase()),
+  }
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[’']/g, "").split(/[^a-z0-9]+/).filter(Boolean)
+}
+
+/** Headline words, without a trailing " - Outlet" / " | Outlet" attribution. */
+function headlineWords(headline: string): Set<string> {
+  return new Set(words(headline.replace(/\s+[-|–—]\s+[^-|–—]{1,40}$/, "")))
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const w of a) if (b.has(w)) shared++
+  return shared / (a.size + b.size - shared || 1)
+}
+
+function matchesKeywords(item: NewsItem, keywords: string[]): boolean {
+  if (keywords.length === 0) return true
+  const text = ` ${words(`${item.headline} ${item.summary}`).join(" ")} `
+  return keywords.some((k) => text.includes(` ${words(k).join(" ")} `))
+}
+
+function matchesSource(item: NewsItem, sources: string[]): boolean {
+  if (sources.length === 0) return true
+  const source = item.source.toLowerCase()
+  return sources.some((s) => source.includes(s))
+}
+
+/**
+ * Fold syndicated copies into the earliest report of each story, so the
+ * original outlet is kept and the others are listed under `otherSources`.
+ */
+export function dedupeStories(items: Array<NewsItem & { symbols: string[] }>): NewsStory[] {
+  const stories: Array<NewsStory & { words: Set<string> }> = []
+  for (const item of [...items].sort((a, b) => a.datetime - b.datetime)) {
+    const itemWords = headlineWords(item.headline)
+    const same = stories.find(
+      (s) =>
+        s.id === item.id ||
+        s.url === item.url ||
+        (Math.min(s.words.size, itemWords.size) >= MIN_DUPLICATE_WORDS && similarity(s.words, itemWords) >= DUPLICATE_SIMILARITY)
+    )
+    if (!same) {
+      stories.push({ ...item, otherSources: [], words: itemWords })
+      continue
+    }
+    for (const symbol of item.symbols) if (!same.symbols.includes(symbol)) same.symbols.push(symbol)
+    if (item.source !== same.source && !same.otherSources.includes(item.source)) same.otherSources.push(item.source)
+  }
+  return stories.map(({ words: _, ...story }) => story).sort((a, b) => b.datetime - a.datetime)
+}
+
+/** Score a headline and summary from -1 to 1 by counting bullish and bearish words. */
+export function lexiconScore(text: string): number {
+  let bullish = 0
+  let bearish = 0
+  for (const w of words(text)) {
+    if (BULLISH_WORDS.has(w)) bullish++
+    else if (BEARISH_WORDS.has(w)) bearish++
+  }
+  return bullish + bearish === 0 ? 0 : (bullish - bearish) / (bullish + bearish)
+}
+
+export function sentimentLabel(score: number): string {
+  if (score >= STRONG_THRESHOLD) return "Bullish"
+  if (score >= LEAN_THRESHOLD) return "Somewhat bullish"
+  if (score <= -STRONG_THRESHOLD) return "Bearish"
+  if (score <= -LEAN_THRESHOLD) return "Somewhat bearish"
+  return "Neutral"
+}
+
+/** Sentiment from the symbol's own stories, preferring per-article provider scores. */
+function lexiconSentiment(symbol: string, stories: NewsStory[]): SentimentSummary | null {
+  const since = Date.now() / 1000 - DEFAULT_COMPANY_DAYS * 86400
+  const recent = stories.filter((s) => s.symbols.includes(symbol) && s.datetime >= since)
+  if (recent.length === 0) return null
+  const scores = recent.map((s) => s.sentiment ?? lexiconScore(`${s.headline} ${s.summary}`))
+  const score = scores.reduce((sum, n) => sum + n, 0) / scores.length
+  const share = (count: number) => (count / scores.length) * 100
+  return {
+    symbol,
+    score,
+    bullishPercent: share(scores.filter((n) => n >= LEAN_THRESHOLD).length),
+    bearishPercent: share(scores.filter((n) => n <= -LEAN_THRESHOLD).length),
+    articles: recent.length,
+    buzz: null,
+    label: sentimentLabel(score),
+    method: "lexicon",
+  }
+}
+
+async function symbolSentiment(market: MarketData, symbol: string, stories: NewsStory[]): Promise<SentimentSummary | null> {
+  try {
+    const sentiment = await market.newsSentiment(symbol)
+    if (sentiment) return { ...sentiment, label: sentimentLabel(sentiment.score), method: "provider" }
+  } catch {
+    // Paid endpoint or no provider offers it: fall back to scoring headlines
+  }
+  return lexiconSentiment(symbol, stories)
+}
+
+export async function fetchNews(
+  market: MarketData,
+  filter: NewsFilter,
+  options: { limit: number; sentiment?: boolean }
+): Promise<NewsResult> {
+  const { symbols, category, from, to } = filter
+  const requests = symbols.length > 0 ? symbols : [null]
+  const results = await Promise.allSettled(
+    requests.map((symbol) =>
+      symbol ? market.news({ symbol, from: from!, to: to! }) : market.news({ category, from: from ?? undefined, to: to ?? undefined })
+    )
+  )
+
+  const errors: Record<string, string> = {}
+  const items: Array<NewsItem & { symbols: string[] }> = []
+  results.forEach((result, i) => {
+    const symbol = requests[i]
+    if (result.status === "rejected") {
+      errors[symbol ?? category] = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      return
+    }
+    for (const item of result.value) items.push({ ...item, symbols: symbol ? [symbol] : [] })
+  })
+  if (items.length === 0 && results.every((r) => r.status === "rejected")) {
+    throw (results[0] as PromiseRejectedResult).reason
+  }
+
+  const start = from ? Date.parse(from) / 1000 : -Infinity
+  const end = to ? Date.parse(to) / 1000 + 86400 : Infinity
+  const stories = dedupeStories(
+    items.filter(
+      (item) =>
+        item.datetime >= start &&
+        item.datetime < end &&
+        matchesKeywords(item, filter.keywords) &&
+        matchesSource(item, filter.sources)
+    )
+  )
+
+  const sentiment =
+    options.sentiment === false
+      ? []
+      : (await Promise.all(symbols.map((s) => symbolSentiment(market, s, stories)))).filter((s): s is SentimentSummary => !!s)
+
+  return { filter, stories: stories.slice(0, options.limit), fetched: items.length, sentiment, errors }
+}
+
+export function formatSentiment(s: SentimentSummary): string {
+  const parts = [`${s.label} (${s.score >= 0 ? "+" : ""}${s.score.toFixed(2)})`]
+  if (s.bullishPercent != null && s.bearishPercent != null) {
+    parts.push(`${s.bullishPercent.toFixed(0)}% bullish / ${s.bearishPercent.toFixed(0)}% bearish`)
+  }
+  if (s.articles != null) parts.push(`${s.articles} article${s.articles === 1 ? "" : "s"} last week`)
+  if (s.buzz != null) parts.push(`buzz ${s.buzz.toFixed(2)}x normal`)
+  return `  ${s.symbol}: ${parts.join(", ")}${s.method === "lexicon" ? " — scored from headlines" : ""}`
+}
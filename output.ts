@@ -0,0 +1,102 @@
+/**
+ * Tool output formats.
+ * Every tool accepts an optional `format` argument: `text` (the default,
+ * human-readable prose), or `json`, `csv` and `markdown` for agents that
+ * want to chain results without re-parsing strings.
+ */
+
+import type { Candle } from "./models"
+import { toCsv } from "./csv"
+import { ok } from "./format"
+
+export type OutputFormat = "text" | "json" | "csv" | "markdown"
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["text", "json", "csv", "markdown"]
+
+export const formatProp = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description: "Output format: text (default), json, csv, or markdown table",
+}
+
+export interface Table {
+  columns: string[]
+  rows: unknown[][]
+}
+
+export function outputFormat(args: Record<string, unknown>): OutputFormat {
+  const f = String(args.format ?? "").toLowerCase() as OutputFormat
+  return OUTPUT_FORMATS.includes(f) ? f : "text"
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+/** Flatten nested objects into dotted keys; arrays of primitives are joined. */
+function flatten(value: Record<string, unknown>, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const [k, v] of Object.entries(value)) {
+    const key = prefix ? `${prefix}.${k}` : k
+    if (isPlainObject(v)) flatten(v, key, out)
+    else if (Array.isArray(v) && v.every((x) => !isPlainObject(x))) out[key] = v.join(" ")
+    else out[key] = v
+  }
+  return out
+}
+
+/** One row per record, columns from the union of (flattened) keys. */
+export function recordsTable(records: object[], columns?: string[]): Table {
+  const flat = records.map((r) => flatten(r as Record<string, unknown>))
+  const cols = columns ?? [...new Set(flat.flatMap((r) => Object.keys(r)))]
+  return { columns: cols, rows: flat.map((r) => cols.map((c) => r[c] ?? null)) }
+}
+
+/** Two-column field/value table for a single object. */
+export function fieldsTable(record: object): Table {
+  return { columns: ["field", "value"], rows: Object.entries(flatten(record as Record<string, unknown>)) }
+}
+
+function defaultTable(data: unknown): Table {
+  if (Array.isArray(data)) {
+    return data.every(isPlainObject) ? recordsTable(data) : { columns: ["value"], rows: data.map((v) => [v]) }
+  }
+  if (isPlainObject(data)) return fieldsTable(data)
+  return { columns: ["value"], rows: [[data]] }
+}
+
+function markdownCell(value: unknown): string {
+  if (value == null) return ""
+  const s = typeof value === "number" ? String(Number(value.toFixed(6))) : typeof value === "object" ? JSON.stringify(value) : String(value)
+  return s.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+}
+
+export function toMarkdown({ columns, rows }: Table): string {
+  return [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((r) => `| ${r.map(markdownCell).join(" | ")} |`),
+  ].join("\n")
+}
+
+/**
+ * Render a successful tool result. `text` is the prose form; `data` is what
+ * `json` returns and, unless `table` is given, what `csv`/`markdown` tabulate.
+ */
+export function respond(
+  format: OutputFormat,
+  output: { text: string | (() => string); data: unknown; table?: Table | (() => Table) }
+) {
+  if (format === "json") return ok(JSON.stringify(output.data, null, 2))
+  if (format === "text") return ok(typeof output.text === "function" ? output.text() : output.text)
+
+  const table = typeof output.table === "function" ? output.table() : output.table ?? defaultTable(output.data)
+  return ok(format === "csv" ? toCsv(table.columns, table.rows) : toMarkdown(table))
+}
+
+/** OHLCV bars with an ISO timestamp column alongside the unix time. */
+export function candlesTable(candles: Candle[]): Table {
+  return {
+    columns: ["time", "date", "open", "high", "low", "close", "volume"],
+    rows: candles.map((c) => [c.time, new Date(c.time * 1000).toISOString(), c.open, c.high, c.low, c.close, c.volume]),
+  }
+}
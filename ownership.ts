@@ -0,0 +1,413 @@
+/**
+ * `stock_insiders` and `stock_ownership` tools and routes: insider buying
+ * and selling with the monthly sentiment series, and the largest
+ * institutional and fund holders with their latest position changes.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { Holder, HolderKind, InsiderSentiment, InsiderTransaction } from "./models"
+import type { MarketData } from "./providers"
+import type { Currency } from "./currency"
+import { Elysia, t } from "elysia"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err, formatLargeNumber } from "./format"
+import { oneOf, symbolParams } from "./http"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+
+const DAY_MS = 86400000
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 730
+const DEFAULT_MONTHS = 12
+const MAX_MONTHS = 36
+const TOP_INSIDERS = 5
+const RECENT_TRANSACTIONS = 10
+const DEFAULT_HOLDERS = 10
+const MAX_HOLDERS = 50
+
+const HOLDER_TYPES = ["institution", "fund", "all"] as const
+type HolderType = (typeof HOLDER_TYPES)[number]
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0]
+}
+
+function clamp(value: unknown, fallback: number, max: number): number {
+  return Math.min(Math.max(Number(value) || fallback, 1), max)
+}
+
+function reason(result: PromiseSettledResult<unknown>): string | null {
+  if (result.status === "fulfilled") return null
+  return result.reason instanceof Error ? result.reason.message : String(result.reason)
+}
+
+/** `formatLargeNumber` with an explicit sign, for net and change figures. */
+function signedLarge(n: number, format = formatLargeNumber): string {
+  return `${n < 0 ? "-" : "+"}${format(Math.abs(n))}`
+}
+
+// ── Insiders ──
+
+export interface TradeTotals {
+  count: number
+  shares: number
+  value: number
+}
+
+export interface InsiderParty {
+  name: string
+  title: string
+  buys: number
+  sells: number
+  netShares: number
+  netValue: number
+}
+
+export interface InsiderSummary {
+  symbol: string
+  from: string
+  to: string
+  buys: TradeTotals
+  sells: TradeTotals
+  netShares: number
+  netValue: number
+  topInsiders: InsiderParty[]
+  sentiment: InsiderSentiment[]
+  transactions: InsiderTransaction[]
+  /** Sections that failed to load, with the reason. */
+  unavailable: Record<string, string>
+}
+
+function totals(transactions: InsiderTransaction[]): TradeTotals {
+  return transactions.reduce(
+    (sum, tx) => ({
+      count: sum.count + 1,
+      shares: sum.shares + Math.abs(tx.change),
+      value: sum.value + Math.abs(tx.change) * (tx.price ?? 0),
+    }),
+    { count: 0, shares: 0, value: 0 }
+  )
+}
+
+/** Rank insiders by the dollar size of their net open-market trading. */
+function topInsiders(trades: InsiderTransaction[], limit: number): InsiderParty[] {
+  const parties = new Map<string, InsiderParty>()
+  for (const tx of trades) {
+    const party = parties.get(tx.name) ?? { name: tx.name, title: tx.title, buys: 0, sells: 0, netShares: 0, netValue: 0 }
+    if (tx.type === "buy") party.buys++
+    else party.sells++
+    party.netShares += tx.change
+    party.netValue += tx.change * (tx.price ?? 0)
+    party.title ||= tx.title
+    parties.set(tx.name, party)
+  }
+  return [...parties.values()].sort((a, b) => Math.abs(b.netValue) - Math.abs(a.netValue)).slice(0, limit)
+}
+
+export async function fetchInsiders(
+  market: MarketData,
+  symbol: string,
+  options: { days?: number; months?: number } = {}
+): Promise<InsiderSummary> {
+  const now = Date.now()
+  const to = isoDate(now)
+  const from = isoDate(now - (options.days ?? DEFAULT_DAYS) * DAY_MS)
+  const start = new Date(now)
+  start.setUTCDate(1)
+  start.setUTCMonth(start.getUTCMonth() - (options.months ?? DEFAULT_MONTHS) + 1)
+
+  const [transactions, sentiment] = await Promise.allSettled([
+    market.insiderTransactions(symbol, from, to),
+    market.insiderSentiment(symbol, isoDate(start.getTime()), to),
+  ])
+  if (transactions.status === "rejected" && sentiment.status === "rejected") throw transactions.reason
+
+  const unavailable: Record<string, string> = {}
+  for (const [name, result] of Object.entries({ transactions, sentiment })) {
+    const why = reason(result)
+    if (why) unavailable[name] = why
+  }
+
+  const txs = transactions.status === "fulfilled" ? transactions.value : []
+  const series = sentiment.status === "fulfilled" ? sentiment.value : []
+  if (txs.length === 0 && series.length === 0 && Object.keys(unavailable).length === 0) {
+    throw new NotFoundError(`No insider activity found for "${symbol}" since ${from}.`)
+  }
+
+  // Net figures count open-market trades only; awards and exercises would swamp them
+  const trades = txs.filter((tx) => tx.type !== "other" && !tx.derivative)
+  const buys = totals(trades.filter((tx) => tx.type === "buy"))
+  const sells = totals(trades.filter((tx) => tx.type === "sell"))
+
+  return {
+    symbol,
+    from,
+    to,
+    buys,
+    sells,
+    netShares: buys.shares - sells.shares,
+    netValue: buys.value - sells.value,
+    topInsiders: topInsiders(trades, TOP_INSIDERS),
+    sentiment: series,
+    transactions: txs,
+    unavailable,
+  }
+}
+
+/** Formatters for an insider summary's money, in the listing's currency. */
+interface InsiderMoney {
+  price: (amount: number) => string
+  total: (amount: number) => string
+}
+
+function totalsLine(label: string, t: TradeTotals, money: InsiderMoney): string {
+  if (t.count === 0) return `${label}: none`
+  const value = t.value > 0 ? `, ${money.total(t.value)}` : ""
+  return `${label}: ${t.count} transaction${t.count === 1 ? "" : "s"}, ${formatLargeNumber(t.shares)} shares${value}`
+}
+
+function formatTransaction(tx: InsiderTransaction, money: InsiderMoney): string {
+  const verb = tx.type === "other" ? (tx.change >= 0 ? "acquired" : "disposed") : tx.type === "buy" ? "bought" : "sold"
+  const price = tx.price ? ` @ ${money.price(tx.price)}` : ""
+  const code = tx.code ? ` [${tx.code}]` : ""
+  return `  ${tx.date} ${tx.name} ${verb} ${formatLargeNumber(Math.abs(tx.change))}${price}${code}`
+}
+
+function formatInsiders(s: InsiderSummary, money: InsiderMoney): string {
+  const lines = [
+    `${s.symbol} Insider Activity (${s.from} to ${s.to})`,
+    ``,
+    totalsLine("Buys", s.buys, money),
+    totalsLine("Sells", s.sells, money),
+    `Net: ${signedLarge(s.netShares)} shares, ${signedLarge(s.netValue, money.total)}`,
+  ]
+
+  if (s.topInsiders.length > 0) {
+    lines.push(``, `Top insiders:`)
+    for (const p of s.topInsiders) {
+      const who = p.title ? `${p.name} (${p.title})` : p.name
+      const trades = [p.buys ? `${p.buys} buy${p.buys === 1 ? "" : "s"}` : "", p.sells ? `${p.sells} sale${p.sells === 1 ? "" : "s"}` : ""]
+      lines.push(`  ${who}: ${signedLarge(p.netShares)} shares, ${signedLarge(p.netValue, money.total)} (${trades.filter(Boolean).join(", ")})`)
+    }
+  }
+
+  if (s.sentiment.length > 0) {
+    lines.push(``, `Insider sentiment (MSPR, -100 all selling to +100 all buying):`)
+    for (const m of s.sentiment) {
+      const mspr = `${m.mspr >= 0 ? "+" : ""}${m.mspr.toFixed(1)}`
+      lines.push(`  ${m.period}  ${mspr.padStart(6)}  net ${signedLarge(m.change)} shares`)
+    }
+  }
+
+  if (s.transactions.length > 0) {
+    const shown = s.transactions.slice(0, RECENT_TRANSACTIONS)
+    const more = s.transactions.length > shown.length ? `\n  … and ${s.transactions.length - shown.length} more` : ""
+    lines.push(``, `Recent filings:`, shown.map((tx) => formatTransaction(tx, money)).join("\n") + more)
+  }
+
+  const missing = Object.entries(s.unavailable)
+  if (missing.length > 0) lines.push(``, `Unavailable:`, ...missing.map(([name, why]) => `  ${name}: ${why}`))
+  return lines.join("\n")
+}
+
+// ── Ownership ──
+
+export interface HolderRow extends Holder {
+  kind: HolderKind
+  percentOfShares: number | null // of shares outstanding
+  changePercent: number | null // versus the position before the change
+}
+
+export interface OwnershipSummary {
+  symbol: string
+  sharesOutstanding: number | null
+  institutions: HolderRow[]
+  funds: HolderRow[]
+  /** Sections that failed to load, with the reason. */
+  unavailable: Record<string, string>
+}
+
+function holderRows(holders: Holder[], kind: HolderKind, sharesOutstanding: number | null): HolderRow[] {
+  return holders.map((h) => {
+    const before = h.shares - h.change
+    return {
+      ...h,
+      kind,
+      percentOfShares: sharesOutstanding ? (h.shares / sharesOutstanding) * 100 : null,
+      changePercent: before > 0 ? (h.change / before) * 100 : null,
+    }
+  })
+}
+
+export async function fetchOwnership(
+  market: MarketData,
+  symbol: string,
+  options: { type?: HolderType; limit?: number } = {}
+): Promise<OwnershipSummary> {
+  const type = options.type ?? "all"
+  const limit = options.limit ?? DEFAULT_HOLDERS
+  const skip = Promise.resolve([] as Holder[])
+  const [profile, institutions, funds] = await Promise.allSettled([
+    market.profile(symbol),
+    type === "fund" ? skip : market.holders(symbol, "institution", limit),
+    type === "institution" ? skip : market.holders(symbol, "fund", limit),
+  ])
+
+  const requested = Object.entries({ institutions, funds }).filter(([name]) => type === "all" || name === `${type}s`)
+  const failed = requested.filter(([, r]) => r.status === "rejected")
+  if (failed.length === requested.length) throw (failed[0][1] as PromiseRejectedResult).reason
+
+  const unavailable: Record<string, string> = {}
+  for (const [name, result] of failed) unavailable[name] = reason(result)!
+
+  // Profile share counts are absolute; without one, holdings go unweighted
+  const sharesOutstanding = profile.status === "fulfilled" && profile.value?.sharesOutstanding ? profile.value.sharesOutstanding : null
+  const summary: OwnershipSummary = {
+    symbol,
+    sharesOutstanding,
+    institutions: institutions.status === "fulfilled" ? holderRows(institutions.value, "institution", sharesOutstanding) : [],
+    funds: funds.status === "fulfilled" ? holderRows(funds.value, "fund", sharesOutstanding) : [],
+    unavailable,
+  }
+  if (summary.institutions.length === 0 && summary.funds.length === 0 && failed.length === 0) {
+    throw new NotFoundError(`No ownership data found for "${symbol}".`)
+  }
+  return summary
+}
+
+function formatHolder(h: HolderRow, rank: number): string {
+  const pct = h.percentOfShares != null ? ` (${h.percentOfShares.toFixed(2)}%)` : ""
+  const change =
+    h.change === 0
+      ? "unchanged"
+      : `${signedLarge(h.change)}${h.changePercent != null ? ` (${h.changePercent >= 0 ? "+" : ""}${h.changePercent.toFixed(1)}%)` : " new"}`
+  const filed = h.filedDate ? `, filed ${h.filedDate}` : ""
+  return `  ${String(rank).padStart(2)}. ${h.name}: ${formatLargeNumber(h.shares)} shares${pct}, ${change}${filed}`
+}
+
+function holderSection(title: string, rows: HolderRow[]): string[] {
+  if (rows.length === 0) return []
+  const held = rows.reduce((sum, h) => sum + h.shares, 0)
+  const pct = rows.every((h) => h.percentOfShares != null)
+    ? `, ${rows.reduce((sum, h) => sum + h.percentOfShares!, 0).toFixed(1)}% of shares`
+    : ""
+  const net = rows.reduce((sum, h) => sum + h.change, 0)
+  return [
+    ``,
+    `${title} (top ${rows.length} hold ${formatLargeNumber(held)} shares${pct}; net ${signedLarge(net)} since prior filings):`,
+    ...rows.map((h, i) => formatHolder(h, i + 1)),
+  ]
+}
+
+function formatOwnership(s: OwnershipSummary): string {
+  const lines = [`${s.symbol} Ownership`]
+  if (s.sharesOutstanding) lines.push(`Shares Outstanding: ${formatLargeNumber(s.sharesOutstanding)}`)
+  lines.push(...holderSection("Institutional holders", s.institutions), ...holderSection("Fund holders", s.funds))
+  const missing = Object.entries(s.unavailable)
+  if (missing.length > 0) lines.push(``, `Unavailable:`, ...missing.map(([name, why]) => `  ${name}: ${why}`))
+  return lines.join("\n")
+}
+
+function holderType(value: unknown): HolderType {
+  if (value == null || value === "") return "all"
+  if (!HOLDER_TYPES.includes(value as HolderType)) throw new InvalidInputError(`type must be one of: ${HOLDER_TYPES.join(", ")}`)
+  return value as HolderType
+}
+
+export function ownershipRoutes(market: MarketData) {
+  return new Elysia()
+    .get("/insiders/:symbol", ({ params, query }) =>
+      fetchInsiders(market, params.symbol.toUpperCase(), { days: query.days, months: query.months }), {
+      params: symbolParams,
+      query: t.Object({
+        days: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_DAYS })),
+        months: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_MONTHS })),
+      }),
+    })
+
+    .get("/ownership/:symbol", ({ params, query }) =>
+      fetchOwnership(market, params.symbol.toUpperCase(), { type: query.type, limit: query.limit }), {
+      params: symbolParams,
+      query: t.Object({
+        type: t.Optional(oneOf("type", HOLDER_TYPES)),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_HOLDERS })),
+      }),
+    })
+}
+
+export function ownershipTools(market: MarketData, currency: Currency): PluginToolDefinition[] {
+  return [
+    // ── Insider Activity ──
+    {
+      definition: {
+        name: "stock_insiders",
+        description:
+          "Insider buying and selling for a stock: open-market buy/sell totals, net shares and value, the most active insiders, " +
+          "recent Form 4 filings, and the monthly insider sentiment (MSPR) series.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            days: { type: "number", description: `Transaction window in days (default: ${DEFAULT_DAYS}, max: ${MAX_DAYS})` },
+            months: { type: "number", description: `Months of insider sentiment (default: ${DEFAULT_MONTHS}, max: ${MAX_MONTHS})` },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const summary = await fetchInsiders(market, symbol, {
+            days: clamp(args.days, DEFAULT_DAYS, MAX_DAYS),
+            months: clamp(args.months, DEFAULT_MONTHS, MAX_MONTHS),
+          })
+          const code = await currency.instrumentCurrency(symbol)
+          const money = { price: (n: number) => currency.format(n, code), total: (n: number) => currency.formatLarge(n, code) }
+          return respond(outputFormat(args), {
+            text: () => formatInsiders(summary, money),
+            data: summary,
+            table: () => recordsTable(summary.transactions),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Institutional Ownership ──
+    {
+      definition: {
+        name: "stock_ownership",
+        description:
+          "Largest institutional and mutual fund holders of a stock, with shares held, % of shares outstanding " +
+          "and the position change since their previous filing.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            type: { type: "string", enum: HOLDER_TYPES, description: "Holder type (default: all)" },
+            limit: { type: "number", description: `Holders per type (default: ${DEFAULT_HOLDERS}, max: ${MAX_HOLDERS})` },
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const summary = await fetchOwnership(market, symbol, {
+            type: holderType(args.type),
+            limit: clamp(args.limit, DEFAULT_HOLDERS, MAX_HOLDERS),
+          })
+          return respond(outputFormat(args), {
+            text: () => formatOwnership(summary),
+            data: summary,
+            table: () => recordsTable([...summary.institutions, ...summary.funds]),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,898 @@
+/**
+ * Portfolio tracking: trades grouped into accounts, FIFO lot accounting,
+ * P&L against live quotes and time-weighted return from daily candles.
+ */
+
+import type { PluginContext, PluginToolDefinition } from "./types"
+import type { MarketDataProvider } from "./providers"
+import { Elysia, t } from "elysia"
+import { parseCsv } from "./csv"
+import { currencyCode, DEFAULT_CURRENCY, type Currency } from "./currency"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err, ok } from "./format"
+import { oneOf } from "./http"
+import { formatProp, outputFormat, recordsTable, respond } from "./output"
+import { openStore } from "./store"
+
+export type TradeSide = "buy" | "sell"
+
+export interface Trade {
+  id: string
+  account: string
+  symbol: string
+  side: TradeSide
+  date: string // YYYY-MM-DD
+  quantity: number
+  price: number
+  fees: number
+  createdAt: string
+}
+
+export interface TradeInput {
+  account?: string
+  symbol: string
+  side: TradeSide
+  date?: string
+  quantity: number
+  price: number
+  fees?: number
+}
+
+export interface Lot {
+  date: string
+  quantity: number
+  costPerShare: number // includes buy fees
+}
+
+export interface Position {
+  account: string
+  symbol: string
+  quantity: number
+  costBasis: number
+  realizedPnl: number
+  lots: Lot[]
+}
+
+export interface Portfolio {
+  trades(account?: string): Trade[]
+  accounts(): string[]
+  addTrade(input: TradeInput): Trade
+  importTrades(inputs: TradeInput[]): Trade[]
+  removeTrade(id: string): void
+}
+
+const DEFAULT_ACCOUNT = "default"
+const EPSILON = 1e-9
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function byDate(a: Trade, b: Trade): number {
+  return a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+}
+
+/** Replay trades in date order with FIFO lot matching. Throws if a sell exceeds the shares held. */
+export function buildPositions(trades: Trade[]): Position[] {
+  const positions = new Map<string, Position>()
+
+  for (const trade of [...trades].sort(byDate)) {
+    const key = `${trade.account}\u0000${trade.symbol}`
+    let pos = positions.get(key)
+    if (!pos) {
+      pos = { account: trade.account, symbol: trade.symbol, quantity: 0, costBasis: 0, realizedPnl: 0, lots: [] }
+      positions.set(key, pos)
+    }
+
+    if (trade.side === "buy") {
+      const cost = trade.quantity * trade.price + trade.fees
+      pos.lots.push({ date: trade.date, quantity: trade.quantity, costPerShare: cost / trade.quantity })
+      pos.quantity += trade.quantity
+      pos.costBasis += cost
+      continue
+    }
+
+    if (trade.quantity > pos.quantity + EPSILON) {
+      throw new InvalidInputError(
+        `Cannot sell ${trade.quantity} ${trade.symbol} on ${trade.date} in account "${trade.account}": only ${pos.quantity} held.`
+      )
+    }
+
+    let remaining = trade.quantity
+    let matchedCost = 0
+    while (remaining > EPSILON) {
+      const lot = pos.lots[0]
+      const used = Math.min(lot.quantity, remaining)
+      matchedCost += used * lot.costPerShare
+      lot.quantity -= used
+      remaining -= used
+      if (lot.quantity <= EPSILON) pos.lots.shift()
+    }
+    pos.quantity -= trade.quantity
+    pos.costBasis -= matchedCost
+    pos.realizedPnl += trade.quantity * trade.price - trade.fees - matchedCost
+  }
+
+  return [...positions.values()]
+}
+
+function normalizeTrade(input: TradeInput): Omit<Trade, "id" | "createdAt"> {
+  const symbol = input.symbol?.trim().toUpperCase()
+  if (!symbol) throw new InvalidInputError("Trade symbol is required.")
+  if (input.side !== "buy" && input.side !== "sell") throw new InvalidInputError(`Trade side must be "buy" or "sell".`)
+  if (!(input.quantity > 0)) throw new InvalidInputError("Trade quantity must be positive.")
+  if (!(input.price >= 0)) throw new InvalidInputError("Trade price must be zero or positive.")
+  const date = input.date || today()
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    throw new InvalidInputError(`Invalid trade date "${date}". Use YYYY-MM-DD.`)
+  }
+  return {
+    account: input.account?.trim() || DEFAULT_ACCOUNT,
+    symbol,
+    side: input.side,
+    date,
+    quantity: input.quantity,
+    price: input.price,
+    fees: Math.max(input.fees ?? 0, 0),
+  }
+}
+
+export function createPortfolio(ctx: PluginContext): Portfolio {
+  const store = openStore(ctx, "portfolio")
+
+  const all = () => store.list<Trade>("trade:").map((e) => e.value).sort(byDate)
+
+  function insert(inputs: TradeInput[]): Trade[] {
+    const normalized = inputs.map(normalizeTrade)
+    // Same-day trades replay in entry order. Broker exports often list the
+    // newest trade first, so such a file is entered bottom-up.
+    const newestFirst = normalized.length > 1 && normalized[0].date > normalized[normalized.length - 1].date
+    const start = Date.now()
+    const added = normalized.map((trade, i) => ({
+      ...trade,
+      id: crypto.randomUUID().slice(0, 8),
+      createdAt: new Date(start + (newestFirst ? normalized.length - 1 - i : i)).toISOString(),
+    }))
+    // Validate the whole set before writing anything
+    buildPositions([...all(), ...added])
+    for (const trade of added) store.set(`trade:${trade.id}`, trade)
+    return added
+  }
+
+  return {
+    trades: (account) => all().filter((t) => !account || t.account === account),
+
+    accounts: () => [...new Set(all().map((t) => t.account))].sort(),
+
+    addTrade: (input) => insert([input])[0],
+
+    importTrades: (inputs) => insert(inputs),
+
+    removeTrade(id) {
+      const trade = store.get<Trade>(`trade:${id}`)
+      if (!trade) throw new NotFoundError(`Trade "${id}" not found.`)
+      buildPositions(all().filter((t) => t.id !== id))
+      store.delete(`trade:${id}`)
+    },
+  }
+}
+
+// ── CSV import ──
+
+const COLUMNS: Record<string, string[]> = {
+  date: ["tradedate", "date", "rundate", "activitydate", "transactiondate", "settlementdate"],
+  symbol: ["symbol", "ticker", "instrument", "security"],
+  side: ["action", "side", "transcode", "transactiontype", "type", "activity", "description"],
+  quantity: ["quantity", "qty", "shares", "units"],
+  price: ["price", "tradeprice", "executionprice", "pricepershare"],
+  fees: ["fees", "commission", "commissions", "feescomm", "fee"],
+}
+
+function normalizeHeader(h: string): string {
+  return h.toLowerCase().replace(/[^a-z]/g, "")
+}
+
+function findColumn(headers: string[], candidates: string[]): number {
+  for (const c of candidates) {
+    const i = headers.indexOf(c)
+    if (i >= 0) return i
+  }
+  for (const c of candidates) {
+    const i = headers.findIndex((h) => h.startsWith(c))
+    if (i >= 0) return i
+  }
+  return -1
+}
+
+function parseNumber(raw: string | undefined): number | null {
+  if (raw == null) return null
+  let s = raw.trim().replace(/[$,\s]/g, "")
+  let sign = 1
+  if (/^\(.*\)$/.test(s)) {
+    sign = -1
+    s = s.slice(1, -1)
+  }
+  if (s === "") return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n * sign : null
+}
+
+function parseDate(raw: string | undefined): string | null {
+  const s = raw?.trim() ?? ""
+  let m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (m) return `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`
+  m = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/)
+  if (m) {
+    const year = m[3].length === 2 ? `20${m[3]}` : m[3]
+    return `${year}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`
+  }
+  return null
+}
+
+function parseSide(raw: string | undefined, quantity: number): TradeSide | null {
+  const s = (raw ?? "").toLowerCase()
+  if (/\b(buy|bought|purchase|reinvest)/.test(s)) return "buy"
+  if (/\b(sell|sold)/.test(s)) return "sell"
+  if (!s.trim()) return quantity < 0 ? "sell" : quantity > 0 ? "buy" : null
+  return null
+}
+
+/**
+ * Parse a broker trade export. Columns are matched by common header names
+ * (Date/Trade Date, Symbol, Action/Side, Quantity, Price, Fees/Commission);
+ * rows that aren't buys or sells (dividends, transfers, ...) are skipped.
+ */
+export function parseTradesCsv(text: string, account?: string): { trades: TradeInput[]; skipped: number } {
+  const rows = parseCsv(text)
+  const headerIndex = rows.findIndex((r) => {
+    const headers = r.map(normalizeHeader)
+    return findColumn(headers, COLUMNS.symbol) >= 0 && findColumn(headers, COLUMNS.quantity) >= 0
+  })
+  if (headerIndex < 0) throw new InvalidInputError("CSV needs a header row with at least Symbol and Quantity columns.")
+
+  const headers = rows[headerIndex].map(normalizeHeader)
+  const col = Object.fromEntries(Object.entries(COLUMNS).map(([name, c]) => [name, findColumn(headers, c)]))
+  if (col.price < 0) throw new InvalidInputError("CSV needs a Price column.")
+
+  const trades: TradeInput[] = []
+  let skipped = 0
+  for (const row of rows.slice(headerIndex + 1)) {
+    const quantity = parseNumber(row[col.quantity])
+    const price = parseNumber(row[col.price])
+    const symbol = row[col.symbol]?.trim()
+    const side = quantity != null ? parseSide(col.side >= 0 ? row[col.side] : "", quantity) : null
+    if (!symbol || !side || quantity == null || quantity === 0 || price == null) {
+      skipped++
+      continue
+    }
+    trades.push({
+      account,
+      symbol,
+      side,
+      date: (col.date >= 0 ? parseDate(row[col.date]) : null) ?? today(),
+      quantity: Math.abs(quantity),
+      price: Math.abs(price),
+      fees: col.fees >= 0 ? Math.abs(parseNumber(row[col.fees]) ?? 0) : 0,
+    })
+  }
+  return { trades, skipped }
+}
+
+// ── Currencies ──
+
+interface PortfolioFx {
+  base: string
+  currencyOf(symbol: string): string
+  /** Rate from the symbol's trading currency into `base`. */
+  rateOf(symbol: string): number
+}
+
+/**
+ * Trading currency of each symbol and its current rate into the base
+ * currency: `requested`, else the display currency setting, else the
+ * listings' own when they all share one, else USD.
+ */
+async function portfolioFx(currency: Currency, symbols: string[], requested?: string): Promise<PortfolioFx> {
+  const natives = new Map(await Promise.all(symbols.map(async (s) => [s, await currency.instrumentCurrency(s)] as const)))
+  const distinct = [...new Set(natives.values())]
+  const base = requested ?? currency.displayCurrency() ?? (distinct.length === 1 ? distinct[0] : DEFAULT_CURRENCY)
+  const rates = new Map(await Promise.all(distinct.map(async (c) => [c, (await currency.rate(c, base)).rate] as const)))
+  return {
+    base,
+    currencyOf: (symbol) => natives.get(symbol) ?? base,
+    rateOf: (symbol) => rates.get(natives.get(symbol) ?? base) ?? 1,
+  }
+}
+
+// ── Summary ──
+
+/** Per-holding money values are in the holding's own `currency`. */
+export interface HoldingSummary {
+  account: string
+  symbol: string
+  currency: string
+  /** Current rate from `currency` into the summary's currency. */
+  fxRate: number
+  quantity: number
+  avgCost: number
+  costBasis: number
+  price: number | null
+  marketValue: number
+  unrealizedPnl: number
+  unrealizedPct: number
+  dayChange: number
+  realizedPnl: number
+  industry: string
+}
+
+/** Totals and allocation are in `currency`, with holdings converted at current rates. */
+export interface PortfolioSummary {
+  account: string | null
+  currency: string
+  holdings: HoldingSummary[]
+  closedRealizedPnl: number
+  totals: {
+    marketValue: number
+    costBasis: number
+    unrealizedPnl: number
+    realizedPnl: number
+    dayChange: number
+    dayChangePct: number
+  }
+  allocation: Array<{ industry: string; marketValue: number; weight: number }>
+}
+
+export async function summarizePortfolio(
+  market: MarketDataProvider,
+  currency: Currency,
+  trades: Trade[],
+  options: { account?: string | null; currency?: string } = {}
+): Promise<PortfolioSummary> {
+  const positions = buildPositions(trades)
+  const open = positions.filter((p) => p.quantity > EPSILON)
+  const symbols = [...new Set(open.map((p) => p.symbol))]
+  const fx = await portfolioFx(currency, [...new Set(positions.map((p) => p.symbol))], options.currency)
+
+  const info = new Map(
+    await Promise.all(
+      symbols.map(async (symbol) => {
+        const [quote, profile] = await Promise.all([
+          market.quote(symbol).catch(() => null),
+          market.profile(symbol).catch(() => null),
+        ])
+        return [symbol, { quote, industry: profile?.industry || "Other" }] as const
+      })
+    )
+  )
+
+  const holdings = open.map((p): HoldingSummary => {
+    const { quote, industry } = info.get(p.symbol)!
+    const price = quote?.price ?? null
+    const marketValue = price != null ? p.quantity * price : p.costBasis
+    return {
+      account: p.account,
+      symbol: p.symbol,
+      currency: fx.currencyOf(p.symbol),
+      fxRate: fx.rateOf(p.symbol),
+      quantity: p.quantity,
+      avgCost: p.costBasis / p.quantity,
+      costBasis: p.costBasis,
+      price,
+      marketValue,
+      unrealizedPnl: marketValue - p.costBasis,
+      unrealizedPct: p.costBasis ? ((marketValue - p.costBasis) / p.costBasis) * 100 : 0,
+      dayChange: quote ? p.quantity * quote.change : 0,
+      realizedPnl: p.realizedPnl,
+      industry,
+    }
+  })
+  holdings.sort((a, b) => b.marketValue * b.fxRate - a.marketValue * a.fxRate)
+
+  const sum = (f: (h: HoldingSummary) => number) => holdings.reduce((acc, h) => acc + f(h) * h.fxRate, 0)
+  const marketValue = sum((h) => h.marketValue)
+  const dayChange = sum((h) => h.dayChange)
+  const closedRealizedPnl = positions
+    .filter((p) => p.quantity <= EPSILON)
+    .reduce((acc, p) => acc + p.realizedPnl * fx.rateOf(p.symbol), 0)
+
+  const byIndustry = new Map<string, number>()
+  for (const h of holdings) byIndustry.set(h.industry, (byIndustry.get(h.industry) || 0) + h.marketValue * h.fxRate)
+  const allocation = [...byIndustry.entries()]
+    .map(([industry, value]) => ({ industry, marketValue: value, weight: marketValue ? (value / marketValue) * 100 : 0 }))
+    .sort((a, b) => b.marketValue - a.marketValue)
+
+  return {
+    account: options.account ?? null,
+    currency: fx.base,
+    holdings,
+    closedRealizedPnl,
+    totals: {
+      marketValue,
+      costBasis: sum((h) => h.costBasis),
+      unrealizedPnl: sum((h) => h.unrealizedPnl),
+      realizedPnl: sum((h) => h.realizedPnl) + closedRealizedPnl,
+      dayChange,
+      dayChangePct: marketValue - dayChange ? (dayChange / (marketValue - dayChange)) * 100 : 0,
+    },
+    allocation,
+  }
+}
+
+// ── Performance ──
+
+export interface PerformancePoint {
+  date: string
+  value: number
+  netFlow: number
+  dailyReturn: number | null
+}
+
+/** Values are in `currency`, with each listing converted at the current rate. */
+export interface PortfolioPerformance {
+  account: string | null
+  currency: string
+  from: string
+  to: string
+  twr: number // percent
+  annualizedTwr: number | null // percent, only for periods of a year or more
+  startValue: number
+  endValue: number
+  netFlows: number
+  gain: number
+  series: PerformancePoint[]
+  /** Symbols whose price history failed to load; they're valued at their last trade price. */
+  unavailable: Record<string, string>
+}
+
+/**
+ * Time-weighted return from daily closes. Buys count as contributions and
+ * sells as withdrawals on their trade date, so the figure reflects holdings
+ * performance rather than the timing of deposits.
+ */
+export async function portfolioPerformance(
+  market: MarketDataProvider,
+  currency: Currency,
+  trades: Trade[],
+  options: { account?: string | null; from?: string; currency?: string } = {}
+): Promise<PortfolioPerformance> {
+  const sorted = [...trades].sort(byDate)
+  if (sorted.length === 0) throw new NotFoundError("No trades recorded yet. Add some with stock_portfolio_add_trade.")
+
+  const start = options.from && options.from > sorted[0].date ? options.from : sorted[0].date
+  const fromTs = Math.floor(Date.parse(start) / 1000) - 7 * 86400
+  const toTs = Math.floor(Date.now() / 1000)
+
+  const symbols = [...new Set(sorted.map((t) => t.symbol))]
+  const fx = await portfolioFx(currency, symbols, options.currency)
+  const closes = new Map<string, Map<string, number>>()
+  const dates = new Set<string>()
+  const unavailable: Record<string, string> = {}
+  const results = await Promise.allSettled(symbols.map((symbol) => market.candles(symbol, "D", fromTs, toTs)))
+  results.forEach((result, i) => {
+    const symbol = symbols[i]
+    if (result.status === "rejected") {
+      unavailable[symbol] = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      return
+    }
+    if (result.value.length === 0) unavailable[symbol] = "No daily prices in this range"
+    const rate = fx.rateOf(symbol)
+    const byDay = new Map<string, number>()
+    for (const c of result.value) {
+      const day = new Date(c.time * 1000).toISOString().slice(0, 10)
+      byDay.set(day, c.close * rate)
+      if (day >= start) dates.add(day)
+    }
+    closes.set(symbol, byDay)
+  })
+
+  const days = [...dates].sort()
+  if (days.length === 0) {
+    // Every source failed: report why rather than a bare "no history"
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected")
+    if (failed) throw failed.reason
+    throw new NotFoundError(`No daily price history available since ${start}.`)
+  }
+
+  const held = new Map<string, number>()
+  const lastPrice = new Map<string, number>()
+  let next = 0
+  const series: PerformancePoint[] = []
+
+  // Trades before the window become the opening position, not cash flows
+  while (next < sorted.length && sorted[next].date < start) {
+    const t = sorted[next++]
+    held.set(t.symbol, (held.get(t.symbol) || 0) + (t.side === "buy" ? t.quantity : -t.quantity))
+    lastPrice.set(t.symbol, t.price * fx.rateOf(t.symbol))
+  }
+
+  for (const day of days) {
+    let netFlow = 0
+    while (next < sorted.length && sorted[next].date <= day) {
+      const t = sorted[next++]
+      const rate = fx.rateOf(t.symbol)
+      const signed = t.side === "buy" ? t.quantity : -t.quantity
+      held.set(t.symbol, (held.get(t.symbol) || 0) + signed)
+      netFlow += (t.side === "buy" ? t.quantity * t.price + t.fees : -(t.quantity * t.price - t.fees)) * rate
+      if (!lastPrice.has(t.symbol)) lastPrice.set(t.symbol, t.price * rate)
+    }
+
+    let value = 0
+    for (const [symbol, qty] of held) {
+      const close = closes.get(symbol)?.get(day)
+      if (close != null) lastPrice.set(symbol, close)
+      value += qty * (lastPrice.get(symbol) ?? 0)
+    }
+
+    const prev = series[series.length - 1]
+    const dailyReturn = prev && prev.value > 0 ? (value - netFlow) / prev.value - 1 : null
+    series.push({ date: day, value, netFlow, dailyReturn })
+  }
+
+  const growth = series.reduce((acc, p) => acc * (1 + (p.dailyReturn ?? 0)), 1)
+  const spanDays = (Date.parse(series[series.length - 1].date) - Date.parse(series[0].date)) / 86400000
+  const startValue = series[0].value
+  const endValue = series[series.length - 1].value
+  const netFlows = series.slice(1).reduce((acc, p) => acc + p.netFlow, 0)
+
+  return {
+    account: options.account ?? null,
+    currency: fx.base,
+    from: series[0].date,
+    to: series[series.length - 1].date,
+    twr: (growth - 1) * 100,
+    annualizedTwr: spanDays >= 365 ? (growth ** (365 / spanDays) - 1) * 100 : null,
+    startValue,
+    endValue,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    series,
+    unavailable,
+  }
+}
+
+// ── Formatting ──
+
+type Money = (amount: number) => string
+
+function signed(n: number, money: Money): string {
+  return `${n >= 0 ? "+" : "-"}${money(Math.abs(n))}`
+}
+
+function pct(n: number): string {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(2)}%`
+}
+
+/** Trades in their listings' currencies, in the given order. */
+async function formatTrades(trades: Trade[], currency: Currency): Promise<string[]> {
+  const codes = new Map(
+    await Promise.all([...new Set(trades.map((t) => t.symbol))].map(async (s) => [s, await currency.instrumentCurrency(s)] as const))
+  )
+  return trades.map((t) => formatTrade(t, (n) => currency.format(n, codes.get(t.symbol)!)))
+}
+
+function formatTrade(t: Trade, money: Money): string {
+  const fees = t.fees ? ` + ${money(t.fees)} fees` : ""
+  return `[${t.id}] ${t.date} ${t.account}: ${t.side.toUpperCase()} ${t.quantity} ${t.symbol} @ ${money(t.price)}${fees}`
+}
+
+function formatSummary(s: PortfolioSummary, currency: Currency): string {
+  const { totals } = s
+  const total = (n: number) => currency.format(n, s.currency)
+  const lines = [
+    `Portfolio${s.account ? ` (${s.account})` : ""}: ${total(totals.marketValue)}`,
+    `Day Change: ${signed(totals.dayChange, total)} (${pct(totals.dayChangePct)})`,
+    `Unrealized P&L: ${signed(totals.unrealizedPnl, total)} on ${total(totals.costBasis)} cost`,
+    `Realized P&L: ${signed(totals.realizedPnl, total)}`,
+  ]
+  if (s.holdings.some((h) => h.currency !== s.currency)) lines.push(`Totals in ${s.currency}, converted at current exchange rates`)
+  lines.push(``, `Holdings:`)
+  for (const h of s.holdings) {
+    const money = (n: number) => currency.format(n, h.currency)
+    const price = h.price != null ? money(h.price) : "no quote"
+    const account = s.account ? "" : ` [${h.account}]`
+    lines.push(
+      `  ${h.symbol}${account}: ${h.quantity} @ ${price} = ${money(h.marketValue)} | ` +
+        `cost ${money(h.avgCost)} | P&L ${signed(h.unrealizedPnl, money)} (${pct(h.unrealizedPct)}) | day ${signed(h.dayChange, money)}`
+    )
+  }
+  if (s.allocation.length > 0) {
+    lines.push(``, `Allocation by industry:`)
+    for (const a of s.allocation) {
+      lines.push(`  ${a.industry}: ${a.weight.toFixed(1)}% (${currency.formatLarge(a.marketValue, s.currency)})`)
+    }
+  }
+  return lines.join("\n")
+}
+
+function formatPerformance(p: PortfolioPerformance, currency: Currency): string {
+  const money = (n: number) => currency.format(n, p.currency)
+  const lines = [
+    `Performance${p.account ? ` (${p.account})` : ""} ${p.from} → ${p.to}, in ${p.currency}`,
+    ``,
+    `Time-Weighted Return: ${pct(p.twr)}`,
+  ]
+  if (p.annualizedTwr != null) lines.push(`Annualized: ${pct(p.annualizedTwr)}`)
+  lines.push(
+    `Start Value: ${money(p.startValue)}`,
+    `End Value: ${money(p.endValue)}`,
+    `Net Contributions: ${signed(p.netFlows, money)}`,
+    `Investment Gain: ${signed(p.gain, money)}`
+  )
+
+  // Month-end values give a compact equity curve
+  const monthEnds = p.series.filter((pt, i) => i === p.series.length - 1 || p.series[i + 1].date.slice(0, 7) !== pt.date.slice(0, 7))
+  if (monthEnds.length > 1) {
+    lines.push(``, `Month-end values:`)
+    for (const pt of monthEnds.slice(-12)) lines.push(`  ${pt.date}: ${money(pt.value)}`)
+  }
+
+  const missing = Object.entries(p.unavailable)
+  if (missing.length > 0) {
+    lines.push(``, `Unavailable (valued at last trade price):`, ...missing.map(([symbol, why]) => `  ${symbol}: ${why}`))
+  }
+  return lines.join("\n")
+}
+
+// ── Routes ──
+
+const tradeBody = t.Object({
+  account: t.Optional(t.String()),
+  symbol: t.String(),
+  side: oneOf("side", ["buy", "sell"]),
+  date: t.Optional(t.String()),
+  quantity: t.Number({ exclusiveMinimum: 0 }),
+  price: t.Number({ minimum: 0 }),
+  fees: t.Optional(t.Number({ minimum: 0 })),
+})
+
+export function portfolioRoutes(portfolio: Portfolio, market: MarketDataProvider, currency: Currency) {
+  const accountQuery = t.Object({ account: t.Optional(t.String()) })
+  const currencySchema = t.Optional(t.String({ minLength: 3, maxLength: 3, description: "Currency for totals" }))
+  const base = (code: string | undefined) => (code ? currencyCode(code) : undefined)
+
+  return new Elysia({ prefix: "/portfolio" })
+    .get("/accounts", () => ({ accounts: portfolio.accounts() }))
+    .get("/trades", ({ query }) => ({ trades: portfolio.trades(query.account) }), { query: accountQuery })
+    .post("/trades", ({ body, set }) => {
+      set.status = 201
+      return portfolio.addTrade(body)
+    }, { body: tradeBody })
+    .delete("/trades/:id", ({ params }) => {
+      portfolio.removeTrade(params.id)
+      return { deleted: params.id }
+    })
+    .post("/import", ({ body, set }) => {
+      const { trades, skipped } = parseTradesCsv(body.csv, body.account)
+      set.status = 201
+      return { imported: portfolio.importTrades(trades), skipped }
+    }, {
+      body: t.Object({ csv: t.String({ minLength: 1 }), account: t.Optional(t.String()) }),
+    })
+    .get("/summary", ({ query }) =>
+      summarizePortfolio(market, currency, portfolio.trades(query.account), { account: query.account ?? null, currency: base(query.currency) }), {
+      query: t.Object({ account: t.Optional(t.String()), currency: currencySchema }),
+    })
+    .get("/performance", ({ query }) =>
+      portfolioPerformance(market, currency, portfolio.trades(query.account), {
+        account: query.account ?? null,
+        from: query.from,
+        currency: base(query.currency),
+      }), {
+      query: t.Object({
+        account: t.Optional(t.String()),
+        from: t.Optional(t.String({ pattern: "^\\d{4}-\\d{2}-\\d{2}$" })),
+        currency: currencySchema,
+      }),
+    })
+}
+
+// ── Tools ──
+
+export function portfolioTools(portfolio: Portfolio, market: MarketDataProvider, currency: Currency): PluginToolDefinition[] {
+  const accountProp = { type: "string", description: `Account name (default: "${DEFAULT_ACCOUNT}")` }
+  const accountFilterProp = { type: "string", description: "Only include this account. Omit for all accounts." }
+  const baseCurrencyProp = {
+    type: "string",
+    description:
+      "Currency for totals (ISO code, e.g. EUR). Holdings are converted at current rates. " +
+      "Default: the display currency setting, else the holdings' own when they share one, else USD",
+  }
+
+  return [
+    // ── Add Trade ──
+    {
+      definition: {
+        name: "stock_portfolio_add_trade",
+        description: "Record a buy or sell in the user's portfolio. Sells are matched against earlier buys first-in, first-out.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            side: { type: "string", enum: ["buy", "sell"], description: "Trade side" },
+            quantity: { type: "number", description: "Number of shares" },
+            price: { type: "number", description: "Price per share" },
+            fees: { type: "number", description: "Commission and fees (default: 0)" },
+            date: { type: "string", description: "Trade date, YYYY-MM-DD (default: today)" },
+            account: accountProp,
+            format: formatProp,
+          },
+          required: ["symbol", "side", "quantity", "price"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const trade = portfolio.addTrade({
+            account: args.account as string | undefined,
+            symbol: args.symbol as string,
+            side: args.side as TradeSide,
+            date: args.date as string | undefined,
+            quantity: args.quantity as number,
+            price: args.price as number,
+            fees: args.fees as number | undefined,
+          })
+          const [line] = await formatTrades([trade], currency)
+          return respond(outputFormat(args), { text: `Recorded ${line}`, data: trade })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Import Trades ──
+    {
+      definition: {
+        name: "stock_portfolio_import_csv",
+        description:
+          "Import trades from a broker CSV export. Recognizes common columns (Date, Symbol, Action/Side, Quantity, Price, Fees/Commission) and skips non-trade rows.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            csv: { type: "string", description: "CSV file contents, including the header row" },
+            account: accountProp,
+            format: formatProp,
+          },
+          required: ["csv"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const { trades, skipped } = parseTradesCsv(args.csv as string, args.account as string | undefined)
+          if (trades.length === 0) return err(`No buy or sell rows found (${skipped} rows skipped).`)
+          const imported = portfolio.importTrades(trades)
+          const symbols = new Set(imported.map((t) => t.symbol))
+          return respond(outputFormat(args), {
+            text: `Imported ${imported.length} trades across ${symbols.size} symbols${skipped ? ` (${skipped} non-trade rows skipped)` : ""}.`,
+            data: { imported, skipped },
+            table: recordsTable(imported),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── List Trades ──
+    {
+      definition: {
+        name: "stock_portfolio_trades",
+        description: "List recorded portfolio trades, optionally for one account or symbol.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            account: accountFilterProp,
+            symbol: { type: "string", description: "Only include this symbol" },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = args.symbol ? (args.symbol as string).toUpperCase() : null
+          const trades = portfolio.trades(args.account as string | undefined).filter((t) => !symbol || t.symbol === symbol)
+          const format = outputFormat(args)
+          if (trades.length === 0 && format === "text") return ok("No trades recorded.")
+          const lines = format === "text" ? await formatTrades(trades, currency) : []
+          return respond(format, { text: () => `Trades:\n${lines.join("\n")}`, data: trades })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Remove Trade ──
+    {
+      definition: {
+        name: "stock_portfolio_remove_trade",
+        description: "Delete a recorded trade by id (see stock_portfolio_trades).",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            id: { type: "string", description: "Trade id" },
+            format: formatProp,
+          },
+          required: ["id"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          portfolio.removeTrade(args.id as string)
+          return respond(outputFormat(args), { text: `Deleted trade ${args.id}.`, data: { deleted: args.id } })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Summary ──
+    {
+      definition: {
+        name: "stock_portfolio_summary",
+        description:
+          "Summarize the user's portfolio: market value, day change, unrealized and realized P&L per holding, and allocation by industry.",
+        inputSchema: {
+          type: "object" as const,
+          properties: { account: accountFilterProp, currency: baseCurrencyProp, format: formatProp },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const account = (args.account as string) || null
+          const trades = portfolio.trades(account ?? undefined)
+          if (trades.length === 0) return ok("No trades recorded yet. Add some with stock_portfolio_add_trade.")
+          const base = args.currency ? currencyCode(args.currency) : undefined
+          const summary = await summarizePortfolio(market, currency, trades, { account, currency: base })
+          const format = outputFormat(args)
+          if (summary.holdings.length === 0 && format === "text") {
+            const total = (n: number) => currency.format(n, summary.currency)
+            return ok(`No open positions. Realized P&L: ${signed(summary.totals.realizedPnl, total)}`)
+          }
+          return respond(format, {
+            text: () => formatSummary(summary, currency),
+            data: summary,
+            table: recordsTable(summary.holdings),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Performance ──
+    {
+      definition: {
+        name: "stock_portfolio_performance",
+        description:
+          "Time-weighted return of the portfolio computed from daily closes, with start/end value, net contributions and month-end values.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            account: accountFilterProp,
+            from: { type: "string", description: "Start date, YYYY-MM-DD (default: first trade)" },
+            currency: baseCurrencyProp,
+            format: {
+              ...formatProp,
+              description: "Output format: text (default), or json, csv, markdown with the daily value series",
+            },
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const account = (args.account as string) || null
+          const perf = await portfolioPerformance(market, currency, portfolio.trades(account ?? undefined), {
+            account,
+            from: args.from as string | undefined,
+            currency: args.currency ? currencyCode(args.currency) : undefined,
+          })
+          return respond(outputFormat(args), {
+            text: () => formatPerformance(perf, currency),
+            data: perf,
+            table: recordsTable(perf.series),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
@@ -0,0 +1,649 @@
+/**
+ * Alpha Vantage provider — https://www.alphavantage.co/documentation/
+ * Used as a fallback behind Finnhub. It has no peers or economic calendar
+ * endpoints, and its earnings calendar only covers upcoming reports. Its free
+ * tier is limited to a handful of calls per day.
+ */
+
+import type { PluginContext } from "../types"
+import type {
+  Candle,
+  CompanyProfile,
+  EarningsEvent,
+  EarningsSurprise,
+  EtfHoldings,
+  EtfProfile,
+  ExposureWeight,
+  FinancialItems,
+  FinancialStatement,
+  InsiderTransaction,
+  IpoEvent,
+  Metrics,
+  NewsItem,
+  PriceTarget,
+  Quote,
+  RecommendationTrend,
+  SymbolMatch,
+} from "../models"
+import { cached, candlePolicy, DAY, HOUR, MINUTE, type CachePolicy } from "../cache"
+import { parseCsv } from "../csv"
+import { parseInstrument } from "../instruments"
+import { marketAwarePolicy } from "../sessions"
+import { ProviderError, type MarketDataProvider } from "./provider"
+
+const BASE = "https://www.alphavantage.co/query"
+
+type AVRecord = Record<string, string>
+
+interface AVGlobalQuote {
+  "Global Quote"?: AVRecord
+}
+
+interface AVSearch {
+  bestMatches?: AVRecord[]
+}
+
+interface AVExchangeRate {
+  "Realtime Currency Exchange Rate"?: AVRecord
+}
+
+interface AVEarnings {
+  quarterlyEarnings?: AVRecord[]
+}
+
+interface AVStatements {
+  annualReports?: AVRecord[]
+  quarterlyReports?: AVRecord[]
+}
+
+interface AVInsiderTransactions {
+  data?: AVRecord[]
+}
+
+// Weights, ratios and yields are fractions: 0.0712 is 7.12%
+interface AVEtfProfile {
+  net_assets?: string
+  net_expense_ratio?: string
+  dividend_yield?: string
+  inception_date?: string
+  leveraged?: string // "YES" | "NO"
+  sectors?: Array<{ sector: string; weight: string }>
+  holdings?: Array<{ symbol: string; description: string; weight: string }>
+}
+
+interface AVNewsFeed {
+  feed?: Array<{
+    title: string
+    url: string
+    time_published: string // YYYYMMDDTHHMMSS
+    summary: string
+    banner_image: string | null
+    source: string
+    category_within_source: string
+    overall_sentiment_score?: number
+    ticker_sentiment?: Array<{ ticker: string; ticker_sentiment_score: string }>
+  }>
+}
+
+const INTRADAY: Record<string, string> = { "1": "1min", "5": "5min", "15": "15min", "30": "30min", "60": "60min" }
+
+const SERIES_FUNCTION: Record<string, string> = {
+  D: "TIME_SERIES_DAILY",
+  W: "TIME_SERIES_WEEKLY",
+  M: "TIME_SERIES_MONTHLY",
+}
+
+// "compact" holds only the latest 100 trading days, about 140 calendar days;
+// ranges starting earlier than this need "full"
+const COMPACT_DAYS = 130
+
+const NEWS_TOPICS: Record<string, string> = {
+  merger: "mergers_and_acquisitions",
+}
+
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  GLOBAL_QUOTE: { ttlMs: MINUTE },
+  OVERVIEW: { ttlMs: 12 * HOUR, swrMs: 7 * DAY, persist: true },
+  SYMBOL_SEARCH: { ttlMs: HOUR, swrMs: DAY, persist: true },
+  NEWS_SENTIMENT: { ttlMs: 15 * MINUTE },
+  CURRENCY_EXCHANGE_RATE: { ttlMs: 15 * MINUTE, swrMs: DAY },
+  EARNINGS_CALENDAR: { ttlMs: 6 * HOUR, swrMs: DAY, persist: true },
+  IPO_CALENDAR: { ttlMs: 6 * HOUR, swrMs: DAY, persist: true },
+  EARNINGS: { ttlMs: 12 * HOUR, swrMs: 7 * DAY, persist: true },
+  INSIDER_TRANSACTIONS: { ttlMs: 12 * HOUR, swrMs: DAY },
+  ETF_PROFILE: { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  LISTING_STATUS: { ttlMs: DAY, swrMs: 7 * DAY },
+  INCOME_STATEMENT: { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  BALANCE_SHEET: { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  CASH_FLOW: { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+}
+
+/** Alpha Vantage statement fields for each normalized line item. */
+const STATEMENT_FIELDS: Partial<Record<keyof FinancialItems, string>> = {
+  revenue: "totalRevenue",
+  costOfRevenue: "costOfRevenue",
+  grossProfit: "grossProfit",
+  researchAndDevelopment: "researchAndDevelopment",
+  sellingGeneralAdmin: "sellingGeneralAndAdministrative",
+  operatingIncome: "operatingIncome",
+  interestExpense: "interestExpense",
+  pretaxIncome: "incomeBeforeTax",
+  incomeTax: "incomeTaxExpense",
+  netIncome: "netIncome",
+  cash: "cashAndCashEquivalentsAtCarryingValue",
+  shortTermInvestments: "shortTermInvestments",
+  currentAssets: "totalCurrentAssets",
+  totalAssets: "totalAssets",
+  currentLiabilities: "totalCurrentLiabilities",
+  totalLiabilities: "totalLiabilities",
+  shortTermDebt: "shortTermDebt",
+  longTermDebt: "longTermDebtNoncurrent",
+  totalEquity: "totalShareholderEquity",
+  operatingCashFlow: "operatingCashflow",
+  capitalExpenditure: "capitalExpenditures",
+  dividendsPaid: "dividendPayout",
+  shareRepurchase: "paymentsForRepurchaseOfCommonStock",
+}
+
+// The free tier allows only a few calls a day, so err on the side of caching
+const DEFAULT_CACHE_POLICY: CachePolicy = { ttlMs: 5 * MINUTE }
+
+function cachePolicy(params: Record<string, string>): CachePolicy {
+  // Series requests always return the full history up to now
+  if (params.function.startsWith("TIME_SERIES_")) {
+    return marketAwarePolicy(candlePolicy(params.interval ? "1" : "D", Date.now() / 1000), params.symbol)
+  }
+  const policy = CACHE_POLICIES[params.function] ?? DEFAULT_CACHE_POLICY
+  return params.function === "GLOBAL_QUOTE" ? marketAwarePolicy(policy, params.symbol) : policy
+}
+
+async function alphaVantage<T>(apiKey: string, params: Record<string, string>): Promise<T> {
+  const cacheKey = `alphavantage:${JSON.stringify(params)}`
+  return cached(cacheKey, cachePolicy(params), () => fetchAlphaVantage<T>(apiKey, params))
+}
+
+async function fetchAlphaVantage<T>(apiKey: string, params: Record<string, string>): Promise<T> {
+  const url = new URL(BASE)
+  url.searchParams.set("apikey", apiKey)
+  for (const [k, v] of Object.entries(params)) {
+    url.searchParams.set(k, v)
+  }
+
+  const res = await fetch(url.toString())
+  if (!res.ok) {
+    const text = await res.text()
+    throw new ProviderError("alphavantage", res.status, `Alpha Vantage ${res.status}: ${text}`)
+  }
+
+  // Calendar functions answer in CSV but still report errors as JSON
+  const text = await res.text()
+  if (!text.trimStart().startsWith("{")) return csvRecords(text) as T
+
+  // Alpha Vantage reports quota and validation problems with a 200 status
+  const data = JSON.parse(text) as T & { Note?: string; Information?: string; "Error Message"?: string }
+  if (data.Note || data.Information) {
+    throw new ProviderError("alphavantage", 429, `Alpha Vantage: ${data.Note || data.Information}`)
+  }
+  if (data["Error Message"]) {
+    throw new ProviderError("alphavantage", 400, `Alpha Vantage: ${data["Error Message"]}`)
+  }
+
+  return data
+}
+
+function csvRecords(text: string): AVRecord[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+  return rows.map((row) => Object.fromEntries(header.map((h, i) => [h.trim(), row[i]?.trim() ?? ""])))
+}
+
+function num(v: string | undefined): number | null {
+  if (v == null || v === "" || v === "None" || v === "-") return null
+  const n = Number(v.replace(/%$/, ""))
+  return Number.isFinite(n) ? n : null
+}
+
+function scaled(v: string | undefined, factor: number): number | null {
+  const n = num(v)
+  return n == null ? null : n * factor
+}
+
+function titleCase(s: string): string {
+  return s.toLowerCase().replace(/\b\w/g, (c) => c.toUpperCase())
+}
+
+/** Convert a wall-clock timestamp in `timeZone` ("YYYY-MM-DD HH:MM:SS") to unix seconds. */
+function zonedToUnix(local: string, timeZone: string): number {
+  const asUtc = Date.parse(local.replace(" ", "T") + "Z")
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(asUtc)
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value)
+  const zoned = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+  return Math.floor((2 * asUtc - zoned) / 1000)
+}
+
+function compactDate(s: string): number {
+  // 20240102T153000 -> unix seconds (UTC)
+  const m = s.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?$/)
+  if (!m) return 0
+  return Math.floor(Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] || 0)) / 1000)
+}
+
+function toCompactDate(iso: string): string {
+  return iso.replace(/-/g, "") + "T0000"
+}
+
+// Alpha Vantage quotes currency pairs, not venue-specific EXCHANGE:PAIR listings
+function pairsUnsupported(symbol: string): ProviderError {
+  return new ProviderError("alphavantage", 501, `Alpha Vantage has no exchange data for ${symbol}. Add a Finnhub API key for crypto and forex pairs.`)
+}
+
+// Alpha Vantage labels scores beyond ±0.15 "somewhat" bullish or bearish
+const SENTIMENT_THRESHOLD = 0.15
+
+/** Smallest EARNINGS_CALENDAR horizon reaching `to` (YYYY-MM-DD). */
+function calendarHorizon(to: string): string {
+  const months = (Date.parse(to) - Date.now()) / (30 * 86400000)
+  return months <= 3 ? "3month" : months <= 6 ? "6month" : "12month"
+}
+
+export function createAlphaVantageProvider(ctx: PluginContext): MarketDataProvider {
+  const key = () => ctx.getSetting<string>("alphaVantageApiKey")
+
+  async function overview(symbol: string): Promise<AVRecord | null> {
+    const data = await alphaVantage<AVRecord>(key(), { function: "OVERVIEW", symbol })
+    return data.Symbol ? data : null
+  }
+
+  async function etf(symbol: string): Promise<AVEtfProfile | null> {
+    const data = await alphaVantage<AVEtfProfile>(key(), { function: "ETF_PROFILE", symbol })
+    return data.net_assets || data.holdings?.length ? data : null
+  }
+
+  return {
+    id: "alphavantage",
+    label: "Alpha Vantage",
+
+    isConfigured: () => !!key(),
+
+    async quote(symbol) {
+      if (parseInstrument(symbol)) throw pairsUnsupported(symbol)
+      const data = await alphaVantage<AVGlobalQuote>(key(), { function: "GLOBAL_QUOTE", symbol })
+      const q = data["Global Quote"]
+      if (!q || !q["05. price"]) return null
+      const quote: Quote = {
+        symbol,
+        price: num(q["05. price"]) ?? 0,
+        change: num(q["09. change"]) ?? 0,
+        changePercent: num(q["10. change percent"]) ?? 0,
+        high: num(q["03. high"]) ?? 0,
+        low: num(q["04. low"]) ?? 0,
+        open: num(q["02. open"]) ?? 0,
+        previousClose: num(q["08. previous close"]) ?? 0,
+        timestamp: Math.floor(Date.parse(q["07. latest trading day"]) / 1000) || 0,
+      }
+      return quote
+    },
+
+    async candles(symbol, resolution, from, to) {
+      if (parseInstrument(symbol)) throw pairsUnsupported(symbol)
+      const interval = INTRADAY[resolution]
+      const params: Record<string, string> = interval
+        ? { function: "TIME_SERIES_INTRADAY", symbol, interval, outputsize: "full" }
+        : { function: SERIES_FUNCTION[resolution], symbol }
+      if (resolution === "D" && Date.now() / 1000 - from > COMPACT_DAYS * 86400) params.outputsize = "full"
+
+      const data = await alphaVantage<Record<string, unknown>>(key(), params)
+      const meta = (data["Meta Data"] || {}) as AVRecord
+      const timeZone = Object.entries(meta).find(([k]) => k.endsWith("Time Zone"))?.[1] || "US/Eastern"
+      const seriesKey = Object.keys(data).find((k) => k !== "Meta Data")
+      const series = (seriesKey ? data[seriesKey] : {}) as Record<string, AVRecord>
+
+      const candles: Candle[] = []
+      for (const [stamp, bar] of Object.entries(series)) {
+        const time = interval ? zonedToUnix(stamp, timeZone) : Math.floor(Date.parse(stamp) / 1000)
+        if (time < from || time > to) continue
+        candles.push({
+          time,
+          open: num(bar["1. open"]) ?? 0,
+          high: num(bar["2. high"]) ?? 0,
+          low: num(bar["3. low"]) ?? 0,
+          close: num(bar["4. close"]) ?? 0,
+          volume: num(bar["5. volume"]) ?? 0,
+        })
+      }
+      return candles.sort((a, b) => a.time - b.time)
+    },
+
+    async profile(symbol) {
+      const o = await overview(symbol)
+      if (!o) return null
+      const profile: CompanyProfile = {
+        symbol: o.Symbol,
+        name: o.Name,
+        exchange: o.Exchange,
+        industry: o.Sector ? titleCase(o.Sector) : "",
+        country: o.Country,
+        currency: o.Currency,
+        ipo: "",
+        logo: "",
+        marketCap: num(o.MarketCapitalization) ?? 0,
+        sharesOutstanding: num(o.SharesOutstanding) ?? 0,
+        website: o.OfficialSite || "",
+        phone: "",
+      }
+      return profile
+    },
+
+    async search(query) {
+      const data = await alphaVantage<AVSearch>(key(), { function: "SYMBOL_SEARCH", keywords: query })
+      return (data.bestMatches || []).map((m): SymbolMatch => ({
+        symbol: m["1. symbol"],
+        displaySymbol: m["1. symbol"],
+        description: m["2. name"],
+        type: m["3. type"] === "Equity" ? "Common Stock" : m["3. type"],
+      }))
+    },
+
+    async news({ symbol, category, from, to }) {
+      const params: Record<string, string> = { function: "NEWS_SENTIMENT", sort: "LATEST" }
+      if (symbol) params.tickers = symbol
+      if (category && category !== "general") {
+        if (!NEWS_TOPICS[category]) return []
+        params.topics = NEWS_TOPICS[category]
+      }
+      if (from) params.time_from = toCompactDate(from)
+      if (to) params.time_to = toCompactDate(to).replace(/T0000$/, "T2359")
+
+      const data = await alphaVantage<AVNewsFeed>(key(), params)
+      return (data.feed || []).map((a): NewsItem => ({
+        id: a.url,
+        datetime: compactDate(a.time_published),
+        headline: a.title,
+        summary: a.summary,
+        source: a.source,
+        url: a.url,
+        image: a.banner_image || "",
+        category: a.category_within_source,
+        related: (a.ticker_sentiment || []).map((t) => t.ticker).join(","),
+        sentiment: symbol
+          ? num(a.ticker_sentiment?.find((t) => t.ticker === symbol)?.ticker_sentiment_score) ?? a.overall_sentiment_score ?? null
+          : a.overall_sentiment_score ?? null,
+      }))
+    },
+
+    // Averages the per-article scores for this ticker over the last week
+    async newsSentiment(symbol) {
+      const from = new Date(Date.now() - 7 * 86400000).toISOString().split("T")[0]
+      const data = await alphaVantage<AVNewsFeed>(key(), {
+        function: "NEWS_SENTIMENT",
+        tickers: symbol,
+        time_from: toCompactDate(from),
+        limit: "200",
+      })
+      const scores = (data.feed || [])
+        .map((a) => num(a.ticker_sentiment?.find((t) => t.ticker === symbol)?.ticker_sentiment_score))
+        .filter((n): n is number => n != null)
+      if (scores.length === 0) return null
+
+      const share = (count: number) => (count / scores.length) * 100
+      return {
+        symbol,
+        score: scores.reduce((sum, n) => sum + n, 0) / scores.length,
+        bullishPercent: share(scores.filter((n) => n >= SENTIMENT_THRESHOLD).length),
+        bearishPercent: share(scores.filter((n) => n <= -SENTIMENT_THRESHOLD).length),
+        articles: scores.length,
+        buzz: null,
+      }
+    },
+
+    async fxRate(from, to) {
+      const data = await alphaVantage<AVExchangeRate>(key(), {
+        function: "CURRENCY_EXCHANGE_RATE",
+        from_currency: from,
+        to_currency: to,
+      })
+      const r = data["Realtime Currency Exchange Rate"]
+      const rate = num(r?.["5. Exchange Rate"])
+      if (!r || !rate) return null
+      const refreshed = Date.parse(`${(r["6. Last Refreshed"] || "").replace(" ", "T")}Z`)
+      return {
+        from,
+        to,
+        rate,
+        timestamp: Math.floor((Number.isFinite(refreshed) ? refreshed : Date.now()) / 1000),
+      }
+    },
+
+    async peers() {
+      return []
+    },
+
+    async metrics(symbol) {
+      const o = await overview(symbol)
+      if (!o) return null
+      const metrics: Metrics = {
+        "52WeekHigh": num(o["52WeekHigh"]),
+        "52WeekLow": num(o["52WeekLow"]),
+        peTTM: num(o.PERatio),
+        pbQuarterly: num(o.PriceToBookRatio),
+        epsTTM: num(o.EPS),
+        beta: num(o.Beta),
+        dividendYieldIndicatedAnnual: scaled(o.DividendYield, 100),
+        dividendPerShareAnnual: num(o.DividendPerShare),
+        marketCapitalization: scaled(o.MarketCapitalization, 1e-6),
+        revenueTTM: scaled(o.RevenueTTM, 1e-6),
+        roeTTM: scaled(o.ReturnOnEquityTTM, 100),
+        netProfitMarginTTM: scaled(o.ProfitMargin, 100),
+        operatingMarginTTM: scaled(o.OperatingMarginTTM, 100),
+        psTTM: num(o.PriceToSalesRatioTTM),
+        pegRatio: num(o.PEGRatio),
+        bookValuePerShareQuarterly: num(o.BookValue),
+      }
+      return metrics
+    },
+
+    // OVERVIEW carries only the current rating counts, as a single month
+    async recommendations(symbol) {
+      const o = await overview(symbol)
+      const counts = o && [o.AnalystRatingStrongBuy, o.AnalystRatingBuy, o.AnalystRatingHold, o.AnalystRatingSell, o.AnalystRatingStrongSell].map(num)
+      if (!counts || counts.every((c) => c == null)) return []
+      const [strongBuy, buy, hold, sell, strongSell] = counts.map((c) => c ?? 0)
+      const trend: RecommendationTrend = { period: new Date().toISOString().slice(0, 8) + "01", strongBuy, buy, hold, sell, strongSell }
+      return [trend]
+    },
+
+    async priceTarget(symbol) {
+      const o = await overview(symbol)
+      const mean = num(o?.AnalystTargetPrice)
+      if (!o || mean == null) return null
+      const target: PriceTarget = { symbol: o.Symbol, high: null, low: null, mean, median: null, analysts: null, updated: null }
+      return target
+    },
+
+    // Only upcoming reports: Alpha Vantage has no past earnings calendar
+    async earningsCalendar({ from, to, symbol }) {
+      const params: Record<string, string> = { function: "EARNINGS_CALENDAR", horizon: calendarHorizon(to) }
+      if (symbol) params.symbol = symbol
+      const rows = await alphaVantage<AVRecord[]>(key(), params)
+      return rows
+        .filter((r) => r.reportDate >= from && r.reportDate <= to)
+        .map((r): EarningsEvent => ({
+          symbol: r.symbol,
+          date: r.reportDate,
+          hour: "",
+          quarter: null,
+          year: null,
+          epsEstimate: num(r.estimate),
+          epsActual: null,
+          revenueEstimate: null,
+          revenueActual: null,
+        }))
+    },
+
+    async earningsHistory(symbol, limit) {
+      const data = await alphaVantage<AVEarnings>(key(), { function: "EARNINGS", symbol })
+      return (data.quarterlyEarnings || []).slice(0, limit).map((e): EarningsSurprise => ({
+        symbol,
+        period: e.fiscalDateEnding,
+        quarter: null,
+        year: null,
+        actual: num(e.reportedEPS),
+        estimate: num(e.estimatedEPS),
+        surprise: num(e.surprise),
+        surprisePercent: num(e.surprisePercentage),
+      }))
+    },
+
+    async financials(symbol, period, limit) {
+      const reportsKey = period === "quarterly" ? "quarterlyReports" : "annualReports"
+      const statements = await Promise.all(
+        ["INCOME_STATEMENT", "BALANCE_SHEET", "CASH_FLOW"].map((fn) => alphaVantage<AVStatements>(key(), { function: fn, symbol }))
+      )
+
+      // The three statements are separate reports keyed by fiscal period end
+      const byDate = new Map<string, AVRecord>()
+      for (const report of statements.flatMap((s) => s[reportsKey] || [])) {
+        byDate.set(report.fiscalDateEnding, { ...byDate.get(report.fiscalDateEnding), ...report })
+      }
+
+      return [...byDate.values()]
+        .sort((a, b) => b.fiscalDateEnding.localeCompare(a.fiscalDateEnding))
+        .slice(0, limit)
+        .map((r): FinancialStatement => {
+          const items: FinancialItems = {}
+          for (const [item, field] of Object.entries(STATEMENT_FIELDS) as Array<[keyof FinancialItems, string]>) {
+            const value = num(r[field])
+            if (value != null) items[item] = value
+          }
+          return {
+            symbol,
+            period,
+            fiscalYear: Number(r.fiscalDateEnding.slice(0, 4)),
+            fiscalQuarter: null,
+            endDate: r.fiscalDateEnding,
+            filedDate: null,
+            form: "",
+            currency: r.reportedCurrency || "USD",
+            items,
+          }
+        })
+    },
+
+    // Form 4 codes aren't exposed, so priced acquisitions and disposals stand
+    // in for purchases and sales; unpriced ones are awards, gifts and the like
+    async insiderTransactions(symbol, from, to) {
+      const data = await alphaVantage<AVInsiderTransactions>(key(), { function: "INSIDER_TRANSACTIONS", symbol })
+      return (data.data || [])
+        .filter((r) => r.transaction_date >= from && r.transaction_date <= to)
+        .map((r): InsiderTransaction => {
+          const disposed = r.acquisition_or_disposal === "D"
+          const shares = num(r.shares) ?? 0
+          const price = num(r.share_price) || null
+          return {
+            symbol,
+            name: r.executive,
+            title: r.executive_title || "",
+            date: r.transaction_date,
+            filedDate: null,
+            type: price == null ? "other" : disposed ? "sell" : "buy",
+            code: "",
+            change: disposed ? -shares : shares,
+            price,
+            sharesHeld: null,
+            derivative: /option|warrant|unit/i.test(r.security_type || ""),
+          }
+        })
+        .sort((a, b) => b.date.localeCompare(a.date))
+    },
+
+    // LISTING_STATUS covers US exchanges only
+    async listedSymbols(exchange) {
+      if (exchange !== "US") return []
+      const rows = await alphaVantage<AVRecord[]>(key(), { function: "LISTING_STATUS" })
+      return rows.map((r): SymbolMatch => ({
+        symbol: r.symbol,
+        displaySymbol: r.symbol,
+        description: r.name,
+        type: r.assetType === "Stock" ? "Common Stock" : r.assetType,
+      }))
+    },
+
+    async etfProfile(symbol) {
+      const data = await etf(symbol)
+      if (!data) return null
+      const profile: EtfProfile = {
+        symbol,
+        name: null,
+        issuer: null,
+        benchmark: null,
+        assetClass: null,
+        expenseRatio: scaled(data.net_expense_ratio, 100),
+        aum: num(data.net_assets),
+        nav: null,
+        currency: "USD",
+        inceptionDate: data.inception_date && data.inception_date !== "None" ? data.inception_date : null,
+        dividendYield: scaled(data.dividend_yield, 100),
+        leveraged: data.leveraged ? data.leveraged === "YES" : null,
+        website: null,
+        description: null,
+      }
+      return profile
+    },
+
+    async etfHoldings(symbol) {
+      const data = await etf(symbol)
+      if (!data?.holdings?.length) return null
+      const holdings: EtfHoldings = {
+        symbol,
+        asOf: null,
+        count: data.holdings.length,
+        holdings: data.holdings
+          .map((h) => ({
+            symbol: h.symbol && h.symbol !== "n/a" ? h.symbol : null,
+            name: titleCase(h.description),
+            weight: scaled(h.weight, 100) ?? 0,
+            shares: null,
+            value: null,
+          }))
+          .sort((a, b) => b.weight - a.weight),
+      }
+      return holdings
+    },
+
+    async etfExposure(symbol, kind) {
+      if (kind === "country") {
+        throw new ProviderError("alphavantage", 501, "Alpha Vantage has no country breakdown for ETFs. Add a Finnhub API key for country exposure.")
+      }
+      return ((await etf(symbol))?.sectors || [])
+        .map((s): ExposureWeight => ({ name: titleCase(s.sector), weight: scaled(s.weight, 100) ?? 0 }))
+        .filter((w) => w.weight > 0)
+        .sort((a, b) => b.weight - a.weight)
+    },
+
+    async ipoCalendar({ from, to }) {
+      const rows = await alphaVantage<AVRecord[]>(key(), { function: "IPO_CALENDAR" })
+      return rows
+        .filter((r) => r.ipoDate >= from && r.ipoDate <= to)
+        .map((r): IpoEvent => ({
+          symbol: r.symbol,
+          name: r.name,
+          date: r.ipoDate,
+          exchange: r.exchange,
+          status: "expected",
+          priceLow: num(r.priceRangeLow),
+          priceHigh: num(r.priceRangeHigh),
+          shares: null,
+          totalValue: null,
+        }))
+    },
+  }
+}
@@ -0,0 +1,998 @@
+/**
+ * Finnhub provider — https://finnhub.io/docs/api
+ */
+
+import type { PluginContext } from "../types"
+import type {
+  Candle,
+  CompanyProfile,
+  EarningsEvent,
+  EarningsSurprise,
+  EconomicEvent,
+  EtfHolding,
+  EtfHoldings,
+  EtfProfile,
+  ExposureWeight,
+  FinancialItems,
+  FinancialStatement,
+  Holder,
+  InsiderSentiment,
+  InsiderTransaction,
+  IpoEvent,
+  MarketHoliday,
+  NewsItem,
+  Quote,
+  RatingChange,
+  RecommendationTrend,
+  SymbolMatch,
+} from "../models"
+import { cached, candlePolicy, DAY, HOUR, MINUTE, SECOND, type CachePolicy } from "../cache"
+import { assetClassOf, parseInstrument, rollingQuote } from "../instruments"
+import { createRateLimiter } from "../ratelimit"
+import { marketAwarePolicy } from "../sessions"
+import { ProviderError, type MarketDataProvider } from "./provider"
+
+const BASE = "https://finnhub.io/api/v1"
+
+export interface FinnhubQuote {
+  c: number  // current
+  d: number  // change
+  dp: number // percent change
+  h: number  // high
+  l: number  // low
+  o: number  // open
+  pc: number // previous close
+  t: number  // timestamp
+}
+
+export interface FinnhubProfile {
+  country: string
+  currency: string
+  exchange: string
+  finnhubIndustry: string
+  ipo: string
+  logo: string
+  marketCapitalization: number
+  name: string
+  phone: string
+  shareOutstanding: number
+  ticker: string
+  weburl: string
+}
+
+export interface FinnhubSearchResult {
+  count: number
+  result: Array<{
+    description: string
+    displaySymbol: string
+    symbol: string
+    type: string
+  }>
+}
+
+export interface FinnhubInstrument {
+  description: string
+  displaySymbol: string
+  symbol: string
+  type?: string // security type, on stock listings only
+}
+
+export interface FinnhubCandles {
+  c: number[] // close
+  h: number[] // high
+  l: number[] // low
+  o: number[] // open
+  s: string   // status
+  t: number[] // timestamps
+  v: number[] // volume
+}
+
+export interface FinnhubNewsItem {
+  category: string
+  datetime: number
+  headline: string
+  id: number
+  image: string
+  related: string
+  source: string
+  summary: string
+  url: string
+}
+
+export interface FinnhubMarketStatus {
+  exchange: string
+  holiday: string | null
+  isOpen: boolean
+  session: "pre-market" | "regular" | "post-market" | null
+  timezone: string
+  t: number
+}
+
+export interface FinnhubMarketHolidays {
+  data: Array<{ atDate: string; eventName: string; tradingHour: string }>
+  exchange: string
+  timezone: string
+}
+
+export interface FinnhubForexRates {
+  base: string
+  quote: Record<string, number>
+}
+
+export interface FinnhubEarningsCalendar {
+  earningsCalendar: Array<{
+    date: string
+    epsActual: number | null
+    epsEstimate: number | null
+    hour: string
+    quarter: number
+    revenueActual: number | null
+    revenueEstimate: number | null
+    symbol: string
+    year: number
+  }>
+}
+
+export interface FinnhubEarningsSurprise {
+  actual: number | null
+  estimate: number | null
+  period: string
+  quarter: number
+  surprise: number | null
+  surprisePercent: number | null
+  symbol: string
+  year: number
+}
+
+export interface FinnhubIpoCalendar {
+  ipoCalendar: Array<{
+    date: string
+    exchange: string | null
+    name: string
+    numberOfShares: number | null
+    price: string | null // "16.00" or "16.00-18.00"
+    status: string
+    symbol: string
+    totalSharesValue: number | null
+  }>
+}
+
+export interface FinnhubEconomicCalendar {
+  economicCalendar: Array<{
+    actual: number | null
+    country: string
+    estimate: number | null
+    event: string
+    impact: string
+    prev: number | null
+    time: string // "YYYY-MM-DD HH:MM:SS" UTC
+    unit: string
+  }>
+}
+
+export interface FinnhubNewsSentiment {
+  buzz?: { articlesInLastWeek: number; buzz: number; weeklyAverage: number }
+  companyNewsScore?: number
+  sentiment?: { bearishPercent: number; bullishPercent: number } // fractions, 0-1
+  symbol: string
+}
+
+export interface FinnhubRecommendation {
+  buy: number
+  hold: number
+  period: string
+  sell: number
+  strongBuy: number
+  strongSell: number
+  symbol: string
+}
+
+export interface FinnhubPriceTarget {
+  lastUpdated: string
+  numberAnalysts?: number
+  symbol: string
+  targetHigh: number
+  targetLow: number
+  targetMean: number
+  targetMedian: number
+}
+
+export interface FinnhubRatingChange {
+  action: string
+  company: string
+  fromGrade: string
+  gradeTime: number // unix seconds
+  symbol: string
+  toGrade: string
+}
+
+export interface FinnhubInsiderTransactions {
+  data: Array<{
+    change: number
+    filingDate: string
+    isDerivative?: boolean
+    name: string
+    share: number // shares held after the transaction
+    transactionCode: string
+    transactionDate: string
+    transactionPrice: number
+  }>
+  symbol: string
+}
+
+export interface FinnhubInsiderSentiment {
+  data: Array<{ change: number; month: number; mspr: number; symbol: string; year: number }>
+  symbol: string
+}
+
+export interface FinnhubOwnership {
+  ownership: Array<{ change: number; filingDate: string; name: string; portfolioPercent?: number; share: number }>
+  symbol: string
+}
+
+export interface FinnhubEtfProfile {
+  profile?: {
+    name?: string
+    assetClass?: string
+    aum?: number
+    nav?: number
+    navCurrency?: string
+    expenseRatio?: number // percent
+    trackingIndex?: string
+    etfCompany?: string
+    inceptionDate?: string
+    website?: string
+    description?: string
+    dividendYield?: number
+    isLeveraged?: boolean
+  }
+  symbol: string
+}
+
+export interface FinnhubEtfHoldings {
+  atDate?: string
+  numberOfHoldings?: number
+  holdings?: Array<{ symbol?: string; name: string; share?: number; percent: number; value?: number }>
+  symbol: string
+}
+
+export interface FinnhubEtfSector {
+  sectorExposure?: Array<{ industry: string; exposure: number }>
+}
+
+export interface FinnhubEtfCountry {
+  countryExposure?: Array<{ country: string; exposure: number }>
+}
+
+interface FinnhubReportedItem {
+  concept: string // "us-gaap_Revenues"
+  label: string
+  unit: string
+  value: number | string
+}
+
+export interface FinnhubFinancialsReported {
+  symbol: string
+  data: Array<{
+    year: number
+    quarter: number // 0 for annual filings
+    form: string
+    startDate: string
+    endDate: string
+    filedDate: string
+    report: { bs?: FinnhubReportedItem[]; ic?: FinnhubReportedItem[]; cf?: FinnhubReportedItem[] }
+  }>
+}
+
+/**
+ * XBRL concepts for each normalized line item, most specific first.
+ * Filers pick different tags for the same thing (and change them over the
+ * years), so the first one present in a filing wins.
+ */
+const CONCEPTS: Record<keyof FinancialItems, string[]> = {
+  revenue: [
+    "Revenues",
+    "RevenueFromContractWithCustomerExcludingAssessedTax",
+    "RevenueFromContractWithCustomerIncludingAssessedTax",
+    "SalesRevenueNet",
+  ],
+  costOfRevenue: ["CostOfRevenue", "CostOfGoodsAndServicesSold", "CostOfGoodsSold"],
+  grossProfit: ["GrossProfit"],
+  researchAndDevelopment: ["ResearchAndDevelopmentExpense"],
+  sellingGeneralAdmin: ["SellingGeneralAndAdministrativeExpense"],
+  operatingIncome: ["OperatingIncomeLoss"],
+  interestExpense: ["InterestExpense", "InterestExpenseDebt"],
+  pretaxIncome: [
+    "IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest",
+    "IncomeLossFromContinuingOperationsBeforeIncomeTaxesMinorityInterestAndIncomeLossFromEquityMethodInvestments",
+  ],
+  incomeTax: ["IncomeTaxExpenseBenefit"],
+  netIncome: ["NetIncomeLoss", "ProfitLoss", "NetIncomeLossAvailableToCommonStockholdersBasic"],
+  epsBasic: ["EarningsPerShareBasic", "EarningsPerShareBasicAndDiluted"],
+  epsDiluted: ["EarningsPerShareDiluted", "EarningsPerShareBasicAndDiluted"],
+  sharesDiluted: ["WeightedAverageNumberOfDilutedSharesOutstanding"],
+  cash: ["CashAndCashEquivalentsAtCarryingValue", "CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalents"],
+  shortTermInvestments: ["MarketableSecuritiesCurrent", "ShortTermInvestments", "AvailableForSaleSecuritiesDebtSecuritiesCurrent"],
+  currentAssets: ["AssetsCurrent"],
+  totalAssets: ["Assets"],
+  currentLiabilities: ["LiabilitiesCurrent"],
+  totalLiabilities: ["Liabilities"],
+  shortTermDebt: ["DebtCurrent", "LongTermDebtCurrent", "ShortTermBorrowings"],
+  longTermDebt: ["LongTermDebtNoncurrent", "LongTermDebt"],
+  totalEquity: ["StockholdersEquity", "StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest"],
+  operatingCashFlow: [
+    "NetCashProvidedByUsedInOperatingActivities",
+    "NetCashProvidedByUsedInOperatingActivitiesContinuingOperations",
+  ],
+  capitalExpenditure: ["PaymentsToAcquirePropertyPlantAndEquipment", "PaymentsToAcquireProductiveAssets"],
+  dividendsPaid: ["PaymentsOfDividends", "PaymentsOfDividendsCommonStock"],
+  shareRepurchase: ["PaymentsForRepurchaseOfCommonStock"],
+}
+
+const CASH_FLOW_ITEMS: Array<keyof FinancialItems> = ["operatingCashFlow", "capitalExpenditure", "dividendsPaid", "shareRepurchase"]
+
+const INCOME_FLOW_ITEMS: Array<keyof FinancialItems> = [
+  "revenue",
+  "costOfRevenue",
+  "grossProfit",
+  "researchAndDevelopment",
+  "sellingGeneralAdmin",
+  "operatingIncome",
+  "interestExpense",
+  "pretaxIncome",
+  "incomeTax",
+  "netIncome",
+]
+
+function reportedItems(report: FinnhubFinancialsReported["data"][number]["report"]): { items: FinancialItems; currency: string } {
+  const values = new Map<string, number>()
+  let currency = ""
+  for (const entry of [...(report.ic || []), ...(report.bs || []), ...(report.cf || [])]) {
+    const value = typeof entry.value === "number" ? entry.value : Number(entry.value)
+    if (!Number.isFinite(value)) continue
+    // "us-gaap_Revenues" / "us-gaap:Revenues" -> "Revenues"
+    const concept = entry.concept.replace(/^[^_:]+[_:]/, "")
+    if (!values.has(concept)) values.set(concept, value)
+    if (!currency && /^[A-Z]{3}$/.test(entry.unit)) currency = entry.unit
+  }
+
+  const items: FinancialItems = {}
+  for (const [item, concepts] of Object.entries(CONCEPTS) as Array<[keyof FinancialItems, string[]]>) {
+    const concept = concepts.find((c) => values.has(c))
+    if (concept) items[item] = values.get(concept)
+  }
+  if (items.grossProfit == null && items.revenue != null && items.costOfRevenue != null) {
+    items.grossProfit = items.revenue - items.costOfRevenue
+  }
+  return { items, currency: currency || "USD" }
+}
+
+/**
+ * Turn quarterly filings into single-quarter figures. 10-Q cash flow
+ * statements are year-to-date, and the fourth quarter only appears as the
+ * 10-K's full-year numbers, so each is reduced by what came before it.
+ * Items that can't be derived (a missing earlier quarter, Q4 per-share data)
+ * are dropped rather than shown as year-to-date values.
+ */
+function toSingleQuarters(statements: FinancialStatement[]): void {
+  const reported = new Map(statements.map((s) => [`${s.fiscalYear}Q${s.fiscalQuarter}`, { ...s.items }]))
+  const prior = (s: FinancialStatement, q: number) => reported.get(`${s.fiscalYear}Q${q}`)
+
+  for (const statement of statements) {
+    const quarter = statement.fiscalQuarter
+    if (!quarter || quarter === 1) continue
+    const items = statement.items
+    const previous = prior(statement, quarter - 1)
+    for (const item of CASH_FLOW_ITEMS) {
+      if (items[item] == null) continue
+      const before = previous?.[item]
+      if (before == null) delete items[item]
+      else items[item] = items[item]! - before
+    }
+
+    if (quarter !== 4 || !statement.form.startsWith("10-K")) continue
+    const earlier = [1, 2, 3].map((q) => prior(statement, q))
+    for (const item of INCOME_FLOW_ITEMS) {
+      if (items[item] == null) continue
+      const values = earlier.map((e) => e?.[item])
+      if (values.some((v) => v == null)) delete items[item]
+      else items[item] = items[item]! - values.reduce((sum, v) => sum! + v!, 0)!
+    }
+    delete items.epsBasic
+    delete items.epsDiluted
+    delete items.sharesDiluted
+  }
+}
+
+const DEFAULT_CALLS_PER_MINUTE = 60
+const MAX_RETRIES = 3
+const BACKOFF_BASE_MS = 1_000
+
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  "/quote": { ttlMs: 15 * SECOND },
+  "/search": { ttlMs: HOUR, swrMs: DAY, persist: true },
+  "/stock/symbol": { ttlMs: DAY, swrMs: 7 * DAY },
+  "/stock/profile2": { ttlMs: 12 * HOUR, swrMs: 7 * DAY, persist: true },
+  "/stock/metric": { ttlMs: 6 * HOUR, swrMs: DAY, persist: true },
+  "/stock/peers": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/company-news": { ttlMs: 5 * MINUTE },
+  "/news": { ttlMs: 5 * MINUTE },
+  "/news-sentiment": { ttlMs: 30 * MINUTE, swrMs: 2 * HOUR },
+  "/stock/market-status": { ttlMs: MINUTE },
+  "/stock/market-holiday": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/forex/rates": { ttlMs: 5 * MINUTE, swrMs: HOUR },
+  "/crypto/exchange": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/forex/exchange": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/crypto/symbol": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/forex/symbol": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/calendar/earnings": { ttlMs: HOUR, swrMs: 6 * HOUR },
+  "/calendar/ipo": { ttlMs: HOUR, swrMs: 6 * HOUR },
+  "/calendar/economic": { ttlMs: 30 * MINUTE, swrMs: HOUR },
+  "/stock/earnings": { ttlMs: 6 * HOUR, swrMs: DAY, persist: true },
+  "/stock/financials-reported": { ttlMs: 12 * HOUR, swrMs: 7 * DAY, persist: true },
+  "/stock/recommendation": { ttlMs: 6 * HOUR, swrMs: DAY, persist: true },
+  "/stock/price-target": { ttlMs: 6 * HOUR, swrMs: DAY, persist: true },
+  "/stock/upgrade-downgrade": { ttlMs: HOUR, swrMs: 6 * HOUR },
+  "/stock/insider-transactions": { ttlMs: HOUR, swrMs: 6 * HOUR },
+  "/stock/insider-sentiment": { ttlMs: 12 * HOUR, swrMs: DAY, persist: true },
+  "/stock/ownership": { ttlMs: 12 * HOUR, swrMs: 7 * DAY, persist: true },
+  "/stock/fund-ownership": { ttlMs: 12 * HOUR, swrMs: 7 * DAY, persist: true },
+  "/etf/profile": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/etf/holdings": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/etf/sector": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+  "/etf/country": { ttlMs: DAY, swrMs: 7 * DAY, persist: true },
+}
+
+const DEFAULT_CACHE_POLICY: CachePolicy = { ttlMs: 15 * SECOND }
+
+// Pairs have no quote endpoint; their quote comes from this much of 5-minute bars, enough to span a forex weekend
+const PAIR_QUOTE_LOOKBACK_SECONDS = 4 * 86400
+
+// Live prices that stop changing while the symbol's exchange is closed
+const MARKET_HOURS_PATHS = new Set(["/quote"])
+
+function cachePolicy(path: string, params: Record<string, string>): CachePolicy {
+  if (path.endsWith("/candle")) return marketAwarePolicy(candlePolicy(params.resolution, Number(params.to)), params.symbol)
+  const policy = CACHE_POLICIES[path] ?? DEFAULT_CACHE_POLICY
+  return MARKET_HOURS_PATHS.has(path) ? marketAwarePolicy(policy, params.symbol) : policy
+}
+
+let callsPerMinute = () => DEFAULT_CALLS_PER_MINUTE
+const limiter = createRateLimiter(() => callsPerMinute())
+const inflight = new Map<string, Promise<unknown>>()
+
+/** Point the shared limiter at the plan's quota (calls per minute). */
+export function setFinnhubQuota(getQuota: () => number): void {
+  callsPerMinute = () => getQuota() || DEFAULT_CALLS_PER_MINUTE
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function backoff(attempt: number): number {
+  return BACKOFF_BASE_MS * 2 ** attempt + Math.floor(Math.random() * 250)
+}
+
+/** How long to hold off after a 429, from `Retry-After` or Finnhub's reset header. */
+function retryAfterMs(res: Response, attempt: number): number {
+  const retryAfter = Number(res.headers.get("retry-after"))
+  if (retryAfter > 0) return retryAfter * 1000
+  const reset = Number(res.headers.get("x-ratelimit-reset"))
+  if (reset > 0) {
+    const ms = reset * 1000 - Date.now()
+    if (ms > 0) return ms
+  }
+  return backoff(attempt)
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  // Writes are only retried when Finnhub says it rejected them (429)
+  const idempotent = !init?.method || init.method === "GET"
+  for (let attempt = 0; ; attempt++) {
+    let res: Response
+    try {
+      res = await limiter.schedule(() => fetch(url, init))
+    } catch (e) {
+      if (!idempotent || attempt >= MAX_RETRIES) {
+        throw new ProviderError("finnhub", 503, `Finnhub unreachable: ${e instanceof Error ? e.message : String(e)}`)
+      }
+      await sleep(backoff(attempt))
+      continue
+    }
+
+    const remaining = res.headers.get("x-ratelimit-remaining")
+    if (remaining != null) {
+      limiter.sync(Number(remaining), Number(res.headers.get("x-ratelimit-reset")) || undefined)
+    }
+
+    if (res.ok) return (await res.json()) as T
+
+    const retryable = res.status === 429 || (idempotent && res.status >= 500)
+    if (!retryable || attempt >= MAX_RETRIES) {
+      const text = await res.text()
+      if (res.status === 429) {
+        throw new ProviderError("finnhub", 429, `Finnhub rate limit exceeded after ${MAX_RETRIES} retries. Try again shortly, or raise "Finnhub Calls Per Minute" if you are on a paid plan.`)
+      }
+      if (res.status === 403) {
+        throw new ProviderError("finnhub", 403, `Finnhub 403: ${text.trim()} This endpoint may need a paid Finnhub plan.`)
+      }
+      throw new ProviderError("finnhub", res.status, `Finnhub ${res.status}: ${text}`)
+    }
+
+    if (res.status === 429) {
+      const wait = retryAfterMs(res, attempt)
+      limiter.pause(wait)
+      await sleep(wait)
+    } else {
+      await sleep(backoff(attempt))
+    }
+  }
+}
+
+export async function finnhub<T>(path: string, apiKey: string, params: Record<string, string> = {}): Promise<T> {
+  const cacheKey = `finnhub:${path}?${JSON.stringify(params)}`
+
+  return cached(cacheKey, cachePolicy(path, params), () => {
+    // Identical requests already on the wire share one upstream call
+    const pending = inflight.get(cacheKey)
+    if (pending) return pending as Promise<T>
+
+    const url = new URL(`${BASE}${path}`)
+    url.searchParams.set("token", apiKey)
+    for (const [k, v] of Object.entries(params)) {
+      url.searchParams.set(k, v)
+    }
+
+    const call = request<T>(url.toString()).finally(() => inflight.delete(cacheKey))
+    inflight.set(cacheKey, call)
+    return call
+  })
+}
+
+/** Uncached, uncoalesced call for endpoints that change state or must be fresh (webhook management). */
+export async function finnhubSend<T>(
+  method: "GET" | "POST",
+  path: string,
+  apiKey: string,
+  body?: Record<string, unknown>
+): Promise<T> {
+  const url = new URL(`${BASE}${path}`)
+  url.searchParams.set("token", apiKey)
+  return request<T>(url.toString(), {
+    method,
+    headers: body ? { "content-type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+}
+
+/** Crypto and forex pairs have their own candle endpoints. */
+function candlePath(symbol: string): string {
+  return `/${assetClassOf(symbol)}/candle`
+}
+
+export function toCandles(raw: FinnhubCandles): Candle[] {
+  if (raw.s !== "ok" || !raw.c) return []
+  return raw.t.map((time, i) => ({
+    time,
+    open: raw.o[i],
+    high: raw.h[i],
+    low: raw.l[i],
+    close: raw.c[i],
+    volume: raw.v[i],
+  }))
+}
+
+function toNewsItem(n: FinnhubNewsItem): NewsItem {
+  return {
+    id: String(n.id),
+    datetime: n.datetime,
+    headline: n.headline,
+    summary: n.summary,
+    source: n.source,
+    url: n.url,
+    image: n.image,
+    category: n.category,
+    related: n.related,
+    sentiment: null,
+  }
+}
+
+function isoDate(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0]
+}
+
+export function createFinnhubProvider(ctx: PluginContext): MarketDataProvider {
+  const key = () => ctx.getSetting<string>("finnhubApiKey")
+  setFinnhubQuota(() => Number(ctx.getSetting<number>("finnhubCallsPerMinute")))
+
+  return {
+    id: "finnhub",
+    label: "Finnhub",
+
+    isConfigured: () => !!key(),
+
+    async quote(symbol) {
+      if (parseInstrument(symbol)) {
+        const to = Math.floor(Date.now() / 60_000) * 60
+        const raw = await finnhub<FinnhubCandles>(candlePath(symbol), key(), {
+          symbol,
+          resolution: "5",
+          from: String(to - PAIR_QUOTE_LOOKBACK_SECONDS),
+          to: String(to),
+        })
+        return rollingQuote(symbol, toCandles(raw))
+      }
+      const q = await finnhub<FinnhubQuote>("/quote", key(), { symbol })
+      if (!q.c && !q.o) return null
+      const quote: Quote = {
+        symbol,
+        price: q.c,
+        change: q.d,
+        changePercent: q.dp,
+        high: q.h,
+        low: q.l,
+        open: q.o,
+        previousClose: q.pc,
+        timestamp: q.t,
+      }
+      return quote
+    },
+
+    async candles(symbol, resolution, from, to) {
+      const raw = await finnhub<FinnhubCandles>(candlePath(symbol), key(), {
+        symbol,
+        resolution,
+        from: String(from),
+        to: String(to),
+      })
+      return toCandles(raw)
+    },
+
+    async profile(symbol) {
+      const p = await finnhub<FinnhubProfile>("/stock/profile2", key(), { symbol })
+      if (!p.name) return null
+      const profile: CompanyProfile = {
+        symbol: p.ticker || symbol,
+        name: p.name,
+        exchange: p.exchange,
+        industry: p.finnhubIndustry,
+        country: p.country,
+        currency: p.currency,
+        ipo: p.ipo,
+        logo: p.logo,
+        marketCap: p.marketCapitalization * 1e6,
+        sharesOutstanding: p.shareOutstanding * 1e6,
+        website: p.weburl,
+        phone: p.phone,
+      }
+      return profile
+    },
+
+    async search(query) {
+      const results = await finnhub<FinnhubSearchResult>("/search", key(), { q: query })
+      return (results.result || []).map((r): SymbolMatch => ({
+        symbol: r.symbol,
+        displaySymbol: r.displaySymbol,
+        description: r.description,
+        type: r.type,
+      }))
+    },
+
+    async listedSymbols(exchange) {
+      const symbols = await finnhub<FinnhubInstrument[]>("/stock/symbol", key(), { exchange })
+      return (symbols || []).map((s): SymbolMatch => ({
+        symbol: s.symbol,
+        displaySymbol: s.displaySymbol,
+        description: s.description,
+        type: s.type || "",
+      }))
+    },
+
+    async exchanges(assetClass) {
+      const exchanges = await finnhub<string[]>(`/${assetClass}/exchange`, key())
+      return [...new Set((exchanges || []).map((e) => e.toUpperCase()))].sort()
+    },
+
+    async instruments(assetClass, exchange) {
+      const symbols = await finnhub<FinnhubInstrument[]>(`/${assetClass}/symbol`, key(), { exchange: exchange.toLowerCase() })
+      return (symbols || []).map((s): SymbolMatch => ({
+        symbol: s.symbol,
+        displaySymbol: s.displaySymbol,
+        description: s.description,
+        type: assetClass === "crypto" ? "Crypto" : "Forex",
+      }))
+    },
+
+    async news({ symbol, category, from, to }) {
+      let news: FinnhubNewsItem[]
+      if (symbol) {
+        news = await finnhub<FinnhubNewsItem[]>("/company-news", key(), {
+          symbol,
+          from: from || isoDate(Date.now() - 7 * 86400000),
+          to: to || isoDate(Date.now()),
+        })
+      } else {
+        news = await finnhub<FinnhubNewsItem[]>("/news", key(), { category: category || "general" })
+      }
+      return (news || []).map(toNewsItem)
+    },
+
+    async newsSentiment(symbol) {
+      const res = await finnhub<FinnhubNewsSentiment>("/news-sentiment", key(), { symbol })
+      if (!res?.sentiment) return null
+      const { bullishPercent, bearishPercent } = res.sentiment
+      return {
+        symbol,
+        score: bullishPercent - bearishPercent,
+        bullishPercent: bullishPercent * 100,
+        bearishPercent: bearishPercent * 100,
+        articles: res.buzz?.articlesInLastWeek ?? null,
+        buzz: res.buzz?.buzz ?? null,
+      }
+    },
+
+    async peers(symbol) {
+      const peers = await finnhub<string[]>("/stock/peers", key(), { symbol, grouping: "industry" })
+      return peers || []
+    },
+
+    async metrics(symbol) {
+      const data = await finnhub<{ metric: Record<string, number | null> }>("/stock/metric", key(), {
+        symbol,
+        metric: "all",
+      })
+      if (!data.metric || Object.keys(data.metric).length === 0) return null
+      return data.metric
+    },
+
+    async marketStatus(exchange) {
+      const s = await finnhub<FinnhubMarketStatus>("/stock/market-status", key(), { exchange })
+      if (!s?.exchange) return null
+      const session = s.session === "pre-market" ? "pre" : s.session === "post-market" ? "post" : s.isOpen ? "regular" : "closed"
+      return { exchange: s.exchange, session, holiday: s.holiday || null, timestamp: s.t }
+    },
+
+    async marketHolidays(exchange) {
+      const res = await finnhub<FinnhubMarketHolidays>("/stock/market-holiday", key(), { exchange })
+      return (res?.data || [])
+        .map((h): MarketHoliday => ({ exchange, date: h.atDate, name: h.eventName, tradingHours: h.tradingHour || "" }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    },
+
+    // One call returns every rate for the base, so later pairs come from cache
+    async fxRate(from, to) {
+      const res = await finnhub<FinnhubForexRates>("/forex/rates", key(), { base: from })
+      const rate = res?.quote?.[to]
+      return rate ? { from, to, rate, timestamp: Math.floor(Date.now() / 1000) } : null
+    },
+
+    async earningsCalendar({ from, to, symbol }) {
+      const params: Record<string, string> = { from, to }
+      if (symbol) params.symbol = symbol
+      const data = await finnhub<FinnhubEarningsCalendar>("/calendar/earnings", key(), params)
+      return (data.earningsCalendar || []).map((e): EarningsEvent => ({
+        symbol: e.symbol,
+        date: e.date,
+        hour: e.hour || "",
+        quarter: e.quarter ?? null,
+        year: e.year ?? null,
+        epsEstimate: e.epsEstimate ?? null,
+        epsActual: e.epsActual ?? null,
+        revenueEstimate: e.revenueEstimate ?? null,
+        revenueActual: e.revenueActual ?? null,
+      }))
+    },
+
+    async earningsHistory(symbol, limit) {
+      const data = await finnhub<FinnhubEarningsSurprise[]>("/stock/earnings", key(), { symbol, limit: String(limit) })
+      return (data || []).map((e): EarningsSurprise => ({
+        symbol: e.symbol || symbol,
+        period: e.period,
+        quarter: e.quarter ?? null,
+        year: e.year ?? null,
+        actual: e.actual ?? null,
+        estimate: e.estimate ?? null,
+        surprise: e.surprise ?? null,
+        surprisePercent: e.surprisePercent ?? null,
+      }))
+    },
+
+    async ipoCalendar({ from, to }) {
+      const data = await finnhub<FinnhubIpoCalendar>("/calendar/ipo", key(), { from, to })
+      return (data.ipoCalendar || []).map((e): IpoEvent => {
+        const [low, high] = (e.price || "").split("-").map((p) => (p.trim() ? Number(p) : NaN))
+        return {
+          symbol: e.symbol || "",
+          name: e.name,
+          date: e.date,
+          exchange: e.exchange || "",
+          status: e.status || "",
+          priceLow: Number.isFinite(low) ? low : null,
+          priceHigh: Number.isFinite(high) ? high : Number.isFinite(low) ? low : null,
+          shares: e.numberOfShares ?? null,
+          totalValue: e.totalSharesValue ?? null,
+        }
+      })
+    },
+
+    async economicCalendar({ from, to }) {
+      const data = await finnhub<FinnhubEconomicCalendar>("/calendar/economic", key(), { from, to })
+      return (data.economicCalendar || []).map((e): EconomicEvent => ({
+        time: new Date(e.time.replace(" ", "T") + "Z").toISOString(),
+        country: e.country,
+        event: e.event,
+        impact: e.impact || "",
+        actual: e.actual ?? null,
+        estimate: e.estimate ?? null,
+        previous: e.prev ?? null,
+        unit: e.unit || "",
+      }))
+    },
+
+    async financials(symbol, period, limit) {
+      const freq = period === "quarterly" ? "quarterly" : "annual"
+      const raw = await finnhub<FinnhubFinancialsReported>("/stock/financials-reported", key(), { symbol, freq })
+      const statements = (raw.data || [])
+        .map((filing): FinancialStatement => {
+          const { items, currency } = reportedItems(filing.report || {})
+          return {
+            symbol: raw.symbol || symbol,
+            period,
+            fiscalYear: filing.year,
+            fiscalQuarter: period === "quarterly" ? filing.quarter || null : null,
+            endDate: (filing.endDate || "").slice(0, 10),
+            filedDate: filing.filedDate ? filing.filedDate.slice(0, 10) : null,
+            form: filing.form || "",
+            currency,
+            items,
+          }
+        })
+        .sort((a, b) => b.endDate.localeCompare(a.endDate))
+      if (period === "quarterly") toSingleQuarters(statements)
+      return statements.slice(0, limit)
+    },
+
+    async recommendations(symbol) {
+      const data = await finnhub<FinnhubRecommendation[]>("/stock/recommendation", key(), { symbol })
+      return (data || [])
+        .map((r): RecommendationTrend => ({
+          period: r.period,
+          strongBuy: r.strongBuy,
+          buy: r.buy,
+          hold: r.hold,
+          sell: r.sell,
+          strongSell: r.strongSell,
+        }))
+        .sort((a, b) => b.period.localeCompare(a.period))
+    },
+
+    async priceTarget(symbol) {
+      const t = await finnhub<FinnhubPriceTarget>("/stock/price-target", key(), { symbol })
+      if (!t || !(t.targetMean || t.targetMedian)) return null
+      return {
+        symbol: t.symbol || symbol,
+        high: t.targetHigh || null,
+        low: t.targetLow || null,
+        mean: t.targetMean || null,
+        median: t.targetMedian || null,
+        analysts: t.numberAnalysts ?? null,
+        updated: t.lastUpdated ? t.lastUpdated.slice(0, 10) : null,
+      }
+    },
+
+    async ratingChanges(symbol, from) {
+      const data = await finnhub<FinnhubRatingChange[]>("/stock/upgrade-downgrade", key(), { symbol, from })
+      return (data || [])
+        .map((r): RatingChange => ({
+          symbol: r.symbol || symbol,
+          date: isoDate(r.gradeTime * 1000),
+          firm: r.company,
+          fromGrade: r.fromGrade || "",
+          toGrade: r.toGrade || "",
+          action: r.action || "",
+        }))
+        .sort((a, b) => b.date.localeCompare(a.date))
+    },
+
+    async insiderTransactions(symbol, from, to) {
+      const res = await finnhub<FinnhubInsiderTransactions>("/stock/insider-transactions", key(), { symbol, from, to })
+      return (res?.data || [])
+        .map((r): InsiderTransaction => ({
+          symbol,
+          name: r.name,
+          title: "",
+          date: r.transactionDate,
+          filedDate: r.filingDate || null,
+          type: r.transactionCode === "P" ? "buy" : r.transactionCode === "S" ? "sell" : "other",
+          code: r.transactionCode || "",
+          change: r.change,
+          price: r.transactionPrice || null,
+          sharesHeld: r.share ?? null,
+          derivative: !!r.isDerivative,
+        }))
+        .filter((r) => r.date >= from && r.date <= to)
+        .sort((a, b) => b.date.localeCompare(a.date))
+    },
+
+    async insiderSentiment(symbol, from, to) {
+      const res = await finnhub<FinnhubInsiderSentiment>("/stock/insider-sentiment", key(), { symbol, from, to })
+      return (res?.data || [])
+        .map((r): InsiderSentiment => ({
+          period: `${r.year}-${String(r.month).padStart(2, "0")}`,
+          change: r.change,
+          mspr: r.mspr,
+        }))
+        .sort((a, b) => a.period.localeCompare(b.period))
+    },
+
+    async holders(symbol, kind, limit) {
+      const path = kind === "fund" ? "/stock/fund-ownership" : "/stock/ownership"
+      const res = await finnhub<FinnhubOwnership>(path, key(), { symbol, limit: String(limit) })
+      return (res?.ownership || [])
+        .map((r): Holder => ({
+          name: r.name,
+          shares: r.share,
+          change: r.change,
+          filedDate: r.filingDate || null,
+          portfolioPercent: r.portfolioPercent ?? null,
+        }))
+        .sort((a, b) => b.shares - a.shares)
+        .slice(0, limit)
+    },
+
+    async etfProfile(symbol) {
+      const p = (await finnhub<FinnhubEtfProfile>("/etf/profile", key(), { symbol }))?.profile
+      if (!p?.name) return null
+      const profile: EtfProfile = {
+        symbol,
+        name: p.name,
+        issuer: p.etfCompany || null,
+        benchmark: p.trackingIndex || null,
+        assetClass: p.assetClass || null,
+        expenseRatio: p.expenseRatio ?? null,
+        aum: p.aum ?? null,
+        nav: p.nav ?? null,
+        currency: p.navCurrency || null,
+        inceptionDate: p.inceptionDate || null,
+        dividendYield: p.dividendYield ?? null,
+        leveraged: p.isLeveraged ?? null,
+        website: p.website || null,
+        description: p.description || null,
+      }
+      return profile
+    },
+
+    async etfHoldings(symbol) {
+      const res = await finnhub<FinnhubEtfHoldings>("/etf/holdings", key(), { symbol })
+      if (!res?.holdings?.length) return null
+      const holdings: EtfHoldings = {
+        symbol,
+        asOf: res.atDate || null,
+        count: res.numberOfHoldings ?? res.holdings.length,
+        holdings: res.holdings
+          .map((h): EtfHolding => ({
+            symbol: h.symbol || null,
+            name: h.name,
+            weight: h.percent,
+            shares: h.share ?? null,
+            value: h.value ?? null,
+          }))
+          .sort((a, b) => b.weight - a.weight),
+      }
+      return holdings
+    },
+
+    async etfExposure(symbol, kind) {
+      const weights =
+        kind === "sector"
+          ? ((await finnhub<FinnhubEtfSector>("/etf/sector", key(), { symbol }))?.sectorExposure || []).map(
+              (e): ExposureWeight => ({ name: e.industry, weight: e.exposure })
+            )
+          : ((await finnhub<FinnhubEtfCountry>("/etf/country", key(), { symbol }))?.countryExposure || []).map(
+              (e): ExposureWeight => ({ name: e.country, weight: e.exposure })
+            )
+      return weights.filter((w) => w.weight > 0).sort((a, b) => b.weight - a.weight)
+    },
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Provider registry and failover.
+ * `createMarketData()` returns a provider that walks the configured
+ * providers in priority order, moving on when one errors or has no data.
+ */
+
+import type { PluginContext } from "../types"
+import { createAlphaVantageProvider } from "./alphavantage"
+import { createFinnhubProvider } from "./finnhub"
+import { ProviderError, type MarketDataProvider } from "./provider"
+
+export { ProviderError, type MarketDataProvider } from "./provider"
+
+/** The failover chain implements every method, optional ones included. */
+export type MarketData = Required<MarketDataProvider>
+
+const DEFAULT_PRIORITY = "finnhub,alphavantage"
+
+const FACTORIES: Record<string, (ctx: PluginContext) => MarketDataProvider> = {
+  finnhub: createFinnhubProvider,
+  alphavantage: createAlphaVantageProvider,
+}
+
+export function createMarketData(ctx: PluginContext): MarketData {
+  const providers = Object.fromEntries(Object.entries(FACTORIES).map(([id, create]) => [id, create(ctx)]))
+
+  function active(): MarketDataProvider[] {
+    const priority = (ctx.getSetting<string>("providerPriority") || DEFAULT_PRIORITY)
+      .split(",")
+      .map((id) => id.trim().toLowerCase())
+      .filter((id) => providers[id])
+    return [...new Set(priority)].map((id) => providers[id]).filter((p) => p.isConfigured())
+  }
+
+  async function failover<T>(
+    method: keyof MarketDataProvider,
+    call: (p: MarketDataProvider) => Promise<T>,
+    isEmpty: (result: T) => boolean
+  ): Promise<T> {
+    const configured = active()
+    if (configured.length === 0) {
+      throw new ProviderError("none", 401, "No market data API key configured. Set a Finnhub or Alpha Vantage key in plugin settings.")
+    }
+    const chain = configured.filter((p) => typeof p[method] === "function")
+    if (chain.length === 0) {
+      throw new ProviderError("none", 501, `None of the configured providers offers ${method.replace(/[A-Z]/g, (c) => ` ${c.toLowerCase()}`)} data. Add a Finnhub API key in plugin settings.`)
+    }
+
+    let firstError: unknown = null
+    let emptyResult: { value: T } | null = null
+    for (const provider of chain) {
+      try {
+        const result = await call(provider)
+        if (!isEmpty(result)) return result
+        emptyResult ??= { value: result }
+      } catch (e) {
+        ctx.log.warn(`${provider.label} ${method} failed:`, e instanceof Error ? e.message : String(e))
+        firstError ??= e
+      }
+    }
+
+    // A provider answering "no data" beats a provider erroring out
+    if (emptyResult) return emptyResult.value
+    throw firstError
+  }
+
+  const isNull = (r: unknown) => r == null
+  const isEmptyList = (r: unknown[]) => r.length === 0
+
+  return {
+    id: "failover",
+    label: "Market data",
+
+    isConfigured: () => active().length > 0,
+
+    quote: (symbol) => failover("quote", (p) => p.quote(symbol), isNull),
+    candles: (symbol, resolution, from, to) =>
+      failover("candles", (p) => p.candles(symbol, resolution, from, to), isEmptyList),
+    profile: (symbol) => failover("profile", (p) => p.profile(symbol), isNull),
+    search: (query) => failover("search", (p) => p.search(query), isEmptyList),
+    news: (query) => failover("news", (p) => p.news(query), isEmptyList),
+    peers: (symbol) => failover("peers", (p) => p.peers(symbol), isEmptyList),
+    metrics: (symbol) => failover("metrics", (p) => p.metrics(symbol), isNull),
+    marketStatus: (exchange) => failover("marketStatus", (p) => p.marketStatus!(exchange), isNull),
+    marketHolidays: (exchange) => failover("marketHolidays", (p) => p.marketHolidays!(exchange), isEmptyList),
+    fxRate: (from, to) => failover("fxRate", (p) => p.fxRate!(from, to), isNull),
+    exchanges: (assetClass) => failover("exchanges", (p) => p.exchanges!(assetClass), isEmptyList),
+    instruments: (assetClass, exchange) => failover("instruments", (p) => p.instruments!(assetClass, exchange), isEmptyList),
+    listedSymbols: (exchange) => failover("listedSymbols", (p) => p.listedSymbols!(exchange), isEmptyList),
+    earningsCalendar: (query) => failover("earningsCalendar", (p) => p.earningsCalendar!(query), isEmptyList),
+    earningsHistory: (symbol, limit) => failover("earningsHistory", (p) => p.earningsHistory!(symbol, limit), isEmptyList),
+    ipoCalendar: (query) => failover("ipoCalendar", (p) => p.ipoCalendar!(query), isEmptyList),
+    economicCalendar: (query) => failover("economicCalendar", (p) => p.economicCalendar!(query), isEmptyList),
+    financials: (symbol, period, limit) => failover("financials", (p) => p.financials!(symbol, period, limit), isEmptyList),
+    recommendations: (symbol) => failover("recommendations", (p) => p.recommendations!(symbol), isEmptyList),
+    priceTarget: (symbol) => failover("priceTarget", (p) => p.priceTarget!(symbol), isNull),
+    ratingChanges: (symbol, from) => failover("ratingChanges", (p) => p.ratingChanges!(symbol, from), isEmptyList),
+    newsSentiment: (symbol) => failover("newsSentiment", (p) => p.newsSentiment!(symbol), isNull),
+    insiderTransactions: (symbol, from, to) =>
+      failover("insiderTransactions", (p) => p.insiderTransactions!(symbol, from, to), isEmptyList),
+    insiderSentiment: (symbol, from, to) => failover("insiderSentiment", (p) => p.insiderSentiment!(symbol, from, to), isEmptyList),
+    holders: (symbol, kind, limit) => failover("holders", (p) => p.holders!(symbol, kind, limit), isEmptyList),
+    etfProfile: (symbol) => failover("etfProfile", (p) => p.etfProfile!(symbol), isNull),
+    etfHoldings: (symbol) => failover("etfHoldings", (p) => p.etfHoldings!(symbol), (r) => !r || r.holdings.length === 0),
+    etfExposure: (symbol, kind) => failover("etfExposure", (p) => p.etfExposure!(symbol, kind), isEmptyList),
+  }
+}
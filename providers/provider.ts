@@ -0,0 +1,98 @@
+/**
+ * Market data provider contract.
+ * Methods resolve to `null` (or an empty list) when the provider has no
+ * data for the request, and throw `ProviderError` when the call itself fails.
+ * Optional methods cover data only some providers offer; the failover chain
+ * skips providers that don't implement them.
+ */
+
+import type {
+  CalendarQuery,
+  Candle,
+  CandleResolution,
+  CompanyProfile,
+  EarningsEvent,
+  EarningsSurprise,
+  EconomicEvent,
+  EtfHoldings,
+  EtfProfile,
+  ExposureKind,
+  ExposureWeight,
+  FinancialStatement,
+  FxRate,
+  Holder,
+  HolderKind,
+  InsiderSentiment,
+  InsiderTransaction,
+  InstrumentClass,
+  IpoEvent,
+  MarketHoliday,
+  MarketStatus,
+  Metrics,
+  NewsItem,
+  NewsQuery,
+  NewsSentiment,
+  PriceTarget,
+  Quote,
+  RatingChange,
+  RecommendationTrend,
+  StatementPeriod,
+  SymbolMatch,
+} from "../models"
+
+export interface MarketDataProvider {
+  id: string
+  label: string
+  isConfigured(): boolean
+  quote(symbol: string): Promise<Quote | null>
+  candles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<Candle[]>
+  profile(symbol: string): Promise<CompanyProfile | null>
+  search(query: string): Promise<SymbolMatch[]>
+  news(query: NewsQuery): Promise<NewsItem[]>
+  peers(symbol: string): Promise<string[]>
+  metrics(symbol: string): Promise<Metrics | null>
+  marketStatus?(exchange: string): Promise<MarketStatus | null>
+  /** Upcoming and recent exchange holidays, oldest first. */
+  marketHolidays?(exchange: string): Promise<MarketHoliday[]>
+  fxRate?(from: string, to: string): Promise<FxRate | null>
+  /** Venues listing crypto or forex pairs, e.g. BINANCE, OANDA. */
+  exchanges?(assetClass: InstrumentClass): Promise<string[]>
+  /** Pairs an exchange lists, with `EXCHANGE:PAIR` symbols. */
+  instruments?(assetClass: InstrumentClass, exchange: string): Promise<SymbolMatch[]>
+  /** Every security listed on an exchange (e.g. US), with its security type. */
+  listedSymbols?(exchange: string): Promise<SymbolMatch[]>
+  earningsCalendar?(query: CalendarQuery): Promise<EarningsEvent[]>
+  earningsHistory?(symbol: string, limit: number): Promise<EarningsSurprise[]>
+  ipoCalendar?(query: CalendarQuery): Promise<IpoEvent[]>
+  economicCalendar?(query: CalendarQuery): Promise<EconomicEvent[]>
+  /** Reported statements, newest first. */
+  financials?(symbol: string, period: StatementPeriod, limit: number): Promise<FinancialStatement[]>
+  /** Monthly analyst rating counts, newest first. */
+  recommendations?(symbol: string): Promise<RecommendationTrend[]>
+  priceTarget?(symbol: string): Promise<PriceTarget | null>
+  /** Upgrades, downgrades and initiations since `from` (YYYY-MM-DD), newest first. */
+  ratingChanges?(symbol: string, from: string): Promise<RatingChange[]>
+  newsSentiment?(symbol: string): Promise<NewsSentiment | null>
+  /** Insider filings with transaction dates in `from`..`to` (YYYY-MM-DD), newest first. */
+  insiderTransactions?(symbol: string, from: string, to: string): Promise<InsiderTransaction[]>
+  /** Monthly insider sentiment, oldest first. */
+  insiderSentiment?(symbol: string, from: string, to: string): Promise<InsiderSentiment[]>
+  /** Largest holders of the given kind, biggest position first. */
+  holders?(symbol: string, kind: HolderKind, limit: number): Promise<Holder[]>
+  etfProfile?(symbol: string): Promise<EtfProfile | null>
+  /** Fund constituents, largest weight first. */
+  etfHoldings?(symbol: string): Promise<EtfHoldings | null>
+  /** Sector or country weights of a fund, largest first. */
+  etfExposure?(symbol: string, kind: ExposureKind): Promise<ExposureWeight[]>
+}
+
+export class ProviderError extends Error {
+  constructor(
+    public provider: string,
+    public status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = "ProviderError"
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Multi-symbol quote fetching shared by `stock_quotes` and watchlists.
+ */
+
+import type { Quote } from "./models"
+import type { MarketDataProvider } from "./providers"
+import type { Currency } from "./currency"
+import type { Table } from "./output"
+import { quoteFreshness, type QuoteFreshness } from "./sessions"
+
+export interface QuoteRow {
+  symbol: string
+  quote: Quote | null
+  currency?: string // the listing's trading currency
+  freshness?: QuoteFreshness
+  error?: string
+}
+
+export type QuoteSort = "change_desc" | "change_asc" | "symbol"
+
+export const QUOTE_SORTS: QuoteSort[] = ["change_desc", "change_asc", "symbol"]
+
+export async function fetchQuotes(market: MarketDataProvider, currency: Currency, symbols: string[]): Promise<QuoteRow[]> {
+  return Promise.all(
+    symbols.map(async (symbol): Promise<QuoteRow> => {
+      try {
+        const [quote, code] = await Promise.all([market.quote(symbol), currency.instrumentCurrency(symbol)])
+        return quote ? { symbol, quote, currency: code, freshness: quoteFreshness(symbol, quote.timestamp) } : { symbol, quote }
+      } catch (e) {
+        return { symbol, quote: null, error: e instanceof Error ? e.message : String(e) }
+      }
+    })
+  )
+}
+
+/** Sort rows in place; symbols without a quote always go last. */
+export function sortQuoteRows(rows: QuoteRow[], sort: QuoteSort): QuoteRow[] {
+  return rows.sort((a, b) => {
+    if (sort === "symbol") return a.symbol.localeCompare(b.symbol)
+    if (!a.quote || !b.quote) return (a.quote ? 0 : 1) - (b.quote ? 0 : 1)
+    const diff = a.quote.changePercent - b.quote.changePercent
+    return sort === "change_asc" ? diff : -diff
+  })
+}
+
+export function formatQuoteRow({ symbol, quote, currency: code, freshness, error }: QuoteRow, currency: Currency): string {
+  if (error) return `${symbol}: Error fetching`
+  if (!quote) return `${symbol}: No data`
+  const dir = quote.change >= 0 ? "+" : ""
+  const marker = freshness?.stale ? ` — ${freshness.note}` : ""
+  return `${symbol}: ${currency.format(quote.price, code ?? "USD")} (${dir}${quote.changePercent.toFixed(2)}%)${marker}`
+}
+
+export function quoteRowsTable(rows: QuoteRow[]): Table {
+  return {
+    columns: ["symbol", "price", "currency", "change", "changePercent", "open", "high", "low", "previousClose", "timestamp", "asOf", "stale", "error"],
+    rows: rows.map(({ symbol, quote: q, currency, freshness, error }) => [
+      symbol,
+      q?.price ?? null,
+      currency ?? null,
+      q?.change ?? null,
+      q?.changePercent ?? null,
+      q?.open ?? null,
+      q?.high ?? null,
+      q?.low ?? null,
+      q?.previousClose ?? null,
+      q?.timestamp ?? null,
+      freshness?.asOf ?? null,
+      freshness?.stale ?? null,
+      error ?? (q ? null : "No data"),
+    ]),
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Token-bucket rate limiter.
+ * Tasks are queued and started only when a token is available; the bucket
+ * refills continuously at `perMinute` tokens per minute.
+ */
+
+// Finnhub also enforces a 30 calls/second ceiling regardless of plan
+const MAX_BURST = 30
+
+export interface RateLimiter {
+  /** Run `task` once a token is available. */
+  schedule<T>(task: () => Promise<T>): Promise<T>
+  /** Align the bucket with quota information reported by the upstream API. */
+  sync(remaining: number, resetAt?: number): void
+  /** Stop starting new tasks for `ms` (e.g. after a 429). */
+  pause(ms: number): void
+  /** Number of tasks waiting for a token. */
+  pending(): number
+}
+
+interface QueuedTask {
+  run: () => void
+}
+
+export function createRateLimiter(perMinute: () => number): RateLimiter {
+  const queue: QueuedTask[] = []
+  let tokens = Math.min(perMinute(), MAX_BURST)
+  let lastRefill = Date.now()
+  let pausedUntil = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  function capacity(): number {
+    return Math.max(1, Math.min(perMinute(), MAX_BURST))
+  }
+
+  function refill(): void {
+    const now = Date.now()
+    const rate = Math.max(1, perMinute()) / 60_000
+    tokens = Math.min(capacity(), tokens + (now - lastRefill) * rate)
+    lastRefill = now
+  }
+
+  function drain(): void {
+    timer = null
+    refill()
+    while (queue.length > 0 && tokens >= 1 && Date.now() >= pausedUntil) {
+      tokens -= 1
+      queue.shift()!.run()
+    }
+    if (queue.length === 0) return
+
+    const rate = Math.max(1, perMinute()) / 60_000
+    const untilToken = Math.ceil((1 - tokens) / rate)
+    const wait = Math.max(untilToken, pausedUntil - Date.now(), 10)
+    timer = setTimeout(drain, wait)
+  }
+
+  function kick(): void {
+    if (timer) clearTimeout(timer)
+    drain()
+  }
+
+  return {
+    schedule(task) {
+      return new Promise((resolve, reject) => {
+        queue.push({ run: () => task().then(resolve, reject) })
+        if (!timer) drain()
+      })
+    },
+
+    sync(remaining, resetAt) {
+      refill()
+      tokens = Math.min(tokens, Math.max(0, remaining))
+      if (remaining <= 0 && resetAt && resetAt * 1000 > Date.now()) {
+        pausedUntil = Math.max(pausedUntil, resetAt * 1000)
+      }
+    },
+
+    pause(ms) {
+      tokens = 0
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms)
+      kick()
+    },
+
+    pending: () => queue.length,
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Market data routes, mounted under `/px/stock-data`.
+ * Responses use the provider-neutral shapes from `./models`; failures are
+ * thrown and turned into status codes by `handleRouteError`.
+ */
+
+import type { CandleResolution } from "./models"
+import type { MarketData } from "./providers"
+import { Elysia, t } from "elysia"
+import { fetchCandles, MAX_HISTORY_DAYS, resolveRange } from "./candles"
+import { toCsvRow } from "./csv"
+import {
+  convertFields,
+  currencyCode,
+  METRIC_MONEY_FIELDS,
+  PROFILE_MONEY_FIELDS,
+  QUOTE_MONEY_FIELDS,
+  type Conversion,
+  type Currency,
+} from "./currency"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { oneOf, resolutionSchema, symbolParams } from "./http"
+import { ASSET_CLASSES, INSTRUMENT_CLASSES, searchInstruments } from "./instruments"
+import { fetchNews, MAX_NEWS_SYMBOLS, NEWS_CATEGORIES, parseNewsFilter } from "./news"
+import { candlesTable, type Table } from "./output"
+import { fetchQuotes } from "./quotes"
+import { quoteFreshness } from "./sessions"
+
+const MAX_QUOTES = 50
+const MAX_PAIR_MATCHES = 20
+const currencyQuery = t.Object({
+  currency: t.Optional(t.String({ minLength: 3, maxLength: 3, description: "Convert money values to this currency" })),
+})
+const CSV_BATCH_ROWS = 500
+
+/** Stream a table as a CSV download, a batch of rows at a time. */
+function csvResponse(filename: string, { columns, rows }: Table): Response {
+  let next = 0
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvRow(columns) + "\n"))
+    },
+    pull(controller) {
+      const batch = rows.slice(next, next + CSV_BATCH_ROWS)
+      next += batch.length
+      if (batch.length > 0) controller.enqueue(encoder.encode(batch.map((r) => toCsvRow(r) + "\n").join("")))
+      if (next >= rows.length) controller.close()
+    },
+  })
+  return new Response(body, {
+    headers: {
+      "content-type": "text/csv; charset=utf-8",
+      "content-disposition": `attachment; filename="${filename}"`,
+    },
+  })
+}
+
+export function marketRoutes(market: MarketData, currency: Currency) {
+  // Values stay in the listing's own currency unless `?currency=` asks otherwise
+  async function conversion(target: string | undefined, native: () => Promise<string>): Promise<Conversion | null> {
+    if (!target) return null
+    const from = await native()
+    const to = currencyCode(target)
+    return { from, to, rate: (await currency.rate(from, to)).rate }
+  }
+
+  return new Elysia()
+    .get("/quote/:symbol", async ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase()
+      const quote = await market.quote(symbol)
+      if (!quote) throw new NotFoundError(`No data found for symbol "${symbol}".`)
+      const fx = await conversion(query.currency, () => currency.instrumentCurrency(symbol))
+      const freshness = quoteFreshness(symbol, quote.timestamp)
+      return fx ? { ...convertFields(quote, QUOTE_MONEY_FIELDS, fx.rate), currency: fx.to, fx, ...freshness } : { ...quote, ...freshness }
+    }, { params: symbolParams, query: currencyQuery })
+
+    .get("/quotes", async ({ query }) => {
+      const symbols = [...new Set(query.symbols.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean))]
+      if (symbols.length > MAX_QUOTES) throw new InvalidInputError(`At most ${MAX_QUOTES} symbols per quotes request.`)
+      return { quotes: await fetchQuotes(market, currency, symbols) }
+    }, {
+      query: t.Object({ symbols: t.String({ minLength: 1, description: "Comma-separated symbols" }) }),
+    })
+
+    .get("/search/:query", async ({ params, query }) => {
+      const assetClass = query.asset_class ?? "all"
+      const classes = INSTRUMENT_CLASSES.filter((c) => assetClass === "all" || assetClass === c)
+      const [results, pairs] = await Promise.all([
+        assetClass === "all" || assetClass === "stock" ? market.search(params.query) : [],
+        classes.length > 0 ? searchInstruments(market, params.query, classes, MAX_PAIR_MATCHES) : [],
+      ])
+      return { query: params.query, results: [...results, ...pairs] }
+    }, {
+      params: t.Object({ query: t.String({ minLength: 1, maxLength: 100 }) }),
+      query: t.Object({ asset_class: t.Optional(oneOf("asset_class", ["all", ...ASSET_CLASSES])) }),
+    })
+
+    .get("/profile/:symbol", async ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase()
+      const profile = await market.profile(symbol)
+      if (!profile) throw new NotFoundError(`No company profile found for "${symbol}".`)
+      const fx = await conversion(query.currency, async () => profile.currency || "USD")
+      return fx ? { ...convertFields(profile, PROFILE_MONEY_FIELDS, fx.rate), currency: fx.to, fx } : profile
+    }, { params: symbolParams, query: currencyQuery })
+
+    // `/candles/AAPL.csv` streams the full series as CSV instead of JSON
+    .get("/candles/:symbol", async ({ params, query }) => {
+      const csv = /\.csv$/i.test(params.symbol)
+      const symbol = (csv ? params.symbol.slice(0, -4) : params.symbol).toUpperCase()
+      const resolution = (query.resolution ?? "D") as CandleResolution
+      const { from, to } = resolveRange(query, resolution)
+      const candles = await fetchCandles(market, symbol, resolution, from, to)
+      if (candles.length === 0) throw new NotFoundError(`No candle data for "${symbol}" with resolution ${resolution}.`)
+      if (csv) return csvResponse(`${symbol}-${resolution}.csv`, candlesTable(candles))
+      return { symbol, resolution, from, to, candles }
+    }, {
+      params: symbolParams,
+      query: t.Object({
+        resolution: t.Optional(resolutionSchema),
+        days: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_HISTORY_DAYS })),
+        from: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD, ISO timestamp or unix seconds" })),
+        to: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD, ISO timestamp or unix seconds" })),
+      }),
+    })
+
+    .get("/news", async ({ query }) => {
+      const filter = parseNewsFilter(query)
+      const { stories, sentiment, errors } = await fetchNews(market, filter, {
+        limit: query.limit ?? 20,
+        sentiment: query.sentiment !== false,
+      })
+      const symbol = filter.symbols.length === 1 ? filter.symbols[0] : null
+      return { symbol, ...filter, sentiment, news: stories, errors }
+    }, {
+      query: t.Object({
+        symbol: t.Optional(symbolParams.properties.symbol),
+        symbols: t.Optional(t.String({ minLength: 1, description: `Comma-separated symbols (max ${MAX_NEWS_SYMBOLS})` })),
+        category: t.Optional(oneOf("category", NEWS_CATEGORIES)),
+        from: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD" })),
+        to: t.Optional(t.String({ minLength: 1, description: "YYYY-MM-DD" })),
+        keywords: t.Optional(t.String({ minLength: 1, description: "Comma-separated words or phrases" })),
+        sources: t.Optional(t.String({ minLength: 1, description: "Comma-separated outlet names" })),
+        sentiment: t.Optional(t.BooleanString()),
+        limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+      }),
+    })
+
+    .get("/peers/:symbol", async ({ params }) => {
+      const symbol = params.symbol.toUpperCase()
+      const peers = await market.peers(symbol)
+      if (peers.length === 0) throw new NotFoundError(`No peers found for "${symbol}".`)
+      return { symbol, peers: peers.filter((p) => p !== symbol) }
+    }, { params: symbolParams })
+
+    .get("/metrics/:symbol", async ({ params, query }) => {
+      const symbol = params.symbol.toUpperCase()
+      const metrics = await market.metrics(symbol)
+      if (!metrics) throw new NotFoundError(`No metrics found for "${symbol}".`)
+      const fx = await conversion(query.currency, () => currency.instrumentCurrency(symbol))
+      return fx ? { symbol, currency: fx.to, fx, metrics: convertFields(metrics, METRIC_MONEY_FIELDS, fx.rate) } : { symbol, metrics }
+    }, { params: symbolParams, query: currencyQuery })
+}
@@ -0,0 +1,592 @@
+/**
+ * Stock screener: filters a universe of symbols (an exchange listing, a
+ * watchlist, a company's peers or an explicit list) on metric and profile
+ * fields. Screens run as background jobs that fetch a couple of symbols at
+ * a time through the shared rate limiter, so interactive calls keep flowing
+ * and repeated screens are served from the cache. Jobs live in memory.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { CompanyProfile } from "./models"
+import type { MarketData } from "./providers"
+import type { Watchlists } from "./watchlists"
+import { Elysia, t } from "elysia"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err, formatLargeNumber } from "./format"
+import { oneOf } from "./http"
+import { listArg } from "./news"
+import { formatProp, outputFormat, respond, type Table } from "./output"
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const DEFAULT_MAX_SYMBOLS = 200
+const MAX_SYMBOLS = 2000
+const MAX_JOBS = 20
+const MAX_ERRORS_KEPT = 20
+
+// Symbols fetched at once: enough to keep the limiter busy without
+// queueing ahead of interactive requests for long
+const CONCURRENCY = 2
+
+// A job whose first symbols all fail is stopped (bad key, quota exhausted)
+const ABORT_AFTER_FAILURES = 5
+
+// How long stock_screen waits for a job before handing back its id
+const TOOL_WAIT_MS = 20_000
+
+// Security types screened from an exchange listing
+const EQUITY_TYPES = new Set(["Common Stock", "ADR", "REIT"])
+
+const PROFILE_FIELDS: Record<string, keyof CompanyProfile> = {
+  name: "name",
+  industry: "industry",
+  country: "country",
+  exchange: "exchange",
+  currency: "currency",
+  marketcap: "marketCap",
+  ipo: "ipo",
+}
+
+// Short names for common metric keys
+const METRIC_ALIASES: Record<string, string> = {
+  pe: "peTTM",
+  pb: "pbQuarterly",
+  ps: "psTTM",
+  peg: "pegRatio",
+  eps: "epsTTM",
+  dividendyield: "dividendYieldIndicatedAnnual",
+  yield: "dividendYieldIndicatedAnnual",
+  roe: "roeTTM",
+  netmargin: "netProfitMarginTTM",
+  operatingmargin: "operatingMarginTTM",
+  revenuegrowth: "revenueGrowthTTMYoy",
+  high52: "52WeekHigh",
+  low52: "52WeekLow",
+}
+
+const OPERATORS = ["<=", ">=", "!=", "=", "<", ">", "~"] as const
+type Operator = (typeof OPERATORS)[number]
+
+function isOperator(op: string): op is Operator {
+  return OPERATORS.includes(op as Operator)
+}
+
+const FILTER_PATTERN = /^\s*([A-Za-z0-9_.]+)\s*(<=|>=|!=|=|<|>|~)\s*(.+?)\s*$/
+
+const SUFFIXES: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 }
+
+export const SCREEN_ORDERS = ["asc", "desc"] as const
+type SortOrder = (typeof SCREEN_ORDERS)[number]
+
+export interface ScreenField {
+  field: string // metric key or profile field
+  source: "metric" | "profile"
+}
+
+export interface ScreenFilter extends ScreenField {
+  op: Operator
+  value: number | string
+  text: string // with the field name resolved, e.g. "peTTM < 20"
+}
+
+export interface ScreenRequest {
+  symbols?: string[]
+  watchlist?: string
+  peersOf?: string
+  exchange?: string
+  filters?: string[]
+  sort?: string
+  order?: SortOrder
+  limit?: number
+  maxSymbols?: number
+}
+
+export interface ScreenUniverse {
+  source: "symbols" | "watchlist" | "peers" | "exchange"
+  name: string | null // watchlist, peer symbol or exchange
+  size: number
+  /** Equities the exchange lists, when the universe was capped at `maxSymbols`. */
+  listed: number | null
+}
+
+export interface ScreenRow {
+  symbol: string
+  name: string | null
+  values: Record<string, number | string | null>
+}
+
+export type ScreenStatus = "running" | "done" | "failed" | "cancelled"
+
+export interface ScreenJobView {
+  id: string
+  status: ScreenStatus
+  universe: ScreenUniverse
+  filters: string[]
+  sort: string | null
+  order: SortOrder
+  progress: { done: number; total: number; failed: number; percent: number; etaSeconds: number | null }
+  /** Symbols that passed every filter so far. */
+  matched: number
+  matches: ScreenRow[]
+  /** Symbols that couldn't be fetched, with the reason (first few only). */
+  errors: Record<string, string>
+  error: string | null
+  startedAt: string
+  finishedAt: string | null
+}
+
+interface Criteria {
+  filters: ScreenFilter[]
+  sort: ScreenField | null
+  order: SortOrder
+  limit: number
+}
+
+interface ScreenJob {
+  id: string
+  status: ScreenStatus
+  criteria: Criteria
+  universe: ScreenUniverse
+  symbols: string[]
+  done: number
+  failed: number
+  rows: ScreenRow[]
+  errors: Record<string, string>
+  error: string | null
+  startedAt: number
+  finishedAt: number | null
+  finished: Promise<void>
+}
+
+export interface Screener {
+  /** Resolve the universe and start screening it in the background. */
+  start(request: ScreenRequest): Promise<ScreenJobView>
+  get(id: string): ScreenJobView | null
+  list(): ScreenJobView[]
+  cancel(id: string): ScreenJobView
+  /** The job once it finishes, or its progress after `ms`. */
+  wait(id: string, ms: number): Promise<ScreenJobView>
+}
+
+// Running jobs across plugin instances, stopped on deactivate
+const running = new Set<ScreenJob>()
+
+export function resolveField(name: string): ScreenField {
+  const key = name.trim()
+  const profile = PROFILE_FIELDS[key.toLowerCase()]
+  if (profile) return { field: profile, source: "profile" }
+  return { field: METRIC_ALIASES[key.toLowerCase()] ?? key, source: "metric" }
+}
+
+function parseNumber(text: string): number | null {
+  const match = text.trim().replace(/[,$%]/g, "").match(/^(-?\d+(?:\.\d+)?)\s*([KMBT])?$/i)
+  if (!match) return null
+  return Number(match[1]) * (match[2] ? SUFFIXES[match[2].toUpperCase()] : 1)
+}
+
+/** Parse `pe < 20`, `dividendYield >= 2`, `industry ~ semiconductor`, `marketCap > 10B`. */
+export function parseFilter(text: string): ScreenFilter {
+  const match = text.match(FILTER_PATTERN)
+  const op = match?.[2] ?? ""
+  if (!match || !isOperator(op)) {
+    throw new InvalidInputError(`Can't read filter "${text}". Use field, operator (${OPERATORS.join(" ")}) and value, e.g. "pe < 20".`)
+  }
+  const name = match[1]
+  const raw = match[3]
+  const field = resolveField(name)
+  const number = parseNumber(raw)
+  const unquoted = raw.replace(/^["']|["']$/g, "")
+
+  let value: number | string
+  if (op === "~") value = unquoted
+  else if (number != null) value = number
+  else if (op === "=" || op === "!=") value = unquoted
+  else throw new InvalidInputError(`Filter "${text}" compares with ${op}, which needs a number.`)
+
+  return { ...field, op, value, text: `${field.field} ${op} ${op === "~" ? unquoted : raw}` }
+}
+
+function test(filter: ScreenFilter, value: number | string | null): boolean {
+  if (value == null || value === "") return false
+  if (filter.op === "~") return String(value).toLowerCase().includes(String(filter.value).toLowerCase())
+  if (typeof filter.value === "string") {
+    const equal = String(value).toLowerCase() === filter.value.toLowerCase()
+    return filter.op === "=" ? equal : !equal
+  }
+  if (typeof value !== "number") return false
+  switch (filter.op) {
+    case "<": return value < filter.value
+    case "<=": return value <= filter.value
+    case ">": return value > filter.value
+    case ">=": return value >= filter.value
+    case "=": return value === filter.value
+    case "!=": return value !== filter.value
+  }
+}
+
+function compareValues(a: number | string | null, b: number | string | null): number {
+  if (a == null || b == null) return (a == null ? 1 : 0) - (b == null ? 1 : 0)
+  return typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b))
+}
+
+function sortRows(rows: ScreenRow[], criteria: Criteria): ScreenRow[] {
+  const { sort, order } = criteria
+  if (!sort) return [...rows].sort((a, b) => a.symbol.localeCompare(b.symbol))
+  return [...rows].sort((a, b) => {
+    const x = a.values[sort.field]
+    const y = b.values[sort.field]
+    // Rows without the value go last either way
+    if (x == null || y == null) return compareValues(x, y)
+    return order === "asc" ? compareValues(x, y) : compareValues(y, x)
+  })
+}
+
+function view(job: ScreenJob): ScreenJobView {
+  const total = job.symbols.length
+  const elapsed = ((job.finishedAt ?? Date.now()) - job.startedAt) / 1000
+  const remaining = total - job.done
+  return {
+    id: job.id,
+    status: job.status,
+    universe: job.universe,
+    filters: job.criteria.filters.map((f) => f.text),
+    sort: job.criteria.sort?.field ?? null,
+    order: job.criteria.order,
+    progress: {
+      done: job.done,
+      total,
+      failed: job.failed,
+      percent: total ? (job.done / total) * 100 : 100,
+      etaSeconds: job.status === "running" && job.done > 0 ? Math.round((elapsed / job.done) * remaining) : null,
+    },
+    matched: job.rows.length,
+    matches: sortRows(job.rows, job.criteria).slice(0, job.criteria.limit),
+    errors: job.errors,
+    error: job.error,
+    startedAt: new Date(job.startedAt).toISOString(),
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : null,
+  }
+}
+
+/** Stop every running screen; called on deactivate. */
+export function cancelScreens(): void {
+  for (const job of running) {
+    job.status = "cancelled"
+    job.finishedAt = Date.now()
+  }
+  running.clear()
+}
+
+export function createScreener(market: MarketData, watchlists: Watchlists): Screener {
+  const jobs = new Map<string, ScreenJob>()
+
+  function mustGet(id: string): ScreenJob {
+    const job = jobs.get(id)
+    if (!job) throw new NotFoundError(`Screen "${id}" not found. Finished screens are kept for the last ${MAX_JOBS} jobs.`)
+    return job
+  }
+
+  function criteriaOf(request: ScreenRequest): Criteria {
+    const filters = (request.filters ?? []).map(parseFilter)
+    const sort = request.sort ? resolveField(request.sort) : null
+    if (filters.length === 0 && !sort) throw new InvalidInputError("Give at least one filter or a sort field.")
+    return {
+      filters,
+      sort,
+      order: request.order ?? "desc",
+      limit: Math.min(Math.max(Math.floor(request.limit || DEFAULT_LIMIT), 1), MAX_LIMIT),
+    }
+  }
+
+  async function universeOf(request: ScreenRequest): Promise<{ universe: ScreenUniverse; symbols: string[] }> {
+    const sources = [request.symbols?.length, request.watchlist, request.peersOf, request.exchange].filter(Boolean)
+    if (sources.length !== 1) {
+      throw new InvalidInputError("Choose exactly one universe: a symbol list, a watchlist, peers of a symbol, or an exchange.")
+    }
+    const maxSymbols = Math.min(Math.max(Math.floor(request.maxSymbols || DEFAULT_MAX_SYMBOLS), 1), MAX_SYMBOLS)
+    const unique = (symbols: string[]) => [...new Set(symbols.map((s) => s.trim().toUpperCase()).filter(Boolean))]
+
+    let symbols: string[]
+    let universe: Omit<ScreenUniverse, "size">
+    if (request.symbols?.length) {
+      symbols = unique(request.symbols)
+      universe = { source: "symbols", name: null, listed: null }
+    } else if (request.watchlist) {
+      const list = watchlists.get(request.watchlist)
+      if (!list) throw new NotFoundError(`Watchlist "${request.watchlist}" not found.`)
+      symbols = list.symbols
+      universe = { source: "watchlist", name: list.name, listed: null }
+    } else if (request.peersOf) {
+      const symbol = request.peersOf.toUpperCase()
+      symbols = unique([symbol, ...(await market.peers(symbol))])
+      universe = { source: "peers", name: symbol, listed: null }
+    } else {
+      const exchange = request.exchange!.toUpperCase()
+      const listed = unique((await market.listedSymbols(exchange)).filter((s) => EQUITY_TYPES.has(s.type)).map((s) => s.symbol)).sort()
+      symbols = listed
+      universe = { source: "exchange", name: exchange, listed: listed.length > maxSymbols ? listed.length : null }
+    }
+
+    symbols = symbols.slice(0, maxSymbols)
+    if (symbols.length === 0) throw new NotFoundError("The screen universe has no symbols.")
+    return { universe: { ...universe, size: symbols.length }, symbols }
+  }
+
+  async function evaluate(job: ScreenJob, symbol: string): Promise<ScreenRow | null> {
+    const { filters, sort } = job.criteria
+    const fields = sort ? [...filters, sort] : filters
+    const [profile, metrics] = await Promise.all([
+      fields.some((f) => f.source === "profile") ? market.profile(symbol) : null,
+      fields.some((f) => f.source === "metric") ? market.metrics(symbol) : null,
+    ])
+
+    const valueOf = (f: ScreenField): number | string | null =>
+      f.source === "profile" ? ((profile?.[f.field as keyof CompanyProfile] as number | string | undefined) ?? null) : (metrics?.[f.field] ?? null)
+    if (!filters.every((f) => test(f, valueOf(f)))) return null
+    return { symbol, name: profile?.name || null, values: Object.fromEntries(fields.map((f) => [f.field, valueOf(f)])) }
+  }
+
+  async function run(job: ScreenJob): Promise<void> {
+    const queue = [...job.symbols]
+    const worker = async () => {
+      while (queue.length > 0 && job.status === "running") {
+        const symbol = queue.shift()!
+        try {
+          const row = await evaluate(job, symbol)
+          if (row && job.status === "running") job.rows.push(row)
+        } catch (e) {
+          job.failed++
+          const message = e instanceof Error ? e.message : String(e)
+          if (Object.keys(job.errors).length < MAX_ERRORS_KEPT) job.errors[symbol] = message
+          if (job.failed >= ABORT_AFTER_FAILURES && job.failed === job.done + 1 && job.status === "running") {
+            job.status = "failed"
+            job.error = message
+          }
+        }
+        job.done++
+      }
+    }
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker))
+    if (job.status === "running") job.status = "done"
+    job.finishedAt ??= Date.now()
+    running.delete(job)
+  }
+
+  function prune(): void {
+    const finished = [...jobs.values()].filter((j) => j.status !== "running")
+    for (const job of finished.slice(0, Math.max(0, jobs.size - MAX_JOBS))) jobs.delete(job.id)
+  }
+
+  return {
+    async start(request) {
+      const criteria = criteriaOf(request)
+      const { universe, symbols } = await universeOf(request)
+      const job: ScreenJob = {
+        id: crypto.randomUUID().slice(0, 8),
+        status: "running",
+        criteria,
+        universe,
+        symbols,
+        done: 0,
+        failed: 0,
+        rows: [],
+        errors: {},
+        error: null,
+        startedAt: Date.now(),
+        finishedAt: null,
+        finished: Promise.resolve(),
+      }
+      jobs.set(job.id, job)
+      running.add(job)
+      prune()
+      job.finished = run(job)
+      return view(job)
+    },
+
+    get: (id) => {
+      const job = jobs.get(id)
+      return job ? view(job) : null
+    },
+
+    list: () => [...jobs.values()].reverse().map(view),
+
+    cancel(id) {
+      const job = mustGet(id)
+      if (job.status === "running") {
+        job.status = "cancelled"
+        job.finishedAt = Date.now()
+        running.delete(job)
+      }
+      return view(job)
+    },
+
+    async wait(id, ms) {
+      const job = mustGet(id)
+      let timer: ReturnType<typeof setTimeout> | undefined
+      await Promise.race([job.finished, new Promise<void>((resolve) => (timer = setTimeout(resolve, ms)))])
+      clearTimeout(timer)
+      return view(job)
+    },
+  }
+}
+
+function formatValue(field: string, value: number | string | null): string {
+  if (value == null) return "—"
+  if (typeof value === "string") return value
+  if (field === "marketCap") return formatLargeNumber(value)
+  return Math.abs(value) >= 1e6 ? formatLargeNumber(value) : value.toFixed(2)
+}
+
+function universeLabel(u: ScreenUniverse): string {
+  const size = u.listed ? `${u.size} of ${u.listed.toLocaleString()} listed stocks` : `${u.size} symbols`
+  if (u.source === "watchlist") return `watchlist "${u.name}" (${size})`
+  if (u.source === "peers") return `peers of ${u.name} (${size})`
+  if (u.source === "exchange") return `exchange ${u.name} (${size})`
+  return size
+}
+
+function fieldsOf(v: ScreenJobView): string[] {
+  return [...new Set(v.matches.flatMap((r) => Object.keys(r.values)))]
+}
+
+function screenTable(v: ScreenJobView): Table {
+  const fields = fieldsOf(v)
+  return {
+    columns: ["symbol", "name", ...fields],
+    rows: v.matches.map((r) => [r.symbol, r.name, ...fields.map((f) => r.values[f] ?? null)]),
+  }
+}
+
+function formatScreen(v: ScreenJobView): string {
+  const p = v.progress
+  const status =
+    v.status === "running"
+      ? `running: ${p.done}/${p.total} symbols (${p.percent.toFixed(0)}%)${p.etaSeconds != null ? `, about ${Math.ceil(p.etaSeconds / 60)} min left` : ""}`
+      : `${v.status} (${p.done}/${p.total} symbols${p.failed ? `, ${p.failed} failed` : ""})`
+  const lines = [`Screen ${v.id} — ${status}`, `Universe: ${universeLabel(v.universe)}`]
+  if (v.filters.length > 0) lines.push(`Filters: ${v.filters.join(", ")}`)
+  if (v.error) lines.push(`Stopped: ${v.error}`)
+
+  const sorted = v.sort ? `, sorted by ${v.sort} ${v.order}` : ""
+  const shown = v.matched > v.matches.length ? ` (top ${v.matches.length} shown)` : ""
+  lines.push(``, `${v.matched} match${v.matched === 1 ? "" : "es"}${v.status === "running" ? " so far" : ""}${sorted}${shown}:`)
+  const fields = fieldsOf(v)
+  for (const r of v.matches) {
+    const values = fields.map((f) => `${f} ${formatValue(f, r.values[f])}`).join(", ")
+    lines.push(`  ${r.symbol.padEnd(8)} ${r.name ? `${r.name} — ` : ""}${values}`)
+  }
+  if (v.status === "running") lines.push(``, `Check progress with stock_screen_status job_id="${v.id}".`)
+  return lines.join("\n")
+}
+
+export function screenerRoutes(screener: Screener) {
+  const find = (id: string) => {
+    const job = screener.get(id)
+    if (!job) throw new NotFoundError(`Screen "${id}" not found.`)
+    return job
+  }
+
+  return new Elysia({ prefix: "/screen" })
+    .get("/", () => ({ jobs: screener.list() }))
+    .post("/", async ({ body, set }) => {
+      set.status = 202
+      return screener.start(body)
+    }, {
+      body: t.Object({
+        symbols: t.Optional(t.Array(t.String(), { maxItems: MAX_SYMBOLS })),
+        watchlist: t.Optional(t.String({ minLength: 1 })),
+        peersOf: t.Optional(t.String({ minLength: 1 })),
+        exchange: t.Optional(t.String({ minLength: 1 })),
+        filters: t.Optional(t.Array(t.String())),
+        sort: t.Optional(t.String({ minLength: 1 })),
+        order: t.Optional(oneOf("order", SCREEN_ORDERS)),
+        limit: t.Optional(t.Number({ minimum: 1, maximum: MAX_LIMIT })),
+        maxSymbols: t.Optional(t.Number({ minimum: 1, maximum: MAX_SYMBOLS })),
+      }),
+    })
+    .get("/:id", ({ params }) => find(params.id))
+    .delete("/:id", ({ params }) => screener.cancel(params.id))
+}
+
+export function screenerTools(screener: Screener): PluginToolDefinition[] {
+  return [
+    // ── Screener ──
+    {
+      definition: {
+        name: "stock_screen",
+        description:
+          "Screen stocks on financial metrics and profile fields, e.g. semiconductor stocks with P/E under 20 and dividend yield over 2%. " +
+          "The universe is one of: a symbol list, a watchlist, a company's peers, or an exchange listing. " +
+          "Large screens run in the background; poll them with stock_screen_status.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbols: { type: "array", items: { type: "string" }, description: "Screen these symbols" },
+            watchlist: { type: "string", description: "Screen a watchlist's symbols" },
+            peers_of: { type: "string", description: "Screen a company and its peers (e.g. NVDA)" },
+            exchange: { type: "string", description: "Screen stocks listed on an exchange (e.g. US), up to max_symbols" },
+            filters: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                'Conditions like "pe < 20", "dividendYield > 2", "industry ~ semiconductor", "country = US", "marketCap > 10B". ' +
+                "Fields are stock_metrics keys (aliases: pe, pb, ps, peg, eps, dividendYield, roe, netMargin, operatingMargin, revenueGrowth) " +
+                "or profile fields (name, industry, country, exchange, currency, marketCap, ipo). ~ means contains.",
+            },
+            sort: { type: "string", description: "Field to sort matches by (e.g. dividendYield)" },
+            order: { type: "string", enum: SCREEN_ORDERS, description: "Sort order (default: desc)" },
+            limit: { type: "number", description: `Max matches to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})` },
+            max_symbols: { type: "number", description: `Cap on the universe size (default: ${DEFAULT_MAX_SYMBOLS}, max: ${MAX_SYMBOLS})` },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const started = await screener.start({
+            symbols: args.symbols ? listArg(args.symbols) : undefined,
+            watchlist: args.watchlist as string | undefined,
+            peersOf: args.peers_of as string | undefined,
+            exchange: args.exchange as string | undefined,
+            filters: listArg(args.filters),
+            sort: args.sort as string | undefined,
+            order: args.order === "asc" ? "asc" : "desc",
+            limit: args.limit != null ? Number(args.limit) : undefined,
+            maxSymbols: args.max_symbols != null ? Number(args.max_symbols) : undefined,
+          })
+          const job = await screener.wait(started.id, TOOL_WAIT_MS)
+          return respond(outputFormat(args), { text: () => formatScreen(job), data: job, table: () => screenTable(job) })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Screener Status ──
+    {
+      definition: {
+        name: "stock_screen_status",
+        description: "Check the progress and current matches of a background stock screen, or cancel it.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            job_id: { type: "string", description: "Screen id returned by stock_screen" },
+            cancel: { type: "boolean", description: "Stop the screen, keeping matches found so far" },
+            format: formatProp,
+          },
+          required: ["job_id"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const id = String(args.job_id)
+          const job = args.cancel ? screener.cancel(id) : screener.get(id)
+          if (!job) return err(`Screen "${id}" not found.`)
+          return respond(outputFormat(args), { text: () => formatScreen(job), data: job, table: () => screenTable(job) })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
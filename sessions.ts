@@ -0,0 +1,425 @@
+/**
+ * Exchange trading sessions: local trading hours per exchange, holidays
+ * learned from the provider, and what they imply for quotes — whether a
+ * price is live or a close from earlier, and how long it can be cached.
+ * Session math runs locally so cache policies can use it without API calls.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { MarketHoliday, MarketSession } from "./models"
+import type { MarketData } from "./providers"
+import type { CachePolicy } from "./cache"
+import { Elysia, t } from "elysia"
+import { InvalidInputError } from "./errors"
+import { err } from "./format"
+import { oneOf, symbolParams } from "./http"
+import { formatProp, outputFormat, respond } from "./output"
+
+const MINUTE_MS = 60_000
+const DAY_MS = 86_400_000
+const MAX_CLOSED_TTL_MS = 6 * 60 * MINUTE_MS
+const STALE_AFTER_SECONDS = 20 * 60
+const LOOKAHEAD_DAYS = 14
+const DEFAULT_HOLIDAY_DAYS = 90
+
+interface ExchangeHours {
+  name: string
+  timeZone: string
+  /** Local "HH:MM" intervals; more than one when the exchange breaks for lunch. */
+  regular: Array<[string, string]>
+  pre?: string // extended-hours start
+  post?: string // extended-hours end
+}
+
+export const EXCHANGES: Record<string, ExchangeHours> = {
+  US: { name: "US (NYSE, Nasdaq)", timeZone: "America/New_York", pre: "04:00", regular: [["09:30", "16:00"]], post: "20:00" },
+  TO: { name: "Toronto", timeZone: "America/Toronto", regular: [["09:30", "16:00"]] },
+  L: { name: "London", timeZone: "Europe/London", regular: [["08:00", "16:30"]] },
+  DE: { name: "Xetra", timeZone: "Europe/Berlin", regular: [["09:00", "17:30"]] },
+  PA: { name: "Euronext Paris", timeZone: "Europe/Paris", regular: [["09:00", "17:30"]] },
+  AS: { name: "Euronext Amsterdam", timeZone: "Europe/Amsterdam", regular: [["09:00", "17:30"]] },
+  MI: { name: "Borsa Italiana", timeZone: "Europe/Rome", regular: [["09:00", "17:30"]] },
+  MC: { name: "Madrid", timeZone: "Europe/Madrid", regular: [["09:00", "17:30"]] },
+  SW: { name: "SIX Swiss", timeZone: "Europe/Zurich", regular: [["09:00", "17:30"]] },
+  T: { name: "Tokyo", timeZone: "Asia/Tokyo", regular: [["09:00", "11:30"], ["12:30", "15:30"]] },
+  HK: { name: "Hong Kong", timeZone: "Asia/Hong_Kong", regular: [["09:30", "12:00"], ["13:00", "16:00"]] },
+  SS: { name: "Shanghai", timeZone: "Asia/Shanghai", regular: [["09:30", "11:30"], ["13:00", "15:00"]] },
+  SZ: { name: "Shenzhen", timeZone: "Asia/Shanghai", regular: [["09:30", "11:30"], ["13:00", "15:00"]] },
+  KS: { name: "Korea", timeZone: "Asia/Seoul", regular: [["09:00", "15:30"]] },
+  NS: { name: "India (NSE)", timeZone: "Asia/Kolkata", regular: [["09:15", "15:30"]] },
+  AX: { name: "ASX", timeZone: "Australia/Sydney", regular: [["10:00", "16:00"]] },
+}
+
+export const EXCHANGE_CODES = Object.keys(EXCHANGES)
+
+// Symbol suffixes (`SAP.DE`, `7203.T`) and the exchange they list on
+const SUFFIX_EXCHANGES: Record<string, string> = {
+  TO: "TO", V: "TO", L: "L", DE: "DE", F: "DE", PA: "PA", AS: "AS", MI: "MI", MC: "MC", SW: "SW",
+  T: "T", HK: "HK", SS: "SS", SZ: "SZ", KS: "KS", KQ: "KS", NS: "NS", BO: "NS", AX: "AX",
+}
+
+const SESSION_LABELS: Record<MarketSession, string> = {
+  pre: "Pre-market",
+  regular: "Open",
+  break: "Midday break",
+  post: "After-hours",
+  closed: "Closed",
+}
+
+/** Holidays by exchange and local date, filled in by `loadHolidays`. */
+const holidays = new Map<string, Map<string, MarketHoliday>>()
+
+/**
+ * Exchange a symbol trades on, or null for round-the-clock instruments
+ * (`BINANCE:BTCUSDT`, `OANDA:EUR_USD`). Unknown suffixes such as share
+ * classes (`BRK.B`) are US listings.
+ */
+export function exchangeForSymbol(symbol: string): string | null {
+  if (symbol.includes(":")) return null
+  const dot = symbol.lastIndexOf(".")
+  return (dot >= 0 && SUFFIX_EXCHANGES[symbol.slice(dot + 1).toUpperCase()]) || "US"
+}
+
+export function exchangeCode(value: unknown): string {
+  const code = String(value ?? "US").trim().toUpperCase()
+  if (!EXCHANGES[code]) throw new InvalidInputError(`exchange must be one of: ${EXCHANGE_CODES.join(", ")}`)
+  return code
+}
+
+// ── Time zone arithmetic ──
+
+interface LocalTime {
+  date: string // YYYY-MM-DD
+  minute: number // minutes since local midnight
+}
+
+const partFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function localTime(ms: number, timeZone: string): LocalTime {
+  let fmt = partFormatters.get(timeZone)
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+    partFormatters.set(timeZone, fmt)
+  }
+  const p = Object.fromEntries(fmt.formatToParts(new Date(ms)).map((x) => [x.type, x.value]))
+  return { date: `${p.year}-${p.month}-${p.day}`, minute: Number(p.hour) * 60 + Number(p.minute) }
+}
+
+/** UTC milliseconds of a local wall-clock time in `timeZone`. */
+function zonedToUtc(date: string, minute: number, timeZone: string): number {
+  const wall = Date.parse(date) + minute * MINUTE_MS
+  const offset = (ms: number) => {
+    const local = localTime(ms, timeZone)
+    return Date.parse(local.date) + local.minute * MINUTE_MS - Math.floor(ms / MINUTE_MS) * MINUTE_MS
+  }
+  const guess = wall - offset(wall)
+  // A second pass settles times near a DST change
+  return wall - offset(guess)
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().split("T")[0]
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number)
+  return h * 60 + m
+}
+
+// ── Sessions ──
+
+interface DaySchedule {
+  regular: Array<[number, number]> // empty when closed all day
+  pre: number | null
+  post: number | null
+  holiday: MarketHoliday | null
+}
+
+function daySchedule(exchange: string, date: string): DaySchedule {
+  const hours = EXCHANGES[exchange]
+  const holiday = holidays.get(exchange)?.get(date) ?? null
+  const weekday = new Date(Date.parse(date)).getUTCDay()
+  if (weekday === 0 || weekday === 6 || (holiday && !holiday.tradingHours)) {
+    return { regular: [], pre: null, post: null, holiday }
+  }
+
+  const regular = hours.regular.map(([open, close]): [number, number] => [toMinutes(open), toMinutes(close)])
+  const early = holiday?.tradingHours.match(/(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})/)
+  if (early) {
+    // Early close: keep the sessions that start before it, cut at the new close, no after-hours
+    const close = toMinutes(early[2])
+    const cut = regular.filter(([open]) => open < close).map(([open, end]): [number, number] => [open, Math.min(end, close)])
+    return { regular: cut, pre: hours.pre ? toMinutes(hours.pre) : null, post: null, holiday }
+  }
+  return {
+    regular,
+    pre: hours.pre ? toMinutes(hours.pre) : null,
+    post: hours.post ? toMinutes(hours.post) : null,
+    holiday,
+  }
+}
+
+function sessionIn(day: DaySchedule, minute: number): MarketSession {
+  if (day.regular.length === 0) return "closed"
+  const open = day.regular[0][0]
+  const close = day.regular[day.regular.length - 1][1]
+  if (day.regular.some(([start, end]) => minute >= start && minute < end)) return "regular"
+  if (minute >= open && minute < close) return "break"
+  if (day.pre != null && minute >= day.pre && minute < open) return "pre"
+  if (day.post != null && minute >= close && minute < day.post) return "post"
+  return "closed"
+}
+
+/**
+ * Next time (UTC ms) after `ms` that a regular session opens, or with
+ * `extended` the next time any trading (pre-market included) starts.
+ */
+function nextOpen(exchange: string, ms: number, extended = false): number | null {
+  const { timeZone } = EXCHANGES[exchange]
+  const today = localTime(ms, timeZone).date
+  for (let i = 0; i <= LOOKAHEAD_DAYS; i++) {
+    const date = addDays(today, i)
+    const day = daySchedule(exchange, date)
+    const starts = day.regular.map(([start]) => start)
+    if (extended && day.pre != null && starts.length > 0) starts.unshift(day.pre)
+    for (const start of starts) {
+      const at = zonedToUtc(date, start, timeZone)
+      if (at > ms) return at
+    }
+  }
+  return null
+}
+
+export interface SessionInfo {
+  exchange: string
+  name: string
+  timeZone: string
+  session: MarketSession
+  isOpen: boolean
+  holiday: string | null
+  localTime: string // ISO-like local wall time
+  nextOpen: string | null // ISO timestamp of the next regular open
+  nextClose: string | null // ISO timestamp of today's regular close, while trading
+}
+
+export function sessionAt(exchange: string, ms = Date.now()): SessionInfo {
+  const hours = EXCHANGES[exchange]
+  const local = localTime(ms, hours.timeZone)
+  const day = daySchedule(exchange, local.date)
+  const session = sessionIn(day, local.minute)
+  const open = nextOpen(exchange, ms)
+  const trading = session === "regular" || session === "break"
+  const close = trading ? zonedToUtc(local.date, day.regular[day.regular.length - 1][1], hours.timeZone) : null
+  return {
+    exchange,
+    name: hours.name,
+    timeZone: hours.timeZone,
+    session,
+    isOpen: session === "regular",
+    holiday: day.holiday?.name ?? null,
+    localTime: `${local.date}T${String(Math.floor(local.minute / 60)).padStart(2, "0")}:${String(local.minute % 60).padStart(2, "0")}`,
+    nextOpen: open != null ? new Date(open).toISOString() : null,
+    nextClose: close != null ? new Date(close).toISOString() : null,
+  }
+}
+
+/**
+ * Cache lifetime for live data on `symbol`: `openTtlMs` during regular
+ * trading, at least a minute in extended hours, and while the exchange is
+ * closed, until trading resumes (capped at 6 hours).
+ */
+export function marketAwareTtl(symbol: string, openTtlMs: number, now = Date.now()): number {
+  const exchange = exchangeForSymbol(symbol)
+  if (!exchange || !EXCHANGES[exchange]) return openTtlMs
+  const { session } = sessionAt(exchange, now)
+  if (session === "regular") return openTtlMs
+  if (session === "pre" || session === "post") return Math.max(openTtlMs, MINUTE_MS)
+  const resume = nextOpen(exchange, now, true)
+  const untilResume = resume != null ? resume - now : MAX_CLOSED_TTL_MS
+  return Math.max(openTtlMs, Math.min(untilResume, MAX_CLOSED_TTL_MS))
+}
+
+/** `policy` with its TTL stretched by `marketAwareTtl` for live data on `symbol`. */
+export function marketAwarePolicy(policy: CachePolicy, symbol: string | undefined): CachePolicy {
+  return symbol ? { ...policy, ttlMs: marketAwareTtl(symbol, policy.ttlMs) } : policy
+}
+
+export function rememberHolidays(exchange: string, list: MarketHoliday[]): void {
+  holidays.set(exchange, new Map(list.map((h) => [h.date, h])))
+}
+
+/** Fetch an exchange's holiday calendar and use it for session math from now on. */
+export async function loadHolidays(market: MarketData, exchange: string): Promise<MarketHoliday[]> {
+  const list = await market.marketHolidays(exchange)
+  rememberHolidays(exchange, list)
+  return list
+}
+
+// ── Quote freshness ──
+
+export interface QuoteFreshness {
+  asOf: string | null // ISO time of the last trade
+  session: MarketSession
+  stale: boolean
+  /** Why the price isn't live, e.g. "Market closed — last trade Fri, Oct 17, 4:00 PM EDT". */
+  note: string | null
+}
+
+export function formatLocal(ms: number, timeZone: string): string {
+  return new Date(ms).toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  })
+}
+
+function ago(seconds: number): string {
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min ago`
+  if (seconds < 86400) return `${Math.round(seconds / 3600)} h ago`
+  return `${Math.round(seconds / 86400)} d ago`
+}
+
+/** Whether a quote with last-trade time `timestamp` (unix seconds) reflects live trading. */
+export function quoteFreshness(symbol: string, timestamp: number, now = Date.now()): QuoteFreshness {
+  const asOf = timestamp > 0 ? new Date(timestamp * 1000).toISOString() : null
+  const age = timestamp > 0 ? now / 1000 - timestamp : Infinity
+  const exchange = exchangeForSymbol(symbol)
+  const info = exchange && EXCHANGES[exchange] ? sessionAt(exchange, now) : null
+  const session = info?.session ?? "regular"
+  const zone = info?.timeZone ?? "UTC"
+  const lastTrade = asOf ? `last trade ${formatLocal(timestamp * 1000, zone)}` : "no trade time reported"
+
+  if (session === "regular") {
+    if (age <= STALE_AFTER_SECONDS) return { asOf, session, stale: false, note: null }
+    return { asOf, session, stale: true, note: `Stale: ${lastTrade}${asOf ? ` (${ago(age)})` : ""}` }
+  }
+  const state = session === "closed" ? `Market closed${info?.holiday ? ` (${info.holiday})` : ""}` : `${SESSION_LABELS[session]} session`
+  return { asOf, session, stale: true, note: `${state} — ${lastTrade}` }
+}
+
+// ── Tool and route ──
+
+export interface MarketStatusReport extends SessionInfo {
+  /** "provider" when the exchange status came from the data provider, "schedule" when computed from trading hours. */
+  source: "provider" | "schedule"
+  hours: { pre: string | null; regular: Array<[string, string]>; post: string | null }
+  holidays: MarketHoliday[]
+  /** Holiday calendar or provider status errors; the report falls back to the built-in schedule. */
+  warnings: string[]
+}
+
+export async function fetchMarketStatus(market: MarketData, exchange: string, holidayDays = DEFAULT_HOLIDAY_DAYS): Promise<MarketStatusReport> {
+  const [calendar, status] = await Promise.allSettled([loadHolidays(market, exchange), market.marketStatus(exchange)])
+  const warnings = [calendar, status]
+    .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+    .map((r) => (r.reason instanceof Error ? r.reason.message : String(r.reason)))
+
+  const info = sessionAt(exchange)
+  const provided = status.status === "fulfilled" ? status.value : null
+  const hours = EXCHANGES[exchange]
+  const today = info.localTime.slice(0, 10)
+  const horizon = addDays(today, holidayDays)
+  return {
+    ...info,
+    ...(provided && { session: provided.session, isOpen: provided.session === "regular", holiday: provided.holiday ?? info.holiday }),
+    source: provided ? "provider" : "schedule",
+    hours: { pre: hours.pre ?? null, regular: hours.regular, post: hours.post ?? null },
+    holidays: calendar.status === "fulfilled" ? calendar.value.filter((h) => h.date >= today && h.date <= horizon) : [],
+    warnings,
+  }
+}
+
+function until(iso: string): string {
+  const minutes = Math.max(0, Math.round((Date.parse(iso) - Date.now()) / MINUTE_MS))
+  const days = Math.floor(minutes / 1440)
+  const h = Math.floor((minutes % 1440) / 60)
+  const m = minutes % 60
+  return [days ? `${days}d` : "", h ? `${h}h` : "", !days && m ? `${m}m` : ""].filter(Boolean).join(" ") || "now"
+}
+
+function formatStatus(r: MarketStatusReport): string {
+  const label = SESSION_LABELS[r.session] + (r.holiday ? ` — ${r.holiday}` : "")
+  const sessions = [
+    r.hours.pre ? `pre-market ${r.hours.pre}–${r.hours.regular[0][0]}` : "",
+    `regular ${r.hours.regular.map(([open, close]) => `${open}–${close}`).join(", ")}`,
+    r.hours.post ? `after-hours ${r.hours.regular[r.hours.regular.length - 1][1]}–${r.hours.post}` : "",
+  ].filter(Boolean)
+
+  const lines = [
+    `${r.name} market (${r.exchange}): ${label}`,
+    `Local time: ${formatLocal(Date.now(), r.timeZone)}`,
+  ]
+  if (r.nextClose && r.isOpen) lines.push(`Closes: ${formatLocal(Date.parse(r.nextClose), r.timeZone)} (in ${until(r.nextClose)})`)
+  if (r.nextOpen && !r.isOpen) lines.push(`Next open: ${formatLocal(Date.parse(r.nextOpen), r.timeZone)} (in ${until(r.nextOpen)})`)
+  lines.push(`Hours (${r.timeZone}): ${sessions.join(", ")}`)
+
+  if (r.holidays.length > 0) {
+    lines.push(``, `Upcoming holidays:`)
+    for (const h of r.holidays) {
+      lines.push(`  ${h.date} ${h.name}${h.tradingHours ? ` (shortened hours ${h.tradingHours})` : " (closed)"}`)
+    }
+  }
+  if (r.warnings.length > 0) lines.push(``, `Using the built-in schedule; provider data unavailable: ${r.warnings[0]}`)
+  return lines.join("\n")
+}
+
+export function marketStatusRoutes(market: MarketData) {
+  return new Elysia().get("/market/status", ({ query }) => {
+    const exchange = query.symbol ? exchangeForSymbol(query.symbol.toUpperCase()) : exchangeCode(query.exchange)
+    if (!exchange) throw new InvalidInputError(`"${query.symbol}" trades around the clock.`)
+    return fetchMarketStatus(market, exchange, query.days)
+  }, {
+    query: t.Object({
+      exchange: t.Optional(oneOf("exchange", EXCHANGE_CODES)),
+      symbol: t.Optional(symbolParams.properties.symbol),
+      days: t.Optional(t.Numeric({ minimum: 1, maximum: 365 })),
+    }),
+  })
+}
+
+export function marketStatusTools(market: MarketData): PluginToolDefinition[] {
+  return [
+    // ── Market Status ──
+    {
+      definition: {
+        name: "stock_market_status",
+        description:
+          "Check whether an exchange is open: current session (pre-market, open, after-hours, closed), " +
+          "next open or close time, trading hours and upcoming holidays. Use before treating a quote as live.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            exchange: { type: "string", enum: EXCHANGE_CODES, description: "Exchange code (default: US)" },
+            symbol: { type: "string", description: "Ticker whose exchange to check, instead of `exchange` (e.g. SAP.DE)" },
+            days: { type: "number", description: `Days of upcoming holidays to list (default: ${DEFAULT_HOLIDAY_DAYS})` },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = args.symbol ? (args.symbol as string).toUpperCase() : null
+          const exchange = symbol ? exchangeForSymbol(symbol) : exchangeCode(args.exchange)
+          if (!exchange) return err(`${symbol} trades around the clock; it has no exchange session.`)
+          const days = Math.min(Math.max(Number(args.days) || DEFAULT_HOLIDAY_DAYS, 1), 365)
+          const report = await fetchMarketStatus(market, exchange, days)
+          return respond(outputFormat(args), { text: () => formatStatus(report), data: report })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
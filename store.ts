@@ -0,0 +1,125 @@
+/**
+ * Namespaced key/value persistence on top of the plugin database.
+ * `ctx.getDb()` is expected to be a SQLite handle (bun:sqlite or
+ * better-sqlite3 style `prepare().run/get/all`). If it isn't available the
+ * store falls back to process memory, so features keep working without
+ * surviving restarts.
+ */
+
+import type { PluginContext } from "./types"
+
+export interface KeyValueStore {
+  get<T>(key: string): T | null
+  set(key: string, value: unknown): void
+  delete(key: string): void
+  list<T>(prefix?: string): Array<{ key: string; value: T }>
+}
+
+interface SqlStatement {
+  run(...params: unknown[]): unknown
+  get(...params: unknown[]): unknown
+  all(...params: unknown[]): unknown[]
+}
+
+interface SqlDatabase {
+  prepare(sql: string): SqlStatement
+}
+
+const TABLE = "stock_data_kv"
+
+let db: SqlDatabase | null | undefined
+
+function isSqlDatabase(value: unknown): value is SqlDatabase {
+  return !!value && typeof (value as SqlDatabase).prepare === "function"
+}
+
+function openDb(ctx: PluginContext): SqlDatabase | null {
+  if (db !== undefined) return db
+  try {
+    const handle = ctx.getDb()
+    if (!isSqlDatabase(handle)) throw new Error("plugin database does not expose prepare()")
+    handle
+      .prepare(
+        `CREATE TABLE IF NOT EXISTS ${TABLE} (
+          namespace TEXT NOT NULL,
+          key TEXT NOT NULL,
+          value TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (namespace, key)
+        )`
+      )
+      .run()
+    db = handle
+  } catch (e) {
+    ctx.log.warn("Plugin database unavailable, storing data in memory:", e instanceof Error ? e.message : String(e))
+    db = null
+  }
+  return db
+}
+
+function memoryStore(): KeyValueStore {
+  const data = new Map<string, string>()
+  return {
+    get: <T>(key: string) => {
+      const raw = data.get(key)
+      return raw == null ? null : (JSON.parse(raw) as T)
+    },
+    set: (key, value) => {
+      data.set(key, JSON.stringify(value))
+    },
+    delete: (key) => {
+      data.delete(key)
+    },
+    list: <T>(prefix = "") =>
+      [...data.entries()]
+        .filter(([key]) => key.startsWith(prefix))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, raw]) => ({ key, value: JSON.parse(raw) as T })),
+  }
+}
+
+function sqlStore(handle: SqlDatabase, namespace: string): KeyValueStore {
+  const select = handle.prepare(`SELECT value FROM ${TABLE} WHERE namespace = ? AND key = ?`)
+  const upsert = handle.prepare(
+    `INSERT INTO ${TABLE} (namespace, key, value, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+  )
+  const remove = handle.prepare(`DELETE FROM ${TABLE} WHERE namespace = ? AND key = ?`)
+  const scan = handle.prepare(`SELECT key, value FROM ${TABLE} WHERE namespace = ? AND substr(key, 1, ?) = ? ORDER BY key`)
+
+  return {
+    get: <T>(key: string) => {
+      const row = select.get(namespace, key) as { value: string } | null | undefined
+      return row ? (JSON.parse(row.value) as T) : null
+    },
+    set: (key, value) => {
+      upsert.run(namespace, key, JSON.stringify(value), Date.now())
+    },
+    delete: (key) => {
+      remove.run(namespace, key)
+    },
+    list: <T>(prefix = "") =>
+      (scan.all(namespace, prefix.length, prefix) as Array<{ key: string; value: string }>).map((row) => ({
+        key: row.key,
+        value: JSON.parse(row.value) as T,
+      })),
+  }
+}
+
+const stores = new Map<string, KeyValueStore>()
+
+export function openStore(ctx: PluginContext, namespace: string): KeyValueStore {
+  let store = stores.get(namespace)
+  if (!store) {
+    const handle = openDb(ctx)
+    store = handle ? sqlStore(handle, namespace) : memoryStore()
+    stores.set(namespace, store)
+  }
+  return store
+}
+
+/** Forget open handles; persisted data is untouched. */
+export function closeStores(): void {
+  stores.clear()
+  db = undefined
+}
@@ -0,0 +1,389 @@
+/**
+ * Rule-based strategy backtesting over candle series.
+ * Pure and deterministic: the same candles and rules always give the same
+ * trades. Signals are read at each bar's close and filled at the next bar's
+ * open, so no rule sees a price before it could have traded on it.
+ */
+
+import type { Candle } from "./models"
+import { InvalidInputError } from "./errors"
+import { atr, bollinger, ema, macd, rsi, sma, type Series } from "./indicators"
+
+const MAX_RULES = 5
+const MAX_PERIOD = 500
+const MAX_FEE_PERCENT = 5
+
+export const DEFAULT_CAPITAL = 10_000
+
+export type ConditionOp = "crosses_above" | "crosses_below" | ">" | ">=" | "<" | "<="
+
+export const CONDITION_OPS: ConditionOp[] = ["crosses_above", "crosses_below", ">", ">=", "<", "<="]
+
+const OPERAND_NAMES = [
+  "close", "price", "open", "high", "low", "volume",
+  "sma", "ema", "rsi", "atr", "macd", "macd_signal", "macd_hist", "bb_upper", "bb_middle", "bb_lower",
+] as const
+type OperandName = (typeof OPERAND_NAMES)[number]
+
+// Parameters used when an indicator is written without them, e.g. `rsi`
+const DEFAULT_PARAMS: Partial<Record<OperandName, number[]>> = {
+  sma: [20],
+  ema: [20],
+  rsi: [14],
+  atr: [14],
+  macd: [12, 26, 9],
+  macd_signal: [12, 26, 9],
+  macd_hist: [12, 26, 9],
+  bb_upper: [20, 2],
+  bb_middle: [20, 2],
+  bb_lower: [20, 2],
+}
+
+const CONDITION_PATTERN = /^(.+?)\s+(crosses[_ ]above|crosses[_ ]below|>=|<=|>|<)\s+(.+)$/i
+const OPERAND_PATTERN = /^([a-z_]+)\s*(?:\(\s*([\d.\s,]*)\))?$/i
+
+export type Operand =
+  | { kind: "number"; value: number; key: string }
+  | { kind: "series"; name: OperandName; params: number[]; key: string }
+
+export interface Condition {
+  left: Operand
+  op: ConditionOp
+  right: Operand
+  text: string
+}
+
+export interface Strategy {
+  /** All must hold to open a position. */
+  entry: Condition[]
+  /** Any one closes the position. */
+  exit: Condition[]
+  stopLoss: number | null // percent below the entry price
+  takeProfit: number | null // percent above the entry price
+  positionSize: number // percent of equity put into each trade
+  initialCapital: number
+  feePercent: number // per side, of the traded value
+}
+
+export interface StrategyInput {
+  entry: string[]
+  exit?: string[]
+  stopLoss?: number
+  takeProfit?: number
+  positionSize?: number
+  initialCapital?: number
+  feePercent?: number
+}
+
+export type ExitReason = "signal" | "stop_loss" | "take_profit" | "end"
+
+export interface BacktestTrade {
+  entryDate: string
+  entryPrice: number
+  exitDate: string
+  exitPrice: number
+  shares: number
+  pnl: number
+  returnPercent: number
+  bars: number
+  /** `end` marks a position still open on the last bar, valued at its close. */
+  reason: ExitReason
+}
+
+export interface EquityPoint {
+  date: string
+  equity: number
+  buyAndHold: number
+}
+
+export interface Drawdown {
+  percent: number // negative, or 0 when equity never fell
+  peak: string | null
+  trough: string | null
+}
+
+export interface PerformanceSummary {
+  finalEquity: number
+  totalReturn: number // percent
+  cagr: number | null // percent, only for periods of a year or more
+  maxDrawdown: Drawdown
+}
+
+export interface BacktestResult extends PerformanceSummary {
+  from: string
+  to: string
+  bars: number
+  initialCapital: number
+  trades: BacktestTrade[]
+  wins: number
+  winRate: number | null // percent of trades
+  averageTradeReturn: number | null // percent
+  /** Share of bars with a position open, percent. */
+  exposure: number
+  buyAndHold: PerformanceSummary
+  /** Strategy return minus buy-and-hold return, in percentage points. */
+  excessReturn: number
+  equity: EquityPoint[]
+}
+
+// ── Parsing ──
+
+function parseOperand(text: string, condition: string): Operand {
+  const s = text.trim()
+  if (/^-?\d+(\.\d+)?$/.test(s)) return { kind: "number", value: Number(s), key: s }
+
+  const match = s.match(OPERAND_PATTERN)
+  const name = match?.[1].toLowerCase() as OperandName | undefined
+  if (!match || !name || !OPERAND_NAMES.includes(name)) {
+    throw new InvalidInputError(`Unknown value "${s}" in rule "${condition}". Use a number or one of: ${OPERAND_NAMES.join(", ")}.`)
+  }
+
+  const given = match[2]?.trim() ? match[2].split(",").map((p) => Number(p.trim())) : []
+  const defaults = DEFAULT_PARAMS[name] ?? []
+  if (given.length > defaults.length) throw new InvalidInputError(`Too many parameters for ${name} in rule "${condition}".`)
+  const params = defaults.map((d, i) => given[i] ?? d)
+  // Bollinger width may be fractional; every other parameter is a bar count
+  params.forEach((p, i) => {
+    const isWidth = name.startsWith("bb_") && i === 1
+    if (!(p > 0) || p > MAX_PERIOD || (!isWidth && !Number.isInteger(p))) {
+      throw new InvalidInputError(`Invalid parameter ${p} for ${name} in rule "${condition}".`)
+    }
+  })
+  return { kind: "series", name, params, key: params.length ? `${name}(${params.join(",")})` : name }
+}
+
+/** Parse `sma(50) crosses_above sma(200)`, `rsi < 30`, `close > bb_upper(20,2)`. */
+export function parseCondition(text: string): Condition {
+  const match = text.trim().match(CONDITION_PATTERN)
+  if (!match) {
+    throw new InvalidInputError(`Can't read rule "${text}". Use value, operator (${CONDITION_OPS.join(", ")}) and value, e.g. "sma(50) crosses_above sma(200)".`)
+  }
+  const op = match[2].toLowerCase().replace(" ", "_") as ConditionOp
+  const left = parseOperand(match[1], text)
+  const right = parseOperand(match[3], text)
+  if (left.kind === "number" && right.kind === "number") throw new InvalidInputError(`Rule "${text}" compares two numbers.`)
+  return { left, op, right, text: `${left.key} ${op} ${right.key}` }
+}
+
+function percentArg(value: number | undefined, name: string, min: number, max: number): number | null {
+  if (value == null) return null
+  if (!(value > min) || value > max) throw new InvalidInputError(`${name} must be above ${min} and at most ${max} (percent).`)
+  return value
+}
+
+export function parseStrategy(input: StrategyInput): Strategy {
+  const entry = input.entry.map(parseCondition)
+  const exit = (input.exit ?? []).map(parseCondition)
+  if (entry.length === 0) throw new InvalidInputError("Give at least one entry rule.")
+  if (entry.length > MAX_RULES || exit.length > MAX_RULES) throw new InvalidInputError(`At most ${MAX_RULES} entry and ${MAX_RULES} exit rules.`)
+
+  const initialCapital = input.initialCapital ?? DEFAULT_CAPITAL
+  if (!(initialCapital > 0)) throw new InvalidInputError("initial_capital must be positive.")
+  return {
+    entry,
+    exit,
+    stopLoss: percentArg(input.stopLoss, "stop_loss", 0, 99),
+    takeProfit: percentArg(input.takeProfit, "take_profit", 0, 10_000),
+    positionSize: percentArg(input.positionSize, "position_size", 0, 100) ?? 100,
+    initialCapital,
+    feePercent: input.feePercent ? percentArg(input.feePercent, "fee", 0, MAX_FEE_PERCENT)! : 0,
+  }
+}
+
+/** Bars of history the rules need before their first value. */
+export function strategyLookback(strategy: Strategy): number {
+  const operands = [...strategy.entry, ...strategy.exit].flatMap((c) => [c.left, c.right])
+  const lookbacks = operands.map((o) => {
+    if (o.kind === "number") return 0
+    if (o.name.startsWith("macd")) return o.params[1] + o.params[2]
+    return o.params[0] ?? 0
+  })
+  return Math.max(0, ...lookbacks) + 1
+}
+
+// ── Simulation ──
+
+function operandSeries(candles: Candle[], closes: number[], operand: Operand & { kind: "series" }): Series {
+  const [a, b, c] = operand.params
+  switch (operand.name) {
+    case "close":
+    case "price": return closes
+    case "open": return candles.map((k) => k.open)
+    case "high": return candles.map((k) => k.high)
+    case "low": return candles.map((k) => k.low)
+    case "volume": return candles.map((k) => k.volume)
+    case "sma": return sma(closes, a)
+    case "ema": return ema(closes, a)
+    case "rsi": return rsi(closes, a)
+    case "atr": return atr(candles, a)
+    case "macd": return macd(closes, a, b, c).macd
+    case "macd_signal": return macd(closes, a, b, c).signal
+    case "macd_hist": return macd(closes, a, b, c).histogram
+    case "bb_upper": return bollinger(closes, a, b).upper
+    case "bb_middle": return bollinger(closes, a, b).middle
+    case "bb_lower": return bollinger(closes, a, b).lower
+  }
+}
+
+function dateOf(candle: Candle): string {
+  return new Date(candle.time * 1000).toISOString().slice(0, 10)
+}
+
+function drawdownTracker() {
+  let peak = -Infinity
+  let peakDate: string | null = null
+  const worst: Drawdown = { percent: 0, peak: null, trough: null }
+  return {
+    worst,
+    update(date: string, value: number) {
+      if (value > peak) {
+        peak = value
+        peakDate = date
+      }
+      const drawdown = (value / peak - 1) * 100
+      if (drawdown < worst.percent) {
+        worst.percent = drawdown
+        worst.peak = peakDate
+        worst.trough = date
+      }
+    },
+  }
+}
+
+function summarize(initial: number, final: number, spanDays: number, maxDrawdown: Drawdown): PerformanceSummary {
+  const growth = final / initial
+  return {
+    finalEquity: final,
+    totalReturn: (growth - 1) * 100,
+    cagr: spanDays >= 365 ? (growth ** (365 / spanDays) - 1) * 100 : null,
+    maxDrawdown,
+  }
+}
+
+/**
+ * Run `strategy` over `candles` (oldest first). Bars before `startTime`
+ * (unix seconds) only warm up the indicators; trading and buy-and-hold
+ * both start at the first bar from then on. Positions are long-only, one
+ * at a time, in fractional shares.
+ */
+export function runBacktest(candles: Candle[], strategy: Strategy, startTime = 0): BacktestResult {
+  const start = candles.findIndex((c) => c.time >= startTime)
+  if (start < 0 || candles.length - start < 2) throw new InvalidInputError("Not enough bars in the range to backtest.")
+
+  const closes = candles.map((c) => c.close)
+  const series = new Map<string, Series>()
+  const valueAt = (operand: Operand, i: number): number | null => {
+    if (operand.kind === "number") return operand.value
+    if (!series.has(operand.key)) series.set(operand.key, operandSeries(candles, closes, operand))
+    return series.get(operand.key)![i] ?? null
+  }
+  const holds = (c: Condition, i: number): boolean => {
+    const a = valueAt(c.left, i)
+    const b = valueAt(c.right, i)
+    if (a == null || b == null) return false
+    switch (c.op) {
+      case ">": return a > b
+      case ">=": return a >= b
+      case "<": return a < b
+      case "<=": return a <= b
+    }
+    const a0 = valueAt(c.left, i - 1)
+    const b0 = valueAt(c.right, i - 1)
+    if (a0 == null || b0 == null) return false
+    return c.op === "crosses_above" ? a0 <= b0 && a > b : a0 >= b0 && a < b
+  }
+
+  const fee = strategy.feePercent / 100
+  const trades: BacktestTrade[] = []
+  let cash = strategy.initialCapital
+  let position: { index: number; price: number; shares: number; cost: number } | null = null
+  let pendingEntry = false
+  let pendingExit = false
+  let barsInMarket = 0
+
+  const close = (i: number, price: number, reason: ExitReason, exitFee = fee) => {
+    const p = position!
+    const proceeds = p.shares * price * (1 - exitFee)
+    cash += proceeds
+    trades.push({
+      entryDate: dateOf(candles[p.index]),
+      entryPrice: p.price,
+      exitDate: dateOf(candles[i]),
+      exitPrice: price,
+      shares: p.shares,
+      pnl: proceeds - p.cost,
+      returnPercent: (proceeds / p.cost - 1) * 100,
+      bars: i - p.index,
+      reason,
+    })
+    position = null
+  }
+
+  const first = candles[start]
+  const holdShares = strategy.initialCapital / (first.open * (1 + fee))
+  const strategyDrawdown = drawdownTracker()
+  const holdDrawdown = drawdownTracker()
+  const equity: EquityPoint[] = []
+
+  for (let i = start; i < candles.length; i++) {
+    const bar = candles[i]
+
+    // Orders from the previous close fill at this bar's open
+    if (pendingExit && position) close(i, bar.open, "signal")
+    if (pendingEntry && !position) {
+      const budget = Math.min(cash, cash * (strategy.positionSize / 100))
+      const shares = budget / (bar.open * (1 + fee))
+      position = { index: i, price: bar.open, shares, cost: budget }
+      cash -= budget
+    }
+    pendingEntry = pendingExit = false
+
+    // Stops trigger inside the bar; a gap through the level fills at the open.
+    // When both levels are inside one bar, the stop is assumed to hit first.
+    if (position) {
+      const stop = strategy.stopLoss != null ? position.price * (1 - strategy.stopLoss / 100) : null
+      const target = strategy.takeProfit != null ? position.price * (1 + strategy.takeProfit / 100) : null
+      if (stop != null && bar.low <= stop) close(i, Math.min(bar.open, stop), "stop_loss")
+      else if (target != null && bar.high >= target) close(i, Math.max(bar.open, target), "take_profit")
+    }
+
+    if (position) {
+      barsInMarket++
+      pendingExit = strategy.exit.some((c) => holds(c, i))
+    } else {
+      pendingEntry = strategy.entry.every((c) => holds(c, i))
+    }
+
+    const date = dateOf(bar)
+    const value = cash + (position ? position.shares * bar.close : 0)
+    const hold = holdShares * bar.close
+    strategyDrawdown.update(date, value)
+    holdDrawdown.update(date, hold)
+    equity.push({ date, equity: value, buyAndHold: hold })
+  }
+
+  // Still open on the last bar: valued at its close, without an exit fee
+  const last = candles.length - 1
+  if (position) close(last, candles[last].close, "end", 0)
+
+  const spanDays = (candles[last].time - first.time) / 86400
+  const result = summarize(strategy.initialCapital, cash, spanDays, strategyDrawdown.worst)
+  const buyAndHold = summarize(strategy.initialCapital, holdShares * candles[last].close, spanDays, holdDrawdown.worst)
+  const wins = trades.filter((t) => t.pnl > 0).length
+
+  return {
+    from: dateOf(first),
+    to: dateOf(candles[last]),
+    bars: candles.length - start,
+    initialCapital: strategy.initialCapital,
+    ...result,
+    trades,
+    wins,
+    winRate: trades.length ? (wins / trades.length) * 100 : null,
+    averageTradeReturn: trades.length ? trades.reduce((acc, t) => acc + t.returnPercent, 0) / trades.length : null,
+    exposure: (barsInMarket / (candles.length - start)) * 100,
+    buyAndHold,
+    excessReturn: result.totalReturn - buyAndHold.totalReturn,
+    equity,
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Real-time trades.
+ * One upstream WebSocket (Finnhub's trade stream) is shared by every
+ * subscriber: symbols are reference counted, so the upstream subscription is
+ * only sent for the first listener and dropped after the last one leaves.
+ * Trades are folded into per-symbol last price, volume and rolling OHLC bars,
+ * and exposed to the dashboard as Server-Sent Events on `/stream`.
+ */
+
+import type { PluginContext } from "./types"
+import { Elysia, t } from "elysia"
+import { InvalidInputError } from "./errors"
+import { ProviderError } from "./providers"
+
+const DEFAULT_STREAM_URL = "wss://ws.finnhub.io"
+const BAR_MS = 60_000
+const MAX_BARS = 60
+const MAX_STREAM_SYMBOLS = 50
+const RECONNECT_BASE_MS = 1000
+const RECONNECT_MAX_MS = 60_000
+const HEARTBEAT_MS = 15_000
+
+export interface Bar {
+  time: number // bar start, unix seconds
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface SymbolTicker {
+  symbol: string
+  price: number
+  time: number // last trade, unix ms
+  volume: number // traded since the symbol was first subscribed
+  bars: Bar[] // oldest first; the last one is still forming
+}
+
+export type StreamStatus = "idle" | "connecting" | "open" | "reconnecting"
+
+export type StreamEvent =
+  | { type: "trade"; symbol: string; price: number; time: number; size: number; volume: number; bar: Bar }
+  | { type: "bar"; symbol: string; bar: Bar }
+  | { type: "status"; status: StreamStatus; retryInMs?: number; error?: string }
+
+export type StreamListener = (event: StreamEvent) => void
+
+export interface TradeStream {
+  /** Start receiving events for `symbols`; returns the unsubscribe function. */
+  subscribe(symbols: string[], listener: StreamListener): () => void
+  ticker(symbol: string): SymbolTicker | null
+  status(): StreamStatus
+  close(): void
+}
+
+interface FinnhubTrade {
+  s: string // symbol
+  p: number // price
+  t: number // unix ms
+  v: number // volume
+}
+
+const streams = new Set<TradeStream>()
+
+export function createTradeStream(ctx: PluginContext): TradeStream {
+  const refs = new Map<string, number>()
+  const listeners = new Map<StreamListener, Set<string>>()
+  const tickers = new Map<string, SymbolTicker>()
+  let socket: WebSocket | null = null
+  let state: StreamStatus = "idle"
+  let attempt = 0
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  function emit(symbol: string | null, event: StreamEvent) {
+    for (const [listener, symbols] of listeners) {
+      if (symbol && !symbols.has(symbol)) continue
+      try {
+        listener(event)
+      } catch (e) {
+        ctx.log.warn("Stream listener failed:", e instanceof Error ? e.message : String(e))
+      }
+    }
+  }
+
+  function setStatus(status: StreamStatus, extra: { retryInMs?: number; error?: string } = {}) {
+    state = status
+    emit(null, { type: "status", status, ...extra })
+  }
+
+  function send(type: "subscribe" | "unsubscribe", symbol: string) {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type, symbol }))
+  }
+
+  function applyTrade(trade: FinnhubTrade) {
+    const symbol = trade.s
+    if (!refs.has(symbol) || !(trade.p > 0)) return
+    let ticker = tickers.get(symbol)
+    if (!ticker) {
+      ticker = { symbol, price: trade.p, time: trade.t, volume: 0, bars: [] }
+      tickers.set(symbol, ticker)
+    }
+
+    const start = Math.floor(trade.t / BAR_MS) * (BAR_MS / 1000)
+    let bar = ticker.bars[ticker.bars.length - 1]
+    if (!bar || start > bar.time) {
+      if (bar) emit(symbol, { type: "bar", symbol, bar })
+      bar = { time: start, open: trade.p, high: trade.p, low: trade.p, close: trade.p, volume: 0 }
+      ticker.bars.push(bar)
+      if (ticker.bars.length > MAX_BARS) ticker.bars.shift()
+    }
+    // Late trades still count towards volume but don't move the last price
+    if (start === bar.time) {
+      bar.high = Math.max(bar.high, trade.p)
+      bar.low = Math.min(bar.low, trade.p)
+      bar.close = trade.p
+      bar.volume += trade.v
+    }
+    if (trade.t >= ticker.time) {
+      ticker.price = trade.p
+      ticker.time = trade.t
+    }
+    ticker.volume += trade.v
+  }
+
+  function onMessage(raw: unknown) {
+    let msg: { type?: string; data?: FinnhubTrade[]; msg?: string }
+    try {
+      msg = JSON.parse(String(raw))
+    } catch {
+      return
+    }
+    if (msg.type === "error") {
+      ctx.log.warn("Trade stream error:", msg.msg)
+      return
+    }
+    if (msg.type !== "trade" || !Array.isArray(msg.data)) return
+
+    // Upstream batches trades; report each symbol once per batch
+    const sizes = new Map<string, number>()
+    for (const trade of msg.data) {
+      applyTrade(trade)
+      if (refs.has(trade.s)) sizes.set(trade.s, (sizes.get(trade.s) ?? 0) + trade.v)
+    }
+    for (const [symbol, size] of sizes) {
+      const ticker = tickers.get(symbol)
+      if (!ticker) continue
+      const bar = ticker.bars[ticker.bars.length - 1]
+      emit(symbol, { type: "trade", symbol, price: ticker.price, time: ticker.time, size, volume: ticker.volume, bar })
+    }
+  }
+
+  /** The upstream URL with the API key attached; throws on a malformed `streamUrl` setting. */
+  function streamEndpoint(): URL {
+    const setting = ctx.getSetting<string>("streamUrl") || DEFAULT_STREAM_URL
+    let url: URL
+    try {
+      url = new URL(setting)
+    } catch {
+      throw new InvalidInputError(`Stream URL "${setting}" is not a valid URL.`)
+    }
+    if (url.protocol !== "wss:" && url.protocol !== "ws:") {
+      throw new InvalidInputError(`Stream URL "${setting}" must use ws:// or wss://.`)
+    }
+    const apiKey = ctx.getSetting<string>("finnhubApiKey")
+    if (apiKey) url.searchParams.set("token", apiKey)
+    return url
+  }
+
+  function scheduleReconnect(reason: string, error?: string) {
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS) + Math.floor(Math.random() * 500)
+    attempt++
+    ctx.log.warn(`Trade stream ${reason}; reconnecting in ${delay}ms`)
+    setStatus("reconnecting", { retryInMs: delay, error })
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      if (refs.size > 0) connect()
+    }, delay)
+  }
+
+  function connect() {
+    if (attempt === 0) setStatus("connecting")
+    let ws: WebSocket
+    try {
+      ws = new WebSocket(streamEndpoint().toString())
+    } catch (e) {
+      // The setting can change between attempts; keep retrying rather than throwing from a timer
+      const message = e instanceof Error ? e.message : String(e)
+      scheduleReconnect("failed to open", message)
+      return
+    }
+    socket = ws
+
+    ws.onopen = () => {
+      attempt = 0
+      setStatus("open")
+      for (const symbol of refs.keys()) send("subscribe", symbol)
+    }
+    ws.onmessage = (event) => onMessage(event.data)
+    ws.onerror = () => {
+      // onclose follows and schedules the reconnect
+    }
+    ws.onclose = (event) => {
+      if (socket !== ws) return
+      socket = null
+      if (refs.size === 0) {
+        setStatus("idle")
+        return
+      }
+      scheduleReconnect(`closed (${event.code})`, event.reason || undefined)
+    }
+  }
+
+  function disconnect() {
+    if (reconnectTimer) clearTimeout(reconnectTimer)
+    reconnectTimer = null
+    const ws = socket
+    socket = null
+    attempt = 0
+    ws?.close()
+    state = "idle"
+  }
+
+  function release(symbols: Set<string>) {
+    for (const symbol of symbols) {
+      const count = (refs.get(symbol) ?? 0) - 1
+      if (count > 0) {
+        refs.set(symbol, count)
+        continue
+      }
+      refs.delete(symbol)
+      tickers.delete(symbol)
+      send("unsubscribe", symbol)
+    }
+    if (refs.size === 0) disconnect()
+  }
+
+  const stream: TradeStream = {
+    subscribe(symbols, listener) {
+      // The setting defaults to Finnhub's own endpoint; only a stand-in URL can do without a key
+      const streamUrl = ctx.getSetting<string>("streamUrl") || DEFAULT_STREAM_URL
+      if (!ctx.getSetting<string>("finnhubApiKey") && streamUrl.replace(/\/+$/, "") === DEFAULT_STREAM_URL) {
+        throw new ProviderError("finnhub", 401, "Finnhub API key not configured. Set it in Settings > Plugins > Stock Data.")
+      }
+      // Validate before registering anything, so a bad setting leaves no listener or refs behind
+      streamEndpoint()
+      const own = new Set(symbols.map((s) => s.toUpperCase()))
+      listeners.set(listener, own)
+      for (const symbol of own) {
+        const count = refs.get(symbol) ?? 0
+        refs.set(symbol, count + 1)
+        if (count === 0) send("subscribe", symbol)
+      }
+      if (!socket && !reconnectTimer) connect()
+
+      let active = true
+      return () => {
+        if (!active) return
+        active = false
+        listeners.delete(listener)
+        release(own)
+      }
+    },
+
+    ticker(symbol) {
+      return tickers.get(symbol.toUpperCase()) ?? null
+    },
+
+    status() {
+      return state
+    },
+
+    close() {
+      listeners.clear()
+      refs.clear()
+      tickers.clear()
+      disconnect()
+      streams.delete(stream)
+    },
+  }
+  streams.add(stream)
+  return stream
+}
+
+/** Close every upstream connection; called on deactivate. */
+export function closeTradeStreams(): void {
+  for (const stream of [...streams]) stream.close()
+}
+
+function sseMessage(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+export function streamRoutes(stream: TradeStream) {
+  return new Elysia().get("/stream", ({ query, request }) => {
+    const symbols = [...new Set(query.symbols.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean))]
+    if (symbols.length === 0) throw new InvalidInputError("Provide at least one symbol.")
+    if (symbols.length > MAX_STREAM_SYMBOLS) throw new InvalidInputError(`At most ${MAX_STREAM_SYMBOLS} symbols per stream.`)
+
+    const encoder = new TextEncoder()
+    let controller!: ReadableStreamDefaultController<Uint8Array>
+    let cleanup = () => {}
+    const body = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c
+      },
+      cancel() {
+        cleanup()
+      },
+    })
+    const write = (chunk: string) => {
+      try {
+        controller.enqueue(encoder.encode(chunk))
+      } catch {
+        cleanup()
+      }
+    }
+
+    write(`retry: ${RECONNECT_BASE_MS * 3}\n\n`)
+    for (const symbol of symbols) {
+      const ticker = stream.ticker(symbol)
+      if (ticker) write(sseMessage("snapshot", { type: "snapshot", ...ticker }))
+    }
+
+    // Subscribe before responding so a missing key still gets a proper status code
+    let statusSent = false
+    const unsubscribe = stream.subscribe(symbols, (event) => {
+      if (event.type === "status") statusSent = true
+      write(sseMessage(event.type, event))
+    })
+    if (!statusSent) write(sseMessage("status", { type: "status", status: stream.status() }))
+    const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS)
+    cleanup = () => {
+      clearInterval(heartbeat)
+      unsubscribe()
+    }
+    request.signal.addEventListener("abort", () => cleanup())
+
+    return new Response(body, {
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        connection: "keep-alive",
+      },
+    })
+  }, {
+    query: t.Object({ symbols: t.String({ minLength: 1, description: "Comma-separated symbols" }) }),
+  })
+}
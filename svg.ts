@@ -0,0 +1,325 @@
+/**
+ * SVG chart rendering: candlestick or line price charts with indicator
+ * overlays and a volume pane, and multi-series performance charts.
+ * Pure string building with no I/O or native dependencies, so charts render
+ * the same anywhere and can be returned inline or served as images.
+ */
+
+import type { Candle } from "./models"
+import type { Series } from "./indicators"
+
+export type ChartTheme = "light" | "dark"
+export type PriceChartType = "candle" | "line"
+
+export const CHART_THEMES: ChartTheme[] = ["light", "dark"]
+export const PRICE_CHART_TYPES: PriceChartType[] = ["candle", "line"]
+
+export const DEFAULT_WIDTH = 800
+export const DEFAULT_HEIGHT = 420
+
+interface Palette {
+  background: string
+  text: string
+  muted: string
+  grid: string
+  up: string
+  down: string
+  lines: string[]
+}
+
+const PALETTES: Record<ChartTheme, Palette> = {
+  light: {
+    background: "#ffffff",
+    text: "#1f2328",
+    muted: "#6e7781",
+    grid: "#eaeef2",
+    up: "#1a7f37",
+    down: "#cf222e",
+    lines: ["#0969da", "#bf3989", "#9a6700", "#8250df", "#1b7c83", "#bc4c00", "#57606a", "#116329", "#a40e26", "#0550ae"],
+  },
+  dark: {
+    background: "#0d1117",
+    text: "#e6edf3",
+    muted: "#8d96a0",
+    grid: "#21262d",
+    up: "#3fb950",
+    down: "#f85149",
+    lines: ["#58a6ff", "#f778ba", "#d29922", "#bc8cff", "#39c5cf", "#f0883e", "#8b949e", "#56d364", "#ff7b72", "#79c0ff"],
+  },
+}
+
+// Plot margins: title and legend on top, price axis on the right
+const MARGIN = { top: 44, right: 64, bottom: 26, left: 12 }
+const VOLUME_SHARE = 0.2
+const PANE_GAP = 8
+const Y_TICKS = 5
+const X_LABELS = 6
+
+export interface ChartLine {
+  label: string
+  values: Series
+  dashed?: boolean
+}
+
+export interface ChartBand {
+  label: string
+  upper: Series
+  lower: Series
+}
+
+export interface ChartOptions {
+  title: string
+  subtitle?: string
+  width?: number
+  height?: number
+  theme?: ChartTheme
+}
+
+export interface PriceChartOptions extends ChartOptions {
+  type?: PriceChartType
+  volume?: boolean
+  overlays?: ChartLine[]
+  bands?: ChartBand[]
+}
+
+export interface PerformanceChartOptions extends ChartOptions {
+  /** Value the series are rebased to; drawn as the zero line. */
+  base?: number
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!)
+}
+
+function round(n: number): string {
+  return String(Math.round(n * 10) / 10)
+}
+
+/** Tick values at a 1/2/5 × 10ⁿ step spanning `[min, max]`. */
+function niceTicks(min: number, max: number, count: number): number[] {
+  const span = max - min || Math.abs(max) || 1
+  const raw = span / count
+  const magnitude = 10 ** Math.floor(Math.log10(raw))
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw)!
+  const ticks: number[] = []
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) ticks.push(Number(v.toPrecision(12)))
+  return ticks
+}
+
+function priceLabel(n: number): string {
+  const abs = Math.abs(n)
+  if (abs >= 10_000) return Math.round(n).toLocaleString("en-US")
+  if (abs >= 1 || abs === 0) return n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return n.toPrecision(3)
+}
+
+function dateLabel(time: number, spanSeconds: number, intraday: boolean): string {
+  const date = new Date(time * 1000)
+  if (intraday && spanSeconds <= 2 * 86400) {
+    return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false, timeZone: "UTC" })
+  }
+  if (spanSeconds > 400 * 86400) return date.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" })
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })
+}
+
+/** Path through the non-null points, starting a new segment after each gap. */
+function linePath(values: Series, x: (i: number) => number, y: (v: number) => number): string {
+  let path = ""
+  let drawing = false
+  values.forEach((v, i) => {
+    if (v == null || !isFinite(v)) {
+      drawing = false
+      return
+    }
+    path += `${drawing ? "L" : "M"}${round(x(i))} ${round(y(v))}`
+    drawing = true
+  })
+  return path
+}
+
+function bandPath(band: ChartBand, x: (i: number) => number, y: (v: number) => number): string {
+  const points = band.upper.map((u, i) => [i, u, band.lower[i]] as const).filter(([, u, l]) => u != null && l != null)
+  if (points.length < 2) return ""
+  const top = points.map(([i, u]) => `${round(x(i))} ${round(y(u!))}`)
+  const bottom = points.map(([i, , l]) => `${round(x(i))} ${round(y(l!))}`).reverse()
+  return `M${top.join("L")}L${bottom.join("L")}Z`
+}
+
+interface Frame {
+  width: number
+  height: number
+  palette: Palette
+  parts: string[]
+}
+
+function frame(options: ChartOptions): Frame {
+  const width = options.width ?? DEFAULT_WIDTH
+  const height = options.height ?? DEFAULT_HEIGHT
+  const palette = PALETTES[options.theme ?? "light"]
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, 'Segoe UI', Helvetica, Arial, sans-serif" font-size="11">`,
+    `<rect width="${width}" height="${height}" fill="${palette.background}"/>`,
+    `<text x="${MARGIN.left}" y="18" font-size="14" font-weight="600" fill="${palette.text}">${escapeXml(options.title)}</text>`,
+  ]
+  if (options.subtitle) {
+    parts.push(`<text x="${width - MARGIN.right}" y="18" text-anchor="end" fill="${palette.muted}">${escapeXml(options.subtitle)}</text>`)
+  }
+  return { width, height, palette, parts }
+}
+
+function legend(f: Frame, items: { label: string; color: string; dashed?: boolean }[]): void {
+  let x = MARGIN.left
+  for (const item of items) {
+    const dash = item.dashed ? ` stroke-dasharray="4 3"` : ""
+    f.parts.push(
+      `<line x1="${x}" y1="32" x2="${x + 14}" y2="32" stroke="${item.color}" stroke-width="2"${dash}/>`,
+      `<text x="${x + 18}" y="36" fill="${f.palette.text}">${escapeXml(item.label)}</text>`
+    )
+    // Rough text width; SVG has no layout engine to measure with
+    x += 18 + item.label.length * 6.2 + 14
+  }
+}
+
+function yAxis(f: Frame, ticks: number[], y: (v: number) => number, left: number, right: number, label: (v: number) => string): void {
+  for (const tick of ticks) {
+    const ty = round(y(tick))
+    f.parts.push(
+      `<line x1="${left}" y1="${ty}" x2="${right}" y2="${ty}" stroke="${f.palette.grid}"/>`,
+      `<text x="${right + 6}" y="${ty}" dy="4" fill="${f.palette.muted}">${escapeXml(label(tick))}</text>`
+    )
+  }
+}
+
+function xAxis(f: Frame, times: number[], x: (i: number) => number, bottom: number, intraday: boolean): void {
+  const span = times[times.length - 1] - times[0]
+  const every = Math.max(1, Math.ceil(times.length / X_LABELS))
+  for (let i = 0; i < times.length; i += every) {
+    f.parts.push(`<text x="${round(x(i))}" y="${bottom + 16}" text-anchor="middle" fill="${f.palette.muted}">${escapeXml(dateLabel(times[i], span, intraday))}</text>`)
+  }
+}
+
+/** Candlestick or close-line chart with optional overlays, bands and volume bars. */
+export function priceChart(candles: Candle[], options: PriceChartOptions): string {
+  const f = frame(options)
+  const { palette } = f
+  const overlays = options.overlays ?? []
+  const bands = options.bands ?? []
+  const type = options.type ?? "candle"
+
+  const left = MARGIN.left
+  const right = f.width - MARGIN.right
+  const plotBottom = f.height - MARGIN.bottom
+  const volumeHeight = options.volume ? (plotBottom - MARGIN.top) * VOLUME_SHARE : 0
+  const priceBottom = plotBottom - volumeHeight - (options.volume ? PANE_GAP : 0)
+
+  const values = [
+    ...candles.flatMap((c) => (type === "candle" ? [c.high, c.low] : [c.close])),
+    ...overlays.flatMap((o) => o.values),
+    ...bands.flatMap((b) => [...b.upper, ...b.lower]),
+  ].filter((v): v is number => v != null && isFinite(v))
+  const low = Math.min(...values)
+  const high = Math.max(...values)
+  const pad = (high - low) * 0.05 || Math.abs(high) * 0.01 || 1
+  const min = low - pad
+  const max = high + pad
+
+  const step = (right - left) / candles.length
+  const x = (i: number) => left + (i + 0.5) * step
+  const y = (v: number) => priceBottom - ((v - min) / (max - min)) * (priceBottom - MARGIN.top)
+
+  yAxis(f, niceTicks(min, max, Y_TICKS).filter((v) => v >= min && v <= max), y, left, right, priceLabel)
+
+  bands.forEach((band, i) => {
+    const color = palette.lines[(overlays.length + i) % palette.lines.length]
+    f.parts.push(
+      `<path d="${bandPath(band, x, y)}" fill="${color}" fill-opacity="0.08"/>`,
+      `<path d="${linePath(band.upper, x, y)}" fill="none" stroke="${color}" stroke-width="1" stroke-opacity="0.7"/>`,
+      `<path d="${linePath(band.lower, x, y)}" fill="none" stroke="${color}" stroke-width="1" stroke-opacity="0.7"/>`
+    )
+  })
+
+  if (type === "line") {
+    f.parts.push(`<path d="${linePath(candles.map((c) => c.close), x, y)}" fill="none" stroke="${palette.text}" stroke-width="1.5"/>`)
+  } else {
+    const body = Math.max(1, step * 0.7)
+    for (let i = 0; i < candles.length; i++) {
+      const c = candles[i]
+      const color = c.close >= c.open ? palette.up : palette.down
+      const top = y(Math.max(c.open, c.close))
+      const height = Math.max(1, y(Math.min(c.open, c.close)) - top)
+      f.parts.push(
+        `<line x1="${round(x(i))}" y1="${round(y(c.high))}" x2="${round(x(i))}" y2="${round(y(c.low))}" stroke="${color}"/>`,
+        `<rect x="${round(x(i) - body / 2)}" y="${round(top)}" width="${round(body)}" height="${round(height)}" fill="${color}"/>`
+      )
+    }
+  }
+
+  overlays.forEach((o, i) => {
+    const dash = o.dashed ? ` stroke-dasharray="4 3"` : ""
+    f.parts.push(`<path d="${linePath(o.values, x, y)}" fill="none" stroke="${palette.lines[i % palette.lines.length]}" stroke-width="1.5"${dash}/>`)
+  })
+
+  if (options.volume) {
+    const maxVolume = Math.max(...candles.map((c) => c.volume), 1)
+    const bar = Math.max(1, step * 0.7)
+    for (let i = 0; i < candles.length; i++) {
+      const c = candles[i]
+      const h = (c.volume / maxVolume) * volumeHeight
+      if (h <= 0) continue
+      const color = c.close >= c.open ? palette.up : palette.down
+      f.parts.push(`<rect x="${round(x(i) - bar / 2)}" y="${round(plotBottom - h)}" width="${round(bar)}" height="${round(h)}" fill="${color}" fill-opacity="0.4"/>`)
+    }
+  }
+
+  legend(f, [
+    ...overlays.map((o, i) => ({ label: o.label, color: palette.lines[i % palette.lines.length], dashed: o.dashed })),
+    ...bands.map((b, i) => ({ label: b.label, color: palette.lines[(overlays.length + i) % palette.lines.length] })),
+  ])
+  const intraday = candles.length > 1 && candles[1].time - candles[0].time < 86400
+  xAxis(f, candles.map((c) => c.time), x, plotBottom, intraday)
+  f.parts.push(`</svg>`)
+  return f.parts.join("\n")
+}
+
+/** Lines sharing one time axis, labeled as percent change from `base`. */
+export function performanceChart(times: number[], lines: ChartLine[], options: PerformanceChartOptions): string {
+  const f = frame(options)
+  const { palette } = f
+  const base = options.base ?? 100
+
+  const left = MARGIN.left
+  const right = f.width - MARGIN.right
+  const bottom = f.height - MARGIN.bottom
+
+  const values = [base, ...lines.flatMap((l) => l.values)].filter((v): v is number => v != null && isFinite(v))
+  const low = Math.min(...values)
+  const high = Math.max(...values)
+  const pad = (high - low) * 0.05 || 1
+  const min = low - pad
+  const max = high + pad
+
+  const step = (right - left) / Math.max(times.length - 1, 1)
+  const x = (i: number) => left + i * step
+  const y = (v: number) => bottom - ((v - min) / (max - min)) * (bottom - MARGIN.top)
+  const change = (v: number) => {
+    const p = ((v - base) / base) * 100
+    return `${p > 0 ? "+" : ""}${Number(p.toFixed(1))}%`
+  }
+
+  const ticks = niceTicks((min / base - 1) * 100, (max / base - 1) * 100, Y_TICKS).map((p) => base * (1 + p / 100))
+  yAxis(f, ticks.filter((v) => v >= min && v <= max), y, left, right, change)
+  f.parts.push(`<line x1="${left}" y1="${round(y(base))}" x2="${right}" y2="${round(y(base))}" stroke="${palette.muted}" stroke-dasharray="2 2"/>`)
+
+  lines.forEach((l, i) => {
+    const dash = l.dashed ? ` stroke-dasharray="4 3"` : ""
+    f.parts.push(`<path d="${linePath(l.values, x, y)}" fill="none" stroke="${palette.lines[i % palette.lines.length]}" stroke-width="1.75"${dash}/>`)
+  })
+
+  legend(f, lines.map((l, i) => {
+    const last = [...l.values].reverse().find((v) => v != null)
+    return { label: last != null ? `${l.label} ${change(last)}` : l.label, color: palette.lines[i % palette.lines.length], dashed: l.dashed }
+  }))
+  xAxis(f, times, x, bottom, false)
+  f.parts.push(`</svg>`)
+  return f.parts.join("\n")
+}
@@ -0,0 +1,220 @@
+/**
+ * `stock_indicators` tool and route: fetches candles and runs them through
+ * the pure calculations in `./indicators`.
+ */
+
+import type { PluginToolDefinition } from "./types"
+import type { CandleResolution } from "./models"
+import type { MarketDataProvider } from "./providers"
+import type { Currency } from "./currency"
+import { Elysia, t } from "elysia"
+import { fetchCandles, isIntraday, MAX_HISTORY_DAYS, resolveRange } from "./candles"
+import { InvalidInputError, NotFoundError } from "./errors"
+import { err, formatCurrency, formatLargeNumber } from "./format"
+import { resolutionSchema, symbolParams } from "./http"
+import { formatProp, outputFormat, respond } from "./output"
+import {
+  computeIndicators,
+  DEFAULT_INDICATOR_CONFIG,
+  INDICATOR_NAMES,
+  type IndicatorConfig,
+  type IndicatorName,
+  type IndicatorReport,
+} from "./indicators"
+
+function defaultDays(resolution: string): number {
+  if (isIntraday(resolution)) return 5
+  if (resolution === "W") return 5 * 365
+  if (resolution === "M") return 10 * 365
+  // Enough daily bars for a 200-period SMA
+  return 400
+}
+
+/** A bar count: a whole number of 1 or more. */
+function barCount(value: unknown, name: string): number | undefined {
+  if (value == null || value === "") return undefined
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 1) throw new InvalidInputError(`${name} must be a whole number of bars, 1 or more (got ${value}).`)
+  return n
+}
+
+function periods(value: unknown, name: string): number[] | undefined {
+  if (value == null || value === "") return undefined
+  const list = Array.isArray(value) ? value : String(value).split(",")
+  const nums = list.filter((v) => String(v).trim() !== "").map((v) => barCount(String(v).trim(), name)!)
+  return nums.length ? nums : undefined
+}
+
+function positive(value: unknown): number | undefined {
+  const n = Number(value)
+  return value != null && value !== "" && n > 0 ? n : undefined
+}
+
+/** Build an indicator config from tool args or query params (snake_case, lists as arrays or comma strings). */
+export function indicatorConfig(args: Record<string, unknown>, resolution: string): Partial<IndicatorConfig> {
+  const requested = args.indicators
+    ? (Array.isArray(args.indicators) ? args.indicators : String(args.indicators).split(","))
+        .map((s) => String(s).trim().toLowerCase())
+        .filter((s): s is IndicatorName => INDICATOR_NAMES.includes(s as IndicatorName))
+    : undefined
+
+  const config: Partial<IndicatorConfig> = {
+    indicators: requested?.length ? requested : undefined,
+    smaPeriods: periods(args.sma_periods, "sma_periods"),
+    emaPeriods: periods(args.ema_periods, "ema_periods"),
+    rsiPeriod: barCount(args.rsi_period, "rsi_period"),
+    macdFast: barCount(args.macd_fast, "macd_fast"),
+    macdSlow: barCount(args.macd_slow, "macd_slow"),
+    macdSignal: barCount(args.macd_signal, "macd_signal"),
+    bollingerPeriod: barCount(args.bb_period, "bb_period"),
+    bollingerStdDev: positive(args.bb_stddev),
+    atrPeriod: barCount(args.atr_period, "atr_period"),
+    volumePeriod: barCount(args.volume_period, "volume_period"),
+    vwapAnchor: isIntraday(resolution) ? "session" : "series",
+  }
+  const fast = config.macdFast ?? DEFAULT_INDICATOR_CONFIG.macdFast
+  const slow = config.macdSlow ?? DEFAULT_INDICATOR_CONFIG.macdSlow
+  if (fast >= slow) throw new InvalidInputError(`macd_fast (${fast}) must be shorter than macd_slow (${slow}).`)
+  return Object.fromEntries(Object.entries(config).filter(([, v]) => v !== undefined)) as Partial<IndicatorConfig>
+}
+
+export async function fetchIndicators(
+  market: MarketDataProvider,
+  symbol: string,
+  resolution: CandleResolution,
+  days: number,
+  config: Partial<IndicatorConfig>
+): Promise<IndicatorReport | null> {
+  // Same limits as stock_candles: at most a year of intraday bars
+  const { from, to } = resolveRange({ days }, resolution, defaultDays(resolution))
+  const candles = await fetchCandles(market, symbol, resolution, from, to)
+  if (candles.length === 0) return null
+  return computeIndicators(candles, config)
+}
+
+function num(v: number | null | undefined, digits = 2): string {
+  return v != null ? formatCurrency(Number(v.toFixed(digits))) : "N/A"
+}
+
+function formatReport(symbol: string, resolution: string, r: IndicatorReport, money: (amount: number) => string): string {
+  const date = new Date(r.time * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+  const price = (v: number | null | undefined) => (v != null ? money(v) : "N/A")
+  const lines = [`${symbol} technicals — ${r.bars} bars (${resolution}), last close ${money(r.close)} on ${date}`, ``]
+
+  for (const [p, v] of Object.entries(r.sma)) lines.push(`SMA ${p}: ${price(v)}`)
+  for (const [p, v] of Object.entries(r.ema)) lines.push(`EMA ${p}: ${price(v)}`)
+  if (r.rsi != null) lines.push(`RSI: ${r.rsi.toFixed(1)}`)
+  if (r.macd) lines.push(`MACD: ${num(r.macd.macd, 3)}  |  Signal: ${num(r.macd.signal, 3)}  |  Histogram: ${num(r.macd.histogram, 3)}`)
+  if (r.bollinger) {
+    const pb = r.bollinger.percentB != null ? ` (%B ${r.bollinger.percentB.toFixed(2)})` : ""
+    lines.push(`Bollinger: ${price(r.bollinger.lower)} / ${price(r.bollinger.middle)} / ${price(r.bollinger.upper)}${pb}`)
+  }
+  if (r.atr) lines.push(`ATR: ${price(r.atr.value)}${r.atr.percent != null ? ` (${r.atr.percent.toFixed(2)}% of price)` : ""}`)
+  if (r.vwap != null) lines.push(`VWAP: ${money(r.vwap)}`)
+  if (r.volume) {
+    const avg = r.volume.average != null ? formatLargeNumber(Math.round(r.volume.average)) : "N/A"
+    lines.push(`Volume: ${formatLargeNumber(r.volume.latest)} (avg ${avg})`)
+  }
+
+  if (r.signals.length > 0) {
+    lines.push(``, `Signals:`)
+    for (const s of r.signals) lines.push(`  • ${s}`)
+  }
+  return lines.join("\n")
+}
+
+export function indicatorRoutes(market: MarketDataProvider) {
+  return new Elysia().get("/indicators/:symbol", async ({ params, query }) => {
+    const symbol = params.symbol.toUpperCase()
+    const resolution = (query.resolution ?? "D") as CandleResolution
+    const days = query.days ?? defaultDays(resolution)
+    const report = await fetchIndicators(market, symbol, resolution, days, indicatorConfig(query, resolution))
+    if (!report) throw new NotFoundError(`No candle data for "${symbol}".`)
+    return { symbol, resolution, ...report }
+  }, {
+    params: symbolParams,
+    query: t.Object({
+      resolution: t.Optional(resolutionSchema),
+      days: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_HISTORY_DAYS })),
+      indicators: t.Optional(t.String()),
+      sma_periods: t.Optional(t.String()),
+      ema_periods: t.Optional(t.String()),
+      rsi_period: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+      macd_fast: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+      macd_slow: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+      macd_signal: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+      bb_period: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+      bb_stddev: t.Optional(t.Numeric({ exclusiveMinimum: 0 })),
+      atr_period: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+      volume_period: t.Optional(t.Numeric({ minimum: 1, multipleOf: 1 })),
+    }),
+  })
+}
+
+export function indicatorTools(market: MarketDataProvider, currency: Currency): PluginToolDefinition[] {
+  const periodList = (what: string, dflt: string) => ({
+    type: "array",
+    items: { type: "number" },
+    description: `${what} periods (default: ${dflt})`,
+  })
+  const period = (what: string, dflt: number) => ({ type: "number", description: `${what} (default: ${dflt})` })
+
+  return [
+    {
+      definition: {
+        name: "stock_indicators",
+        description:
+          "Compute technical indicators (SMA, EMA, RSI, MACD, Bollinger Bands, ATR, VWAP, volume average) from candle data, " +
+          "with signal summaries such as moving-average crossovers and overbought/oversold RSI.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            resolution: {
+              type: "string",
+              description: "Candle resolution: 1, 5, 15, 30, 60 (minutes), D (day), W (week), M (month). Default: D",
+              enum: ["1", "5", "15", "30", "60", "D", "W", "M"],
+            },
+            days: { type: "number", description: "Days of history to analyze (default: 400 for daily, 5 for intraday; at most 365 for intraday)" },
+            indicators: {
+              type: "array",
+              items: { type: "string", enum: INDICATOR_NAMES },
+              description: "Indicators to compute (default: all)",
+            },
+            sma_periods: periodList("SMA", "20, 50, 200"),
+            ema_periods: periodList("EMA", "12, 26"),
+            rsi_period: period("RSI period", 14),
+            macd_fast: period("MACD fast EMA period", 12),
+            macd_slow: period("MACD slow EMA period", 26),
+            macd_signal: period("MACD signal period", 9),
+            bb_period: period("Bollinger Band period", 20),
+            bb_stddev: period("Bollinger Band width in standard deviations", 2),
+            atr_period: period("ATR period", 14),
+            volume_period: period("Volume moving average period", 20),
+            format: formatProp,
+          },
+          required: ["symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const symbol = (args.symbol as string).toUpperCase()
+          const resolution = ((args.resolution as string) || "D") as CandleResolution
+          const days = positive(args.days) ?? defaultDays(resolution)
+
+          const report = await fetchIndicators(market, symbol, resolution, days, indicatorConfig(args, resolution))
+          if (!report) {
+            return err(`No candle data for "${symbol}" with resolution ${resolution} over ${days} days.`)
+          }
+          const money = await currency.priceFormatter(symbol)
+          return respond(outputFormat(args), {
+            text: () => formatReport(symbol, resolution, report, money),
+            data: { symbol, resolution, ...report },
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
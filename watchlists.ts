@@ -0,0 +1,284 @@
+/**
+ * Named watchlists persisted in the plugin database.
+ */
+
+import type { PluginContext, PluginToolDefinition } from "./types"
+import type { MarketDataProvider } from "./providers"
+import type { Currency } from "./currency"
+import { Elysia, t } from "elysia"
+import { ConflictError, InvalidInputError, NotFoundError } from "./errors"
+import { err, ok } from "./format"
+import { formatProp, outputFormat, respond } from "./output"
+import { fetchQuotes, formatQuoteRow, QUOTE_SORTS, quoteRowsTable, sortQuoteRows, type QuoteSort } from "./quotes"
+import { oneOf } from "./http"
+import { openStore } from "./store"
+
+export interface Watchlist {
+  name: string
+  symbols: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Watchlists {
+  all(): Watchlist[]
+  get(name: string): Watchlist | null
+  create(name: string, symbols?: string[]): Watchlist
+  add(name: string, symbols: string[]): Watchlist
+  remove(name: string, symbols: string[]): Watchlist
+  delete(name: string): void
+  /** Every symbol on any watchlist. */
+  symbols(): string[]
+}
+
+function normalizeSymbols(symbols: string[]): string[] {
+  return [...new Set(symbols.map((s) => s.trim().toUpperCase()).filter(Boolean))]
+}
+
+function keyFor(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+export function createWatchlists(ctx: PluginContext): Watchlists {
+  const store = openStore(ctx, "watchlists")
+
+  function mustGet(name: string): Watchlist {
+    const list = store.get<Watchlist>(keyFor(name))
+    if (!list) throw new NotFoundError(`Watchlist "${name}" not found. Create it with stock_watchlist_create.`)
+    return list
+  }
+
+  function save(list: Watchlist): Watchlist {
+    list.updatedAt = new Date().toISOString()
+    store.set(keyFor(list.name), list)
+    return list
+  }
+
+  return {
+    all: () => store.list<Watchlist>().map((e) => e.value),
+
+    get: (name) => store.get<Watchlist>(keyFor(name)),
+
+    create(name, symbols = []) {
+      const trimmed = name.trim()
+      if (!trimmed) throw new InvalidInputError("Watchlist name is required.")
+      if (store.get(keyFor(trimmed))) throw new ConflictError(`Watchlist "${trimmed}" already exists.`)
+      const now = new Date().toISOString()
+      return save({ name: trimmed, symbols: normalizeSymbols(symbols), createdAt: now, updatedAt: now })
+    },
+
+    add(name, symbols) {
+      const list = mustGet(name)
+      list.symbols = normalizeSymbols([...list.symbols, ...symbols])
+      return save(list)
+    },
+
+    remove(name, symbols) {
+      const list = mustGet(name)
+      const drop = new Set(normalizeSymbols(symbols))
+      list.symbols = list.symbols.filter((s) => !drop.has(s))
+      return save(list)
+    },
+
+    delete(name) {
+      mustGet(name)
+      store.delete(keyFor(name))
+    },
+
+    symbols() {
+      return normalizeSymbols(store.list<Watchlist>().flatMap((e) => e.value.symbols))
+    },
+  }
+}
+
+function describe(list: Watchlist): string {
+  return `${list.name} (${list.symbols.length}): ${list.symbols.length ? list.symbols.join(", ") : "empty"}`
+}
+
+export function watchlistRoutes(lists: Watchlists, market: MarketDataProvider, currency: Currency) {
+  const find = (name: string) => {
+    const list = lists.get(name)
+    if (!list) throw new NotFoundError(`Watchlist "${name}" not found.`)
+    return list
+  }
+
+  return new Elysia({ prefix: "/watchlists" })
+    .get("/", () => ({ watchlists: lists.all() }))
+    .post("/", ({ body, set }) => {
+      set.status = 201
+      return lists.create(body.name, body.symbols)
+    }, {
+      body: t.Object({ name: t.String({ minLength: 1 }), symbols: t.Optional(t.Array(t.String())) }),
+    })
+    .get("/:name", ({ params }) => find(params.name))
+    .delete("/:name", ({ params }) => {
+      lists.delete(params.name)
+      return { deleted: params.name }
+    })
+    .post("/:name/symbols", ({ params, body }) => lists.add(params.name, body.symbols), {
+      body: t.Object({ symbols: t.Array(t.String(), { minItems: 1 }) }),
+    })
+    .delete("/:name/symbols/:symbol", ({ params }) => lists.remove(params.name, [params.symbol]))
+    .get("/:name/quotes", async ({ params, query }) => {
+      const list = find(params.name)
+      const rows = await fetchQuotes(market, currency, list.symbols)
+      return { name: list.name, quotes: query.sort ? sortQuoteRows(rows, query.sort) : rows }
+    }, {
+      query: t.Object({ sort: t.Optional(oneOf("sort", QUOTE_SORTS)) }),
+    })
+}
+
+export function watchlistTools(lists: Watchlists, market: MarketDataProvider, currency: Currency): PluginToolDefinition[] {
+  const nameProp = { type: "string", description: "Watchlist name (e.g. 'tech', 'dividend')" }
+  const symbolsProp = {
+    type: "array",
+    items: { type: "string" },
+    description: "Ticker symbols (e.g. [\"AAPL\", \"MSFT\"])",
+  }
+
+  return [
+    // ── Create Watchlist ──
+    {
+      definition: {
+        name: "stock_watchlist_create",
+        description: "Create a named watchlist, optionally with an initial set of symbols. Watchlists persist across sessions.",
+        inputSchema: {
+          type: "object" as const,
+          properties: { name: nameProp, symbols: symbolsProp, format: formatProp },
+          required: ["name"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const list = lists.create(args.name as string, (args.symbols as string[]) || [])
+          return respond(outputFormat(args), { text: `Created watchlist ${describe(list)}`, data: list })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Add to Watchlist ──
+    {
+      definition: {
+        name: "stock_watchlist_add",
+        description: "Add symbols to an existing watchlist.",
+        inputSchema: {
+          type: "object" as const,
+          properties: { name: nameProp, symbols: symbolsProp, format: formatProp },
+          required: ["name", "symbols"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const list = lists.add(args.name as string, args.symbols as string[])
+          return respond(outputFormat(args), { text: `Updated watchlist ${describe(list)}`, data: list })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Remove from Watchlist ──
+    {
+      definition: {
+        name: "stock_watchlist_remove",
+        description: "Remove symbols from a watchlist. Omit symbols to delete the whole watchlist.",
+        inputSchema: {
+          type: "object" as const,
+          properties: { name: nameProp, symbols: symbolsProp, format: formatProp },
+          required: ["name"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const name = args.name as string
+          const symbols = args.symbols as string[] | undefined
+          if (!symbols || symbols.length === 0) {
+            lists.delete(name)
+            return respond(outputFormat(args), { text: `Deleted watchlist "${name}".`, data: { deleted: name } })
+          }
+          const list = lists.remove(name, symbols)
+          return respond(outputFormat(args), { text: `Updated watchlist ${describe(list)}`, data: list })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── List Watchlists ──
+    {
+      definition: {
+        name: "stock_watchlist_list",
+        description: "List saved watchlists and their symbols. Pass a name to show just one.",
+        inputSchema: {
+          type: "object" as const,
+          properties: { name: nameProp, format: formatProp },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const format = outputFormat(args)
+          if (args.name) {
+            const list = lists.get(args.name as string)
+            if (!list) return err(`Watchlist "${args.name}" not found.`)
+            return respond(format, { text: describe(list), data: list })
+          }
+          const all = lists.all()
+          if (all.length === 0 && format === "text") return ok("No watchlists yet. Create one with stock_watchlist_create.")
+          return respond(format, { text: () => `Watchlists:\n${all.map(describe).join("\n")}`, data: all })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Watchlist Quotes ──
+    {
+      definition: {
+        name: "stock_watchlist_quotes",
+        description: "Get real-time quotes for every symbol on a saved watchlist, e.g. to answer \"how is my tech list doing\".",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            name: nameProp,
+            sort: {
+              type: "string",
+              description: "Sort order: change_desc (best performers first, default), change_asc, or symbol",
+              enum: QUOTE_SORTS,
+            },
+            format: formatProp,
+          },
+          required: ["name"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const list = lists.get(args.name as string)
+          if (!list) return err(`Watchlist "${args.name}" not found.`)
+          if (list.symbols.length === 0) return ok(`Watchlist "${list.name}" is empty.`)
+
+          const sort = (args.sort as QuoteSort) || "change_desc"
+          const rows = sortQuoteRows(await fetchQuotes(market, currency, list.symbols), sort)
+          const quoted = rows.filter((r) => r.quote)
+          const avg = quoted.length
+            ? quoted.reduce((sum, r) => sum + r.quote!.changePercent, 0) / quoted.length
+            : 0
+
+          const lines = [
+            `${list.name} — ${list.symbols.length} symbols, average ${avg >= 0 ? "+" : ""}${avg.toFixed(2)}% today`,
+            ``,
+            ...rows.map((r) => formatQuoteRow(r, currency)),
+          ]
+          return respond(outputFormat(args), {
+            text: lines.join("\n"),
+            data: { name: list.name, averageChangePercent: avg, quotes: rows },
+            table: quoteRowsTable(rows),
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}
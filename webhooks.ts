@@ -0,0 +1,384 @@
+/**
+ * Inbound Finnhub webhooks.
+ * Finnhub posts earnings, news and price-trigger events to the plugin's
+ * `finnhub` webhook. Each delivery is checked against the shared secret,
+ * normalized into `MarketEvent`s and stored; events about a watched or held
+ * symbol are also forwarded to the user with `ctx.sendClaudeMessage`.
+ * The tools here manage the upstream subscriptions that produce them.
+ */
+
+import type { PluginContext, PluginToolDefinition, PluginWebhook } from "./types"
+import { Elysia, t } from "elysia"
+import { InvalidInputError } from "./errors"
+import { err, formatCurrency, formatLargeNumber, ok } from "./format"
+import { oneOf } from "./http"
+import { formatProp, outputFormat, respond } from "./output"
+import { buildPositions, type Portfolio } from "./portfolio"
+import { ProviderError } from "./providers"
+import { finnhubSend } from "./providers/finnhub"
+import { openStore } from "./store"
+import type { Watchlists } from "./watchlists"
+
+export type MarketEventType = "earnings" | "news" | "price" | "other"
+
+export const MARKET_EVENT_TYPES: MarketEventType[] = ["earnings", "news", "price", "other"]
+
+/** Events Finnhub can be asked to deliver. */
+export const WEBHOOK_EVENTS = ["earnings", "news", "price"] as const
+
+export interface MarketEvent {
+  id: string
+  type: MarketEventType
+  symbols: string[]
+  title: string
+  url: string | null
+  occurredAt: string
+  receivedAt: string
+  /** Whether the event touched a watched or held symbol and was sent to the user. */
+  forwarded: boolean
+  data: unknown // the payload item as delivered
+}
+
+export interface WebhookSubscription {
+  id: number
+  event: string
+  symbol: string
+}
+
+export interface MarketEvents {
+  recent(filter?: { symbol?: string; type?: MarketEventType; limit?: number }): MarketEvent[]
+  /** Store events, skipping ones already received; returns the new ones. */
+  record(events: MarketEvent[]): MarketEvent[]
+}
+
+const SECRET_HEADER = "x-finnhub-secret"
+const MAX_STORED_EVENTS = 500
+const DEFAULT_EVENT_LIMIT = 20
+
+type Payload = Record<string, unknown>
+
+function str(value: unknown): string {
+  return typeof value === "string" ? value : value == null ? "" : String(value)
+}
+
+function num(value: unknown): number | null {
+  return typeof value === "number" && isFinite(value) ? value : null
+}
+
+/** FNV-1a, enough to recognise a redelivered payload. */
+function hash(text: string): string {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16)
+}
+
+function versus(actual: number | null, estimate: number | null, fmt: (n: number) => string): string {
+  if (actual == null) return estimate == null ? "n/a" : `est. ${fmt(estimate)}`
+  return estimate == null ? fmt(actual) : `${fmt(actual)} vs ${fmt(estimate)} est.`
+}
+
+function earningsTitle(item: Payload, symbol: string): string {
+  const period = item.quarter && item.year ? `Q${item.quarter} ${item.year}` : str(item.date)
+  const eps = versus(num(item.epsActual), num(item.epsEstimate), (n) => n.toFixed(2))
+  const revenue = versus(num(item.revenueActual), num(item.revenueEstimate), (n) => `$${formatLargeNumber(n)}`)
+  const reported = num(item.epsActual) != null ? "reported" : "scheduled"
+  return `${symbol} ${reported} ${period} earnings — EPS ${eps}, revenue ${revenue}`
+}
+
+/** Turn one webhook delivery (`{ event, data }`) into events. Unknown event types are kept as "other". */
+export function normalizeWebhook(body: unknown, receivedAt = new Date().toISOString()): MarketEvent[] {
+  if (!body || typeof body !== "object") throw new InvalidInputError("Webhook body must be a JSON object.")
+  const { event, data } = body as { event?: unknown; data?: unknown }
+  const kind = str(event).toLowerCase()
+  const type: MarketEventType = (MARKET_EVENT_TYPES as string[]).includes(kind) ? (kind as MarketEventType) : "other"
+  const items = (Array.isArray(data) ? data : data != null ? [data] : []).filter(
+    (item): item is Payload => !!item && typeof item === "object"
+  )
+
+  return items.map((item) => {
+    const symbol = str(item.symbol ?? item.s).toUpperCase()
+    const base = { type, receivedAt, forwarded: false, data: item, url: null as string | null }
+    const fallbackId = `${type}:${hash(JSON.stringify(item))}`
+
+    if (type === "news") {
+      const related = str(item.related).split(",").map((s) => s.trim().toUpperCase()).filter(Boolean)
+      const datetime = num(item.datetime)
+      return {
+        ...base,
+        id: item.id != null ? `news:${item.id}` : fallbackId,
+        symbols: related.length ? related : symbol ? [symbol] : [],
+        title: `${str(item.headline) || "News"}${item.source ? ` (${item.source})` : ""}`,
+        url: str(item.url) || null,
+        occurredAt: datetime ? new Date(datetime * 1000).toISOString() : receivedAt,
+      }
+    }
+
+    if (type === "earnings") {
+      return {
+        ...base,
+        id: fallbackId,
+        symbols: symbol ? [symbol] : [],
+        title: earningsTitle(item, symbol || "Unknown"),
+        occurredAt: receivedAt,
+      }
+    }
+
+    if (type === "price") {
+      const price = num(item.price ?? item.p)
+      return {
+        ...base,
+        id: fallbackId,
+        symbols: symbol ? [symbol] : [],
+        title: `${symbol || "Price"} trigger${price != null ? ` at $${formatCurrency(price)}` : ""}`,
+        occurredAt: receivedAt,
+      }
+    }
+
+    return {
+      ...base,
+      id: fallbackId,
+      symbols: symbol ? [symbol] : [],
+      title: `${kind || "Unknown"} event${symbol ? ` for ${symbol}` : ""}`,
+      occurredAt: receivedAt,
+    }
+  })
+}
+
+export function createMarketEvents(ctx: PluginContext): MarketEvents {
+  const store = openStore(ctx, "events")
+  const all = () => store.list<MarketEvent>().map((e) => e.value).sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))
+
+  return {
+    recent({ symbol, type, limit = DEFAULT_EVENT_LIMIT } = {}) {
+      const wanted = symbol?.toUpperCase()
+      return all()
+        .filter((e) => (!wanted || e.symbols.includes(wanted)) && (!type || e.type === type))
+        .slice(0, limit)
+    },
+
+    record(events) {
+      const added = events.filter((e) => !store.get(e.id))
+      for (const event of added) store.set(event.id, event)
+      if (added.length > 0) {
+        for (const old of all().slice(MAX_STORED_EVENTS)) store.delete(old.id)
+      }
+      return added
+    },
+  }
+}
+
+/** Symbols on any watchlist or with an open position. */
+function trackedSymbols(watchlists: Watchlists, portfolio: Portfolio): Set<string> {
+  const symbols = new Set(watchlists.symbols())
+  try {
+    for (const position of buildPositions(portfolio.trades())) {
+      if (position.quantity > 0) symbols.add(position.symbol)
+    }
+  } catch {
+    // An inconsistent trade log shouldn't stop watchlist events
+  }
+  return symbols
+}
+
+/** Constant-time comparison so the secret can't be probed byte by byte. */
+function secretMatches(given: string, expected: string): boolean {
+  if (given.length !== expected.length) return false
+  let diff = 0
+  for (let i = 0; i < given.length; i++) diff |= given.charCodeAt(i) ^ expected.charCodeAt(i)
+  return diff === 0
+}
+
+function header(headers: Record<string, string>, name: string): string {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) return value
+  }
+  return ""
+}
+
+export function finnhubWebhook(
+  ctx: PluginContext,
+  events: MarketEvents,
+  watchlists: Watchlists,
+  portfolio: Portfolio
+): PluginWebhook {
+  return {
+    path: "/finnhub",
+    method: "POST",
+    handler: async ({ body, headers }) => {
+      const secret = ctx.getSetting<string>("finnhubWebhookSecret")
+      if (!secret) throw new Error("Webhook secret not configured; rejecting delivery.")
+      if (!secretMatches(header(headers, SECRET_HEADER), secret)) {
+        ctx.log.warn("Rejected Finnhub webhook with a missing or wrong secret")
+        throw new Error("Invalid webhook secret.")
+      }
+
+      const tracked = trackedSymbols(watchlists, portfolio)
+      const incoming = normalizeWebhook(body)
+      for (const event of incoming) event.forwarded = event.symbols.some((s) => tracked.has(s))
+      const added = events.record(incoming)
+      const relevant = added.filter((e) => e.forwarded)
+
+      // Finnhub wants a quick 2xx; notifications go out in the background
+      for (const event of relevant) {
+        const link = event.url ? `\n${event.url}` : ""
+        ctx.sendClaudeMessage(`Market event: ${event.title}${link}`).catch((e) =>
+          ctx.log.warn("Forwarding market event failed:", e instanceof Error ? e.message : String(e))
+        )
+      }
+      return { ok: true, received: added.length, forwarded: relevant.length }
+    },
+  }
+}
+
+function describeEvent(event: MarketEvent): string {
+  const when = new Date(event.occurredAt).toLocaleString("en-US")
+  return `[${event.type}] ${when} — ${event.title}${event.forwarded ? " (forwarded)" : ""}`
+}
+
+export function webhookRoutes(events: MarketEvents) {
+  return new Elysia({ prefix: "/webhooks" }).get("/events", ({ query }) => ({
+    events: events.recent({ symbol: query.symbol, type: query.type, limit: query.limit }),
+  }), {
+    query: t.Object({
+      symbol: t.Optional(t.String({ minLength: 1 })),
+      type: t.Optional(oneOf("type", MARKET_EVENT_TYPES)),
+      limit: t.Optional(t.Numeric({ minimum: 1, maximum: MAX_STORED_EVENTS })),
+    }),
+  })
+}
+
+export function webhookTools(ctx: PluginContext, events: MarketEvents): PluginToolDefinition[] {
+  const key = () => {
+    const apiKey = ctx.getSetting<string>("finnhubApiKey")
+    if (!apiKey) throw new ProviderError("finnhub", 401, "Webhook subscriptions need a Finnhub API key. Set it in plugin settings.")
+    return apiKey
+  }
+
+  return [
+    // ── Register Webhook ──
+    {
+      definition: {
+        name: "stock_webhook_create",
+        description:
+          "Subscribe to Finnhub webhook events for a symbol. Finnhub then pushes them to this plugin, " +
+          "and events for watched or held symbols are forwarded to the user.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            event: { type: "string", enum: WEBHOOK_EVENTS, description: "Event type to subscribe to" },
+            symbol: { type: "string", description: "Ticker symbol (e.g. AAPL)" },
+            format: formatProp,
+          },
+          required: ["event", "symbol"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const event = String(args.event)
+          if (!(WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+            return err(`Unknown event "${event}". Use one of: ${WEBHOOK_EVENTS.join(", ")}.`)
+          }
+          const symbol = (args.symbol as string).trim().toUpperCase()
+          const created = await finnhubSend<WebhookSubscription>("POST", "/webhook/add", key(), { event, symbol })
+          const subscription = { id: created.id, event, symbol }
+          return respond(outputFormat(args), {
+            text: `Subscribed to ${event} events for ${symbol} (webhook ${subscription.id}).`,
+            data: subscription,
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── List Webhooks ──
+    {
+      definition: {
+        name: "stock_webhook_list",
+        description: "List the Finnhub webhook subscriptions registered for this API key.",
+        inputSchema: {
+          type: "object" as const,
+          properties: { format: formatProp },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const subscriptions = (await finnhubSend<WebhookSubscription[]>("GET", "/webhook/list", key())) || []
+          const format = outputFormat(args)
+          if (subscriptions.length === 0 && format === "text") return ok("No webhook subscriptions.")
+          const lines = subscriptions.map((s) => `  ${s.id}: ${s.event} for ${s.symbol}`)
+          return respond(format, { text: `Webhook subscriptions:\n${lines.join("\n")}`, data: subscriptions })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Delete Webhook ──
+    {
+      definition: {
+        name: "stock_webhook_delete",
+        description: "Delete a Finnhub webhook subscription by id (see stock_webhook_list).",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            id: { type: "number", description: "Webhook id" },
+            format: formatProp,
+          },
+          required: ["id"],
+        },
+      },
+      handler: async (args) => {
+        try {
+          const id = Number(args.id)
+          if (!Number.isInteger(id)) return err("Webhook id must be a number.")
+          await finnhubSend("POST", "/webhook/delete", key(), { id })
+          return respond(outputFormat(args), { text: `Deleted webhook ${id}.`, data: { deleted: id } })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+
+    // ── Received Events ──
+    {
+      definition: {
+        name: "stock_webhook_events",
+        description: "Show recently received webhook events (earnings, news, price triggers), newest first.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            symbol: { type: "string", description: "Only events mentioning this symbol" },
+            type: { type: "string", enum: MARKET_EVENT_TYPES, description: "Only events of this type" },
+            limit: { type: "number", description: `Maximum events to return (default: ${DEFAULT_EVENT_LIMIT})` },
+            format: formatProp,
+          },
+        },
+      },
+      handler: async (args) => {
+        try {
+          const recent = events.recent({
+            symbol: args.symbol as string | undefined,
+            type: args.type as MarketEventType | undefined,
+            limit: Math.min(Math.max(Number(args.limit) || DEFAULT_EVENT_LIMIT, 1), MAX_STORED_EVENTS),
+          })
+          const format = outputFormat(args)
+          if (recent.length === 0 && format === "text") return ok("No webhook events received yet.")
+          return respond(format, {
+            text: `Recent events:\n${recent.map(describeEvent).join("\n")}`,
+            data: recent,
+            table: {
+              columns: ["id", "type", "symbols", "occurredAt", "title", "url", "forwarded"],
+              rows: recent.map((e) => [e.id, e.type, e.symbols.join(" "), e.occurredAt, e.title, e.url, e.forwarded]),
+            },
+          })
+        } catch (e) {
+          return err(e instanceof Error ? e.message : String(e))
+        }
+      },
+    },
+  ]
+}